@@ -1,6 +1,7 @@
 import { HardhatUserConfig } from "hardhat/config"
 import "@nomiclabs/hardhat-ethers"
 import "@parity/hardhat-polkadot"
+import "./tasks/wormhole"
 
 const config: HardhatUserConfig = {
     solidity: "0.8.20",
@@ -0,0 +1,161 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ethers, network } from "hardhat";
+import { Signer } from "ethers";
+import { describeNetwork, isDevNetwork, loadDeployer, refuseTestAddresses } from "./lib/Keystore";
+import { ParamSpecs, loadScriptParams } from "./lib/ScriptParams";
+import { DeployResult as CoreDeployResult, deployCore } from "./DeployCore";
+import { DeployResult as TestTokenDeployResult, deployTestToken } from "./DeployTestToken";
+import { DeployResult as TokenBridgeDeployResult, deployTokenBridge } from "./DeployTokenBridge";
+import { DeployResult as NFTBridgeDeployResult, deployNFTBridge } from "./DeployNFTBridge";
+
+interface DeployAllParams {
+  initialSigners: string[];
+  chainId: number;
+  governanceChainId: number;
+  governanceContract: string;
+  evmChainId: number;
+  finality: number;
+  // WETH the token bridge unwraps; when omitted deployTestToken deploys a MockWETH9 (and the
+  // other test tokens) first, which is only allowed on dev networks
+  weth?: string;
+}
+
+// How main() reads DeployAllParams: --flags, env vars (the guardian set from GUARDIANS) or a
+// CONFIG file; evmChainId defaults to the connected node's
+const DEPLOY_ALL_PARAM_SPECS: ParamSpecs<DeployAllParams> = {
+  initialSigners: { type: "addresses", env: "GUARDIANS" },
+  chainId: { type: "chainId" },
+  governanceChainId: { type: "chainId", default: 1 },
+  governanceContract: { type: "bytes32", default: "0x0000000000000000000000000000000000000000000000000000000000000004" },
+  evmChainId: { type: "evmChainId" },
+  finality: { type: "finality", default: 15 },
+  weth: { type: "address", optional: true }
+};
+
+// Everything one deployment produced, written as JSON so later scripts need not be handed
+// the addresses one by one
+interface DeploymentManifest {
+  network: string;
+  deployer: string;
+  // ISO 8601
+  deployedAt: string;
+  params: DeployAllParams;
+  core: CoreDeployResult;
+  testTokens?: TestTokenDeployResult;
+  weth: string;
+  tokenBridge: TokenBridgeDeployResult;
+  nftBridge: NFTBridgeDeployResult;
+}
+
+function defaultManifestFile(networkName: string): string {
+  return path.join("deployments", `${networkName}.json`);
+}
+
+function writeDeploymentManifest(file: string, manifest: DeploymentManifest) {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(manifest, null, 2) + "\n");
+}
+
+function readDeploymentManifest(file: string): DeploymentManifest {
+  const manifest: DeploymentManifest = JSON.parse(fs.readFileSync(file, "utf8"));
+  for (const field of ["core", "weth", "tokenBridge", "nftBridge"] as const) {
+    if (!manifest[field]) throw new Error(`${file}: not a deployment manifest, ${field} is missing`);
+  }
+  return manifest;
+}
+
+// Deploys core, then the token and NFT bridges pointed at it, and writes the manifest to
+// `manifestFile` when given
+async function deployAll(params: DeployAllParams, manifestFile?: string, signer?: Signer): Promise<DeploymentManifest> {
+  const deployer = signer ?? (await ethers.getSigners())[0];
+
+  // The test tokens mint to well-known accounts and a mock WETH would hold real deposits
+  const target = await describeNetwork(ethers.provider, network.name, network.config);
+  if (!params.weth && !isDevNetwork(target)) {
+    throw new Error(`refusing to deploy test tokens on network ${target.name} (chain ${target.chainId}); set weth to the chain's WETH`);
+  }
+
+  const core = await deployCore({
+    initialSigners: params.initialSigners,
+    chainId: params.chainId,
+    governanceChainId: params.governanceChainId,
+    governanceContract: params.governanceContract,
+    evmChainId: params.evmChainId
+  }, deployer);
+
+  let testTokens: TestTokenDeployResult | undefined;
+  if (!params.weth) testTokens = await deployTestToken(deployer);
+  const weth = params.weth ?? testTokens!.deployedWETHaddress;
+
+  const bridgeParams = {
+    chainId: params.chainId,
+    governanceChainId: params.governanceChainId,
+    governanceContract: params.governanceContract,
+    finality: params.finality,
+    evmChainId: params.evmChainId,
+    wormhole: core.deployedAddress
+  };
+  const tokenBridge = await deployTokenBridge({ ...bridgeParams, weth }, deployer);
+  const nftBridge = await deployNFTBridge(bridgeParams, deployer);
+
+  const manifest: DeploymentManifest = {
+    network: network.name,
+    deployer: await deployer.getAddress(),
+    deployedAt: new Date().toISOString(),
+    params,
+    core,
+    testTokens,
+    weth,
+    tokenBridge,
+    nftBridge
+  };
+  if (manifestFile) {
+    writeDeploymentManifest(manifestFile, manifest);
+    console.log("Deployment manifest written to:", manifestFile);
+  }
+  return manifest;
+}
+
+// Main function for direct script execution
+async function main() {
+  const { chainId: evmChainId } = await ethers.provider.getNetwork();
+
+  // `hardhat run` does not forward arguments, so parameters come from the environment or a
+  // JSON/YAML CONFIG file:
+  //   GUARDIANS=0x...,0x... CHAIN_ID=2 npx hardhat run scripts/DeployAll.ts --network ethRpcNode
+  const params = loadScriptParams<DeployAllParams>(
+    { ...DEPLOY_ALL_PARAM_SPECS, evmChainId: { type: "evmChainId", default: evmChainId } },
+    { script: "scripts/DeployAll.ts" }
+  );
+  const manifestFile = process.env.MANIFEST ?? defaultManifestFile(network.name);
+
+  // DEPLOYER_KEYSTORE=<keystore> deploys from an encrypted key instead of the node's first account
+  const target = await describeNetwork(ethers.provider, network.name, network.config);
+  const deployer = await loadDeployer(ethers.provider, target);
+  // A guardian set of test keys would let anyone sign VAAs
+  refuseTestAddresses(params.initialSigners, target);
+
+  const result = await deployAll(params, manifestFile, deployer);
+
+  console.log("Final result:");
+  console.log("- Wormhole (proxy):", result.core.deployedAddress);
+  console.log("- WETH:", result.weth);
+  console.log("- TokenBridge (proxy):", result.tokenBridge.deployedAddress);
+  console.log("- NFTBridge (proxy):", result.nftBridge.deployedAddress);
+
+  return result;
+}
+
+// Export for use in other scripts
+export { deployAll, DeployAllParams, DEPLOY_ALL_PARAM_SPECS, DeploymentManifest, defaultManifestFile, readDeploymentManifest, writeDeploymentManifest };
+
+// Run main function if script is executed directly
+if (require.main === module) {
+  main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error(error);
+      process.exit(1);
+    });
+}
@@ -1,4 +1,7 @@
-import { ethers } from "hardhat";
+import { ethers, network } from "hardhat";
+import { Signer } from "ethers";
+import { describeNetwork, loadDeployer, refuseTestAddresses } from "./lib/Keystore";
+import { ParamSpecs, loadScriptParams } from "./lib/ScriptParams";
 
 interface DeployParams {
   initialSigners: string[];
@@ -8,6 +11,15 @@ interface DeployParams {
   evmChainId: number;
 }
 
+// How main() reads DeployParams: --flags, env vars (the guardian set from GUARDIANS) or a
+// CONFIG file; evmChainId defaults to the connected node's
+const DEPLOY_PARAM_SPECS: ParamSpecs<DeployParams> = {
+  initialSigners: { type: "addresses", env: "GUARDIANS" },
+  chainId: { type: "chainId" },
+  governanceChainId: { type: "chainId", default: 1 },
+  governanceContract: { type: "bytes32", default: "0x0000000000000000000000000000000000000000000000000000000000000004" },
+  evmChainId: { type: "evmChainId" }
+};
 
 interface DeployResult {
   deployedAddress: string;
@@ -15,18 +27,18 @@ interface DeployResult {
   implAddress: string;
 }
 
-async function deployCore(params: DeployParams): Promise<DeployResult> {
+async function deployCore(params: DeployParams, signer?: Signer): Promise<DeployResult> {
   console.log("Deploying Core Wormhole contracts...");
   console.log("Parameters:", params);
 
   // Deploy Implementation contract
-  const Implementation = await ethers.getContractFactory("Implementation");
+  const Implementation = await ethers.getContractFactory("Implementation", signer);
   const implementation = await Implementation.deploy();
   await implementation.deployed();
   console.log("Implementation deployed to:", implementation.address);
 
   // Deploy Setup contract
-  const Setup = await ethers.getContractFactory("Setup");
+  const Setup = await ethers.getContractFactory("Setup", signer);
   const setup = await Setup.deploy();
   await setup.deployed();
   console.log("Setup deployed to:", setup.address);
@@ -43,7 +55,7 @@ async function deployCore(params: DeployParams): Promise<DeployResult> {
   ]);
 
   // Deploy Wormhole proxy with setup and init data
-  const Wormhole = await ethers.getContractFactory("Wormhole");
+  const Wormhole = await ethers.getContractFactory("Wormhole", signer);
   const wormhole = await Wormhole.deploy(setup.address, initData);
   await wormhole.deployed();
   console.log("Wormhole deployed to:", wormhole.address);
@@ -59,17 +71,22 @@ async function deployCore(params: DeployParams): Promise<DeployResult> {
 
 // Main function for direct script execution
 async function main() {
-  // Default parameters - use 420420420 for polkavm evmChainId
-  const defaultParams: DeployParams = {
-    initialSigners: ["0x0000000000000000000000000000000000000001"],
-    chainId: 1,
-    governanceChainId: 1,
-    governanceContract: "0x0000000000000000000000000000000000000000000000000000000000000004",
-    evmChainId: 420420420  // polkavm chain id
-  };
+  // `hardhat run` does not forward arguments, so parameters come from the environment or a
+  // JSON/YAML CONFIG file:
+  //   GUARDIANS=0x...,0x... CHAIN_ID=2 npx hardhat run scripts/DeployCore.ts --network ethRpcNode
+  const { chainId: evmChainId } = await ethers.provider.getNetwork();
+  const params = loadScriptParams<DeployParams>(
+    { ...DEPLOY_PARAM_SPECS, evmChainId: { type: "evmChainId", default: evmChainId } },
+    { script: "scripts/DeployCore.ts" }
+  );
+
+  // DEPLOYER_KEYSTORE=<keystore> deploys from an encrypted key instead of the node's first account
+  const target = await describeNetwork(ethers.provider, network.name, network.config);
+  const deployer = await loadDeployer(ethers.provider, target);
+  // A guardian set of test keys would let anyone sign VAAs
+  refuseTestAddresses(params.initialSigners, target);
 
-  // You can override parameters with command line args or env vars
-  const result = await deployCore(defaultParams);
+  const result = await deployCore(params, deployer);
   
   console.log("Final result:");
   console.log("- Wormhole (proxy):", result.deployedAddress);
@@ -80,7 +97,7 @@ async function main() {
 }
 
 // Export for use in other scripts
-export { deployCore, DeployParams, DeployResult };
+export { deployCore, DeployParams, DeployResult, DEPLOY_PARAM_SPECS };
 
 // Run main function if script is executed directly
 if (require.main === module) {
@@ -1,14 +1,16 @@
-import { ethers } from "hardhat";
+import { ethers, network } from "hardhat";
+import { Signer } from "ethers";
+import { describeNetwork, loadDeployer } from "./lib/Keystore";
 
 interface DeployResult {
   deployedAddress: string;
 }
 
-async function deployCoreImplementationOnly(): Promise<DeployResult> {
+async function deployCoreImplementationOnly(signer?: Signer): Promise<DeployResult> {
   console.log("Deploying Core Implementation contract only...");
 
   // Deploy Implementation contract
-  const Implementation = await ethers.getContractFactory("Implementation");
+  const Implementation = await ethers.getContractFactory("Implementation", signer);
   const implementation = await Implementation.deploy();
   await implementation.deployed();
   console.log("Implementation deployed to:", implementation.address);
@@ -22,7 +24,9 @@ async function deployCoreImplementationOnly(): Promise<DeployResult> {
 
 // Main function for direct script execution
 async function main() {
-  const result = await deployCoreImplementationOnly();
+  // DEPLOYER_KEYSTORE=<keystore> deploys from an encrypted key instead of the node's first account
+  const deployer = await loadDeployer(ethers.provider, await describeNetwork(ethers.provider, network.name, network.config));
+  const result = await deployCoreImplementationOnly(deployer);
   
   console.log("Final result:");
   console.log("- Implementation:", result.deployedAddress);
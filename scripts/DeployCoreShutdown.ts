@@ -1,14 +1,16 @@
-import { ethers } from "hardhat";
+import { ethers, network } from "hardhat";
+import { Signer } from "ethers";
+import { describeNetwork, loadDeployer } from "./lib/Keystore";
 
 interface DeployResult {
   deployedAddress: string;
 }
 
-async function deployCoreShutdown(): Promise<DeployResult> {
+async function deployCoreShutdown(signer?: Signer): Promise<DeployResult> {
   console.log("Deploying Core Shutdown contract...");
 
   // Deploy Shutdown contract
-  const Shutdown = await ethers.getContractFactory("Shutdown");
+  const Shutdown = await ethers.getContractFactory("Shutdown", signer);
   const shutdown = await Shutdown.deploy();
   await shutdown.deployed();
   console.log("Shutdown deployed to:", shutdown.address);
@@ -22,7 +24,9 @@ async function deployCoreShutdown(): Promise<DeployResult> {
 
 // Main function for direct script execution
 async function main() {
-  const result = await deployCoreShutdown();
+  // DEPLOYER_KEYSTORE=<keystore> deploys from an encrypted key instead of the node's first account
+  const deployer = await loadDeployer(ethers.provider, await describeNetwork(ethers.provider, network.name, network.config));
+  const result = await deployCoreShutdown(deployer);
   
   console.log("Final result:");
   console.log("- Shutdown:", result.deployedAddress);
@@ -1,4 +1,7 @@
-import { ethers } from "hardhat";
+import { ethers, network } from "hardhat";
+import { Signer } from "ethers";
+import { describeNetwork, loadDeployer } from "./lib/Keystore";
+import { ParamSpecs, loadScriptParams } from "./lib/ScriptParams";
 
 interface DeployParams {
   num: number;
@@ -8,13 +11,19 @@ interface DeployResult {
   deployedAddresses: string[];
 }
 
-async function deployDummyContract(params: DeployParams): Promise<DeployResult> {
+// How main() reads DeployParams: --num, NUM or a CONFIG file
+const DEPLOY_PARAM_SPECS: ParamSpecs<DeployParams> = {
+  // Default to deploy 1 dummy contract
+  num: { type: "count", default: 1 }
+};
+
+async function deployDummyContract(params: DeployParams, signer?: Signer): Promise<DeployResult> {
   console.log(`Deploying ${params.num} dummy Setup contracts...`);
 
   const deployedAddresses: string[] = [];
 
   // Deploy Setup contracts in a loop
-  const Setup = await ethers.getContractFactory("Setup");
+  const Setup = await ethers.getContractFactory("Setup", signer);
   
   for (let i = 0; i < params.num; i++) {
     const setup = await Setup.deploy();
@@ -32,12 +41,11 @@ async function deployDummyContract(params: DeployParams): Promise<DeployResult>
 
 // Main function for direct script execution
 async function main() {
-  // Default to deploy 1 dummy contract
-  const defaultParams: DeployParams = {
-    num: 1
-  };
+  const params = loadScriptParams(DEPLOY_PARAM_SPECS, { script: "scripts/DeployDummyContract.ts" });
 
-  const result = await deployDummyContract(defaultParams);
+  // DEPLOYER_KEYSTORE=<keystore> deploys from an encrypted key instead of the node's first account
+  const deployer = await loadDeployer(ethers.provider, await describeNetwork(ethers.provider, network.name, network.config));
+  const result = await deployDummyContract(params, deployer);
   
   console.log("Final result:");
   console.log("- Deployed Addresses:", result.deployedAddresses);
@@ -46,7 +54,7 @@ async function main() {
 }
 
 // Export for use in other scripts
-export { deployDummyContract, DeployParams, DeployResult };
+export { deployDummyContract, DeployParams, DeployResult, DEPLOY_PARAM_SPECS };
 
 // Run main function if script is executed directly
 if (require.main === module) {
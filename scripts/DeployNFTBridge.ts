@@ -1,4 +1,7 @@
-import { ethers } from "hardhat";
+import { ethers, network } from "hardhat";
+import { Signer } from "ethers";
+import { describeNetwork, loadDeployer } from "./lib/Keystore";
+import { ParamSpecs, loadScriptParams } from "./lib/ScriptParams";
 
 interface DeployParams {
   chainId: number;
@@ -16,24 +19,35 @@ interface DeployResult {
   implementationAddress: string;
 }
 
-async function deployNFTBridge(params: DeployParams): Promise<DeployResult> {
+// How main() reads DeployParams: --flags, env vars or a CONFIG file; evmChainId defaults to
+// the connected node's
+const DEPLOY_PARAM_SPECS: ParamSpecs<DeployParams> = {
+  chainId: { type: "chainId" },
+  governanceChainId: { type: "chainId", default: 1 },
+  governanceContract: { type: "bytes32", default: "0x0000000000000000000000000000000000000000000000000000000000000004" },
+  finality: { type: "finality", default: 15 },
+  evmChainId: { type: "evmChainId" },
+  wormhole: { type: "address" }
+};
+
+async function deployNFTBridge(params: DeployParams, signer?: Signer): Promise<DeployResult> {
   console.log("Deploying NFT Bridge contracts...");
   console.log("Parameters:", params);
 
   // Deploy NFTImplementation contract
-  const NFTImplementation = await ethers.getContractFactory("NFTImplementation");
+  const NFTImplementation = await ethers.getContractFactory("NFTImplementation", signer);
   const nftImplementation = await NFTImplementation.deploy();
   await nftImplementation.deployed();
   console.log("NFTImplementation deployed to:", nftImplementation.address);
 
   // Deploy NFTBridgeSetup contract
-  const NFTBridgeSetup = await ethers.getContractFactory("NFTBridgeSetup");
+  const NFTBridgeSetup = await ethers.getContractFactory("NFTBridgeSetup", signer);
   const nftBridgeSetup = await NFTBridgeSetup.deploy();
   await nftBridgeSetup.deployed();
   console.log("NFTBridgeSetup deployed to:", nftBridgeSetup.address);
 
   // Deploy NFTBridgeImplementation contract
-  const NFTBridgeImplementation = await ethers.getContractFactory("NFTBridgeImplementation");
+  const NFTBridgeImplementation = await ethers.getContractFactory("NFTBridgeImplementation", signer);
   const nftBridgeImplementation = await NFTBridgeImplementation.deploy();
   await nftBridgeImplementation.deployed();
   console.log("NFTBridgeImplementation deployed to:", nftBridgeImplementation.address);
@@ -52,7 +66,7 @@ async function deployNFTBridge(params: DeployParams): Promise<DeployResult> {
   ]);
 
   // Deploy NFTBridgeEntrypoint proxy with setup and init data
-  const NFTBridgeEntrypoint = await ethers.getContractFactory("NFTBridgeEntrypoint");
+  const NFTBridgeEntrypoint = await ethers.getContractFactory("NFTBridgeEntrypoint", signer);
   const nftBridge = await NFTBridgeEntrypoint.deploy(nftBridgeSetup.address, initData);
   await nftBridge.deployed();
   console.log("NFTBridgeEntrypoint deployed to:", nftBridge.address);
@@ -69,17 +83,18 @@ async function deployNFTBridge(params: DeployParams): Promise<DeployResult> {
 
 // Main function for direct script execution
 async function main() {
-  // Default parameters - adjust for your needs
-  const defaultParams: DeployParams = {
-    chainId: 1,
-    governanceChainId: 1,
-    governanceContract: "0x0000000000000000000000000000000000000000000000000000000000000004",
-    finality: 15,
-    evmChainId: 420420420, // polkavm chain id
-    wormhole: "0x0000000000000000000000000000000000000001" // Replace with deployed Wormhole address
-  };
+  // `hardhat run` does not forward arguments, so parameters come from the environment or a
+  // JSON/YAML CONFIG file:
+  //   CHAIN_ID=2 WORMHOLE=0x... npx hardhat run scripts/DeployNFTBridge.ts --network ethRpcNode
+  const { chainId: evmChainId } = await ethers.provider.getNetwork();
+  const params = loadScriptParams<DeployParams>(
+    { ...DEPLOY_PARAM_SPECS, evmChainId: { type: "evmChainId", default: evmChainId } },
+    { script: "scripts/DeployNFTBridge.ts" }
+  );
 
-  const result = await deployNFTBridge(defaultParams);
+  // DEPLOYER_KEYSTORE=<keystore> deploys from an encrypted key instead of the node's first account
+  const deployer = await loadDeployer(ethers.provider, await describeNetwork(ethers.provider, network.name, network.config));
+  const result = await deployNFTBridge(params, deployer);
   
   console.log("Final result:");
   console.log("- NFTBridge (proxy):", result.deployedAddress);
@@ -91,7 +106,7 @@ async function main() {
 }
 
 // Export for use in other scripts
-export { deployNFTBridge, DeployParams, DeployResult };
+export { deployNFTBridge, DeployParams, DeployResult, DEPLOY_PARAM_SPECS };
 
 // Run main function if script is executed directly
 if (require.main === module) {
@@ -1,14 +1,16 @@
-import { ethers } from "hardhat";
+import { ethers, network } from "hardhat";
+import { Signer } from "ethers";
+import { describeNetwork, loadDeployer } from "./lib/Keystore";
 
 interface DeployResult {
   deployedAddress: string;
 }
 
-async function deployNFTBridgeImplementationOnly(): Promise<DeployResult> {
+async function deployNFTBridgeImplementationOnly(signer?: Signer): Promise<DeployResult> {
   console.log("Deploying NFT Bridge Implementation contract only...");
 
   // Deploy NFTBridgeImplementation contract
-  const NFTBridgeImplementation = await ethers.getContractFactory("NFTBridgeImplementation");
+  const NFTBridgeImplementation = await ethers.getContractFactory("NFTBridgeImplementation", signer);
   const nftBridgeImplementation = await NFTBridgeImplementation.deploy();
   await nftBridgeImplementation.deployed();
   console.log("NFTBridgeImplementation deployed to:", nftBridgeImplementation.address);
@@ -22,7 +24,9 @@ async function deployNFTBridgeImplementationOnly(): Promise<DeployResult> {
 
 // Main function for direct script execution
 async function main() {
-  const result = await deployNFTBridgeImplementationOnly();
+  // DEPLOYER_KEYSTORE=<keystore> deploys from an encrypted key instead of the node's first account
+  const deployer = await loadDeployer(ethers.provider, await describeNetwork(ethers.provider, network.name, network.config));
+  const result = await deployNFTBridgeImplementationOnly(deployer);
   
   console.log("Final result:");
   console.log("- NFTBridgeImplementation:", result.deployedAddress);
@@ -1,14 +1,16 @@
-import { ethers } from "hardhat";
+import { ethers, network } from "hardhat";
+import { Signer } from "ethers";
+import { describeNetwork, loadDeployer } from "./lib/Keystore";
 
 interface DeployResult {
   deployedAddress: string;
 }
 
-async function deployNFTBridgeShutdown(): Promise<DeployResult> {
+async function deployNFTBridgeShutdown(signer?: Signer): Promise<DeployResult> {
   console.log("Deploying NFT Bridge Shutdown contract...");
 
   // Deploy NFTBridgeShutdown contract
-  const NFTBridgeShutdown = await ethers.getContractFactory("NFTBridgeShutdown");
+  const NFTBridgeShutdown = await ethers.getContractFactory("NFTBridgeShutdown", signer);
   const nftBridgeShutdown = await NFTBridgeShutdown.deploy();
   await nftBridgeShutdown.deployed();
   console.log("NFTBridgeShutdown deployed to:", nftBridgeShutdown.address);
@@ -22,7 +24,9 @@ async function deployNFTBridgeShutdown(): Promise<DeployResult> {
 
 // Main function for direct script execution
 async function main() {
-  const result = await deployNFTBridgeShutdown();
+  // DEPLOYER_KEYSTORE=<keystore> deploys from an encrypted key instead of the node's first account
+  const deployer = await loadDeployer(ethers.provider, await describeNetwork(ethers.provider, network.name, network.config));
+  const result = await deployNFTBridgeShutdown(deployer);
   
   console.log("Final result:");
   console.log("- NFTBridgeShutdown:", result.deployedAddress);
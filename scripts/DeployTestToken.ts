@@ -1,4 +1,6 @@
-import { ethers } from "hardhat";
+import { ethers, network } from "hardhat";
+import { Signer } from "ethers";
+import { describeNetwork, loadDeployer } from "./lib/Keystore";
 
 interface DeployResult {
   deployedTokenAddress: string;
@@ -8,7 +10,7 @@ interface DeployResult {
   transferVerificationTokenA: string;
 }
 
-async function deployTestToken(): Promise<DeployResult> {
+async function deployTestToken(signer?: Signer): Promise<DeployResult> {
   console.log("Deploying test tokens and NFTs...");
 
   const accounts = [
@@ -29,7 +31,7 @@ async function deployTestToken(): Promise<DeployResult> {
   ];
 
   // Deploy ERC20 Test Token
-  const ERC20PresetMinterPauser = await ethers.getContractFactory("ERC20PresetMinterPauser");
+  const ERC20PresetMinterPauser = await ethers.getContractFactory("ERC20PresetMinterPauser", signer);
   const token = await ERC20PresetMinterPauser.deploy("Ethereum Test Token", "TKN");
   await token.deployed();
   console.log("Token deployed at:", token.address);
@@ -38,7 +40,7 @@ async function deployTestToken(): Promise<DeployResult> {
   await token.mint(accounts[0], ethers.utils.parseEther("1000"));
 
   // Deploy ERC721 Test NFT
-  const ERC721PresetMinterPauserAutoId = await ethers.getContractFactory("ERC721PresetMinterPauserAutoId");
+  const ERC721PresetMinterPauserAutoId = await ethers.getContractFactory("ERC721PresetMinterPauserAutoId", signer);
   const nft = await ERC721PresetMinterPauserAutoId.deploy(
     "Not an APE🐒",
     "APE🐒",
@@ -52,7 +54,7 @@ async function deployTestToken(): Promise<DeployResult> {
   console.log("NFT deployed at:", nft.address);
 
   // Deploy Mock WETH
-  const MockWETH9 = await ethers.getContractFactory("MockWETH9");
+  const MockWETH9 = await ethers.getContractFactory("MockWETH9", signer);
   const mockWeth = await MockWETH9.deploy();
   await mockWeth.deployed();
   console.log("WETH token deployed at:", mockWeth.address);
@@ -92,7 +94,9 @@ async function deployTestToken(): Promise<DeployResult> {
 
 // Main function for direct script execution
 async function main() {
-  const result = await deployTestToken();
+  // DEPLOYER_KEYSTORE=<keystore> deploys from an encrypted key instead of the node's first account
+  const deployer = await loadDeployer(ethers.provider, await describeNetwork(ethers.provider, network.name, network.config));
+  const result = await deployTestToken(deployer);
   
   console.log("Final result:");
   console.log("- Token:", result.deployedTokenAddress);
@@ -1,4 +1,7 @@
-import { ethers } from "hardhat";
+import { ethers, network } from "hardhat";
+import { Signer } from "ethers";
+import { describeNetwork, loadDeployer } from "./lib/Keystore";
+import { ParamSpecs, loadScriptParams } from "./lib/ScriptParams";
 
 interface DeployParams {
   chainId: number;
@@ -17,24 +20,36 @@ interface DeployResult {
   bridgeImplementationAddress: string;
 }
 
-async function deployTokenBridge(params: DeployParams): Promise<DeployResult> {
+// How main() reads DeployParams: --flags, env vars or a CONFIG file; evmChainId defaults to
+// the connected node's
+const DEPLOY_PARAM_SPECS: ParamSpecs<DeployParams> = {
+  chainId: { type: "chainId" },
+  governanceChainId: { type: "chainId", default: 1 },
+  governanceContract: { type: "bytes32", default: "0x0000000000000000000000000000000000000000000000000000000000000004" },
+  weth: { type: "address" },
+  finality: { type: "finality", default: 15 },
+  evmChainId: { type: "evmChainId" },
+  wormhole: { type: "address" }
+};
+
+async function deployTokenBridge(params: DeployParams, signer?: Signer): Promise<DeployResult> {
   console.log("Deploying Token Bridge contracts...");
   console.log("Parameters:", params);
 
   // Deploy TokenImplementation contract
-  const TokenImplementation = await ethers.getContractFactory("TokenImplementation");
+  const TokenImplementation = await ethers.getContractFactory("TokenImplementation", signer);
   const tokenImplementation = await TokenImplementation.deploy();
   await tokenImplementation.deployed();
   console.log("TokenImplementation deployed to:", tokenImplementation.address);
 
   // Deploy BridgeSetup contract
-  const BridgeSetup = await ethers.getContractFactory("BridgeSetup");
+  const BridgeSetup = await ethers.getContractFactory("BridgeSetup", signer);
   const bridgeSetup = await BridgeSetup.deploy();
   await bridgeSetup.deployed();
   console.log("BridgeSetup deployed to:", bridgeSetup.address);
 
   // Deploy BridgeImplementation contract
-  const BridgeImplementation = await ethers.getContractFactory("BridgeImplementation");
+  const BridgeImplementation = await ethers.getContractFactory("BridgeImplementation", signer);
   const bridgeImplementation = await BridgeImplementation.deploy();
   await bridgeImplementation.deployed();
   console.log("BridgeImplementation deployed to:", bridgeImplementation.address);
@@ -54,7 +69,7 @@ async function deployTokenBridge(params: DeployParams): Promise<DeployResult> {
   ]);
 
   // Deploy TokenBridge proxy with setup and init data
-  const TokenBridge = await ethers.getContractFactory("TokenBridge");
+  const TokenBridge = await ethers.getContractFactory("TokenBridge", signer);
   const tokenBridge = await TokenBridge.deploy(bridgeSetup.address, initData);
   await tokenBridge.deployed();
   console.log("TokenBridge deployed to:", tokenBridge.address);
@@ -71,18 +86,18 @@ async function deployTokenBridge(params: DeployParams): Promise<DeployResult> {
 
 // Main function for direct script execution
 async function main() {
-  // Default parameters - adjust for your needs
-  const defaultParams: DeployParams = {
-    chainId: 1,
-    governanceChainId: 1,
-    governanceContract: "0x0000000000000000000000000000000000000000000000000000000000000004",
-    weth: "0x0000000000000000000000000000000000000001", // Replace with real WETH address
-    finality: 15,
-    evmChainId: 420420420, // polkavm chain id
-    wormhole: "0x0000000000000000000000000000000000000001" // Replace with deployed Wormhole address
-  };
+  // `hardhat run` does not forward arguments, so parameters come from the environment or a
+  // JSON/YAML CONFIG file:
+  //   CHAIN_ID=2 WORMHOLE=0x... WETH=0x... npx hardhat run scripts/DeployTokenBridge.ts --network ethRpcNode
+  const { chainId: evmChainId } = await ethers.provider.getNetwork();
+  const params = loadScriptParams<DeployParams>(
+    { ...DEPLOY_PARAM_SPECS, evmChainId: { type: "evmChainId", default: evmChainId } },
+    { script: "scripts/DeployTokenBridge.ts" }
+  );
 
-  const result = await deployTokenBridge(defaultParams);
+  // DEPLOYER_KEYSTORE=<keystore> deploys from an encrypted key instead of the node's first account
+  const deployer = await loadDeployer(ethers.provider, await describeNetwork(ethers.provider, network.name, network.config));
+  const result = await deployTokenBridge(params, deployer);
   
   console.log("Final result:");
   console.log("- TokenBridge (proxy):", result.deployedAddress);
@@ -94,7 +109,7 @@ async function main() {
 }
 
 // Export for use in other scripts
-export { deployTokenBridge, DeployParams, DeployResult };
+export { deployTokenBridge, DeployParams, DeployResult, DEPLOY_PARAM_SPECS };
 
 // Run main function if script is executed directly
 if (require.main === module) {
@@ -1,14 +1,16 @@
-import { ethers } from "hardhat";
+import { ethers, network } from "hardhat";
+import { Signer } from "ethers";
+import { describeNetwork, loadDeployer } from "./lib/Keystore";
 
 interface DeployResult {
   deployedAddress: string;
 }
 
-async function deployTokenBridgeImplementationOnly(): Promise<DeployResult> {
+async function deployTokenBridgeImplementationOnly(signer?: Signer): Promise<DeployResult> {
   console.log("Deploying Token Bridge Implementation contract only...");
 
   // Deploy BridgeImplementation contract
-  const BridgeImplementation = await ethers.getContractFactory("BridgeImplementation");
+  const BridgeImplementation = await ethers.getContractFactory("BridgeImplementation", signer);
   const bridgeImplementation = await BridgeImplementation.deploy();
   await bridgeImplementation.deployed();
   console.log("BridgeImplementation deployed to:", bridgeImplementation.address);
@@ -22,7 +24,9 @@ async function deployTokenBridgeImplementationOnly(): Promise<DeployResult> {
 
 // Main function for direct script execution
 async function main() {
-  const result = await deployTokenBridgeImplementationOnly();
+  // DEPLOYER_KEYSTORE=<keystore> deploys from an encrypted key instead of the node's first account
+  const deployer = await loadDeployer(ethers.provider, await describeNetwork(ethers.provider, network.name, network.config));
+  const result = await deployTokenBridgeImplementationOnly(deployer);
   
   console.log("Final result:");
   console.log("- BridgeImplementation:", result.deployedAddress);
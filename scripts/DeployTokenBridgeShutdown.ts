@@ -1,14 +1,16 @@
-import { ethers } from "hardhat";
+import { ethers, network } from "hardhat";
+import { Signer } from "ethers";
+import { describeNetwork, loadDeployer } from "./lib/Keystore";
 
 interface DeployResult {
   deployedAddress: string;
 }
 
-async function deployTokenBridgeShutdown(): Promise<DeployResult> {
+async function deployTokenBridgeShutdown(signer?: Signer): Promise<DeployResult> {
   console.log("Deploying Token Bridge Shutdown contract...");
 
   // Deploy BridgeShutdown contract
-  const BridgeShutdown = await ethers.getContractFactory("BridgeShutdown");
+  const BridgeShutdown = await ethers.getContractFactory("BridgeShutdown", signer);
   const bridgeShutdown = await BridgeShutdown.deploy();
   await bridgeShutdown.deployed();
   console.log("BridgeShutdown deployed to:", bridgeShutdown.address);
@@ -22,7 +24,9 @@ async function deployTokenBridgeShutdown(): Promise<DeployResult> {
 
 // Main function for direct script execution
 async function main() {
-  const result = await deployTokenBridgeShutdown();
+  // DEPLOYER_KEYSTORE=<keystore> deploys from an encrypted key instead of the node's first account
+  const deployer = await loadDeployer(ethers.provider, await describeNetwork(ethers.provider, network.name, network.config));
+  const result = await deployTokenBridgeShutdown(deployer);
   
   console.log("Final result:");
   console.log("- BridgeShutdown:", result.deployedAddress);
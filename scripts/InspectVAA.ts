@@ -0,0 +1,58 @@
+import { ethers } from "hardhat";
+import { InspectedVAA, decodeVAAInput, inspectVAA } from "./lib/VAAInspector";
+
+interface InspectParams {
+  // Hex (with or without 0x) or base64
+  vaa: string;
+  // Core bridge used to fetch getGuardianSet(guardianSetIndex); skipped when empty
+  wormhole?: string;
+}
+
+async function inspect(params: InspectParams): Promise<InspectedVAA> {
+  const encoded = decodeVAAInput(params.vaa);
+
+  let guardianSet: string[] | undefined;
+  if (params.wormhole) {
+    const wormhole = await ethers.getContractAt("IWormhole", params.wormhole);
+    // Only the index is needed to look up the set, so read it straight from the header
+    const guardianSetIndex = ethers.BigNumber.from(encoded.slice(1, 5)).toNumber();
+    const set = await wormhole.getGuardianSet(guardianSetIndex);
+    guardianSet = [...set.keys];
+  }
+
+  return inspectVAA(encoded, guardianSet);
+}
+
+// Main function for direct script execution
+async function main() {
+  // `hardhat run` does not forward arguments, so the VAA can also come from the environment:
+  //   VAA=0x01... WORMHOLE=0x... npx hardhat run scripts/InspectVAA.ts --network ethRpcNode
+  const params: InspectParams = {
+    vaa: process.env.VAA ?? process.argv[2] ?? "",
+    wormhole: process.env.WORMHOLE ?? process.argv[3]
+  };
+
+  if (!params.vaa) {
+    console.log("Please provide a VAA to inspect");
+    console.log("Usage: VAA=<hex|base64> [WORMHOLE=<core address>] npx hardhat run scripts/InspectVAA.ts --network ethRpcNode");
+    return;
+  }
+
+  const result = await inspect(params);
+  console.log(JSON.stringify(result, null, 2));
+
+  return result;
+}
+
+// Export for use in other scripts
+export { inspect, InspectParams };
+
+// Run main function if script is executed directly
+if (require.main === module) {
+  main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error(error);
+      process.exit(1);
+    });
+}
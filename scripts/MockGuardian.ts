@@ -0,0 +1,128 @@
+import * as fs from "fs";
+import { ethers, network } from "hardhat";
+import { MockGuardian, createMockGuardian } from "./lib/MockGuardian";
+import { createVAAStore } from "./lib/VAAStore";
+import { describeNetwork, loadGuardianKeys } from "./lib/Keystore";
+import { FinalityDepths } from "./lib/ObservationDelay";
+import { DEV_GUARDIAN_KEY } from "./lib/GuardianSigner";
+import { ParamSpecs, loadScriptParams } from "./lib/ScriptParams";
+
+interface MockGuardianParams {
+  // Core bridge address, or a JSON file with the DeployCore result ({ deployedAddress })
+  wormhole: string;
+  // Guardian private keys (decimal or hex) in guardian set order
+  guardianKeys: string[];
+  // JSON lines file signed VAAs are appended to
+  storeFile: string;
+  fromBlock?: number;
+  pollInterval?: number;
+  // CustomConsistencyLevel contract, for emitters publishing with consistency level 203
+  customConsistencyLevel?: string;
+  finality?: FinalityDepths | "node";
+}
+
+const DEFAULT_STORE_FILE = ".mock-guardian/vaas.jsonl";
+
+// MockGuardianParams as main() reads them, before the guardian keys are loaded
+interface MockGuardianScriptParams {
+  wormhole: string;
+  storeFile: string;
+  fromBlock?: number;
+  pollInterval?: number;
+  customConsistencyLevel?: string;
+  // As parseFinality takes it
+  finality?: string;
+}
+
+// How main() reads its parameters: env vars, --flags (ts-node) or a CONFIG file. Guardian keys
+// come from GUARDIAN_KEYSTORE / GUARDIAN_KEYS.
+const MOCK_GUARDIAN_PARAM_SPECS: ParamSpecs<MockGuardianScriptParams> = {
+  wormhole: { type: "string", positional: 0 },
+  storeFile: { type: "string", env: "VAA_STORE", default: DEFAULT_STORE_FILE },
+  fromBlock: { type: "uint", optional: true },
+  pollInterval: { type: "count", optional: true },
+  customConsistencyLevel: { type: "address", optional: true },
+  finality: { type: "string", optional: true }
+};
+
+function resolveWormholeAddress(wormhole: string): string {
+  if (ethers.utils.isAddress(wormhole)) return wormhole;
+  if (!fs.existsSync(wormhole)) throw new Error(`${wormhole} is neither an address nor a deployment file`);
+
+  const deployment = JSON.parse(fs.readFileSync(wormhole, "utf8"));
+  if (!ethers.utils.isAddress(deployment.deployedAddress ?? "")) {
+    throw new Error(`${wormhole}: no deployedAddress`);
+  }
+  return deployment.deployedAddress;
+}
+
+// FINALITY=node, or FINALITY=<safe depth>,<finalized depth> to emulate finality on a dev
+// node that finalizes every block
+function parseFinality(value?: string): FinalityDepths | "node" | undefined {
+  if (!value) return undefined;
+  if (value === "node") return "node";
+  const [safe, finalized] = value.split(",").map(Number);
+  if (!Number.isInteger(safe) || !Number.isInteger(finalized) || safe < 0 || finalized < safe) {
+    throw new Error(`FINALITY must be "node" or "<safe depth>,<finalized depth>", got "${value}"`);
+  }
+  return { safe, finalized };
+}
+
+async function startMockGuardian(params: MockGuardianParams): Promise<MockGuardian> {
+  const wormhole = resolveWormholeAddress(params.wormhole);
+
+  const guardian = await createMockGuardian({
+    provider: ethers.provider,
+    wormhole,
+    keys: params.guardianKeys,
+    store: createVAAStore(params.storeFile),
+    fromBlock: params.fromBlock,
+    pollInterval: params.pollInterval,
+    customConsistencyLevel: params.customConsistencyLevel,
+    finality: params.finality,
+    onSigned: (vaa, observation) => console.log(
+      `Signed ${vaa.emitterChain}/${vaa.emitterAddress}/${vaa.sequence} (tx ${vaa.transactionHash}, ` +
+      `consistency level ${observation.message.consistencyLevel}, signable at block ${observation.signableAtBlock})`
+    )
+  });
+
+  console.log(`Mock guardian observing ${wormhole} (chain ${guardian.chainId}, guardian set ${guardian.guardianSetIndex}) from block ${guardian.nextBlock}`);
+  console.log(`Signed VAAs are stored in ${params.storeFile}`);
+
+  guardian.start();
+
+  return guardian;
+}
+
+// Main function for direct script execution
+async function main() {
+  // `hardhat run` does not forward arguments, so everything can also come from the environment:
+  //   WORMHOLE=0x... GUARDIAN_KEYS=<key>,<key> npx hardhat run scripts/MockGuardian.ts --network ethRpcNode
+  const raw = loadScriptParams(MOCK_GUARDIAN_PARAM_SPECS, { script: "scripts/MockGuardian.ts" });
+  const params: MockGuardianParams = { ...raw, guardianKeys: [], finality: parseFinality(raw.finality) };
+
+  // The Foundry test guardian, which DeployCore setups for local testing usually use, unless
+  // GUARDIAN_KEYSTORE or GUARDIAN_KEYS says otherwise
+  params.guardianKeys = await loadGuardianKeys(await describeNetwork(ethers.provider, network.name, network.config), [DEV_GUARDIAN_KEY]);
+  const guardian = await startMockGuardian(params);
+
+  // Runs until interrupted
+  await new Promise<void>(resolve => {
+    process.once("SIGINT", resolve);
+    process.once("SIGTERM", resolve);
+  });
+  guardian.stop();
+}
+
+// Export for use in other scripts
+export { startMockGuardian, resolveWormholeAddress, parseFinality, MockGuardianParams, MockGuardianScriptParams, MOCK_GUARDIAN_PARAM_SPECS, DEFAULT_STORE_FILE };
+
+// Run main function if script is executed directly
+if (require.main === module) {
+  main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error(error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,117 @@
+import { ethers, network } from "hardhat";
+import { Signer } from "ethers";
+import { describeNetwork, loadDeployer } from "./lib/Keystore";
+import { ParamSpecs, loadScriptParams } from "./lib/ScriptParams";
+import { createRelayLog } from "./lib/RelayLog";
+import { RetryOptions } from "./lib/Retry";
+import { EmitterFilter, parseEmitterFilter, subscribeSignedVAAs } from "./lib/VAAStream";
+import { NFTBridgeRelayer, createNFTBridgeRelayer } from "./lib/NFTBridgeRelayer";
+import { SPLCache } from "./lib/NFTBridgePayloads";
+
+interface NFTRelayerParams {
+  nftBridge: string;
+  // Base URL of a signed VAA stream, e.g. scripts/SignedVAAServer.ts
+  signedVAAs: string;
+  // Emitters to relay from, everything the stream carries when empty. Give a sequence
+  // (<chain>/<emitter>/<sequence>) to first relay the VAAs signed before the relayer started.
+  emitters: EmitterFilter[];
+  // JSON lines file of what has been relayed
+  logFile: string;
+  retry?: RetryOptions;
+}
+
+const DEFAULT_LOG_FILE = ".relayer/nft-bridge.jsonl";
+
+const DEFAULT_SIGNED_VAAS = "http://127.0.0.1:7071";
+
+// How main() reads its parameters: env vars, --flags (ts-node) or a CONFIG file. Emitters are
+// <chain>/<emitter>[/<sequence>] filters.
+const RELAYER_PARAM_SPECS: ParamSpecs<{ nftBridge: string; signedVAAs: string; emitters?: string[]; logFile: string; retryAttempts?: number }> = {
+  nftBridge: { type: "address", positional: 0 },
+  signedVAAs: { type: "string", default: DEFAULT_SIGNED_VAAS },
+  emitters: { type: "strings", optional: true },
+  logFile: { type: "string", env: "RELAY_LOG", default: DEFAULT_LOG_FILE },
+  retryAttempts: { type: "count", optional: true }
+};
+
+// Relays every NFT transfer VAA the stream delivers from `signer`. Resolves with the relayer
+// and a function that stops it once the VAAs already received are handled. `ended` resolves
+// with why the stream stopped when the server ends it or the connection drops.
+async function startNFTBridgeRelayer(params: NFTRelayerParams, signer: Signer): Promise<{ relayer: NFTBridgeRelayer; stop: () => Promise<void>; ended: Promise<Error> }> {
+  const relayer = await createNFTBridgeRelayer({
+    nftBridge: params.nftBridge,
+    signer,
+    log: createRelayLog(params.logFile),
+    retry: params.retry,
+    onRelayed: record => {
+      const splCache = record.splCache as SPLCache | undefined;
+      console.log(
+        `${record.status} ${record.id}` +
+        (record.transactionHash ? `: token ${record.tokenID} of ${record.token}${record.createdCollection ? " (new collection)" : ""} (tx ${record.transactionHash})` : "") +
+        (splCache ? `, SPL name ${splCache.name} symbol ${splCache.symbol}` : "") +
+        (record.reason ? `: ${record.reason}` : "")
+      );
+    }
+  });
+
+  console.log(`Relaying to NFT bridge ${params.nftBridge} on chain ${relayer.chainId} as ${relayer.account}`);
+  console.log(`Relay log: ${params.logFile}`);
+
+  let streamEnded!: (error: Error) => void;
+  const ended = new Promise<Error>(resolve => (streamEnded = resolve));
+  const close = await subscribeSignedVAAs(params.signedVAAs, params.emitters, vaa => {
+    relayer.relay(vaa).catch(error => console.error("Relaying failed:", error));
+  }, { onEnd: error => streamEnded(error ?? new Error("closed by the server")) });
+  console.log(`Subscribed to ${params.signedVAAs}`);
+
+  return {
+    relayer,
+    stop: async () => {
+      close();
+      await relayer.idle();
+    },
+    ended
+  };
+}
+
+// Main function for direct script execution
+async function main() {
+  // `hardhat run` does not forward arguments, so everything can also come from the environment:
+  //   NFT_BRIDGE=0x... SIGNED_VAAS=http://127.0.0.1:7071 npx hardhat run scripts/NFTBridgeRelayer.ts --network ethRpcNode
+  const raw = loadScriptParams(RELAYER_PARAM_SPECS, { script: "scripts/NFTBridgeRelayer.ts" });
+  const params: NFTRelayerParams = {
+    nftBridge: raw.nftBridge,
+    signedVAAs: raw.signedVAAs,
+    emitters: (raw.emitters ?? []).map(parseEmitterFilter),
+    logFile: raw.logFile,
+    retry: raw.retryAttempts !== undefined ? { attempts: raw.retryAttempts } : undefined
+  };
+
+  // Pays for the redemptions; RELAYER_KEYSTORE=<keystore> to use an encrypted key
+  const signer = await loadDeployer(ethers.provider, await describeNetwork(ethers.provider, network.name, network.config), "RELAYER");
+  const { stop, ended } = await startNFTBridgeRelayer(params, signer);
+
+  // Runs until interrupted, or until the stream is lost; a restarted process resumes from its log
+  const lost = await Promise.race([
+    new Promise<undefined>(resolve => {
+      process.once("SIGINT", () => resolve(undefined));
+      process.once("SIGTERM", () => resolve(undefined));
+    }),
+    ended
+  ]);
+  await stop();
+  if (lost) throw new Error(`lost the signed VAA stream ${params.signedVAAs}: ${lost.message}`);
+}
+
+// Export for use in other scripts
+export { startNFTBridgeRelayer, NFTRelayerParams, RELAYER_PARAM_SPECS, DEFAULT_LOG_FILE };
+
+// Run main function if script is executed directly
+if (require.main === module) {
+  main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error(error);
+      process.exit(1);
+    });
+}
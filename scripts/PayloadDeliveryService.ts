@@ -0,0 +1,116 @@
+import { ethers, network } from "hardhat";
+import { Signer } from "ethers";
+import { describeNetwork, loadDeployer } from "./lib/Keystore";
+import { ParamSpecs, loadScriptParams } from "./lib/ScriptParams";
+import { createRelayLog } from "./lib/RelayLog";
+import { RetryOptions } from "./lib/Retry";
+import { EmitterFilter, parseEmitterFilter, subscribeSignedVAAs } from "./lib/VAAStream";
+import { PayloadDeliveryService, createPayloadDeliveryService, readIntegratorRegistry } from "./lib/PayloadDelivery";
+
+interface PayloadDeliveryParams {
+  tokenBridge: string;
+  // JSON file of the integrator contracts to deliver to: { "integrators": [{ "name", "address", "entrypoint", ... }] }
+  integrators: string;
+  // Base URL of a signed VAA stream, e.g. scripts/SignedVAAServer.ts
+  signedVAAs: string;
+  // Emitters to deliver from, everything the stream carries when empty
+  emitters: EmitterFilter[];
+  // JSON lines file of what has been delivered
+  logFile: string;
+  retry?: RetryOptions;
+}
+
+const DEFAULT_LOG_FILE = ".relayer/payload-delivery.jsonl";
+
+const DEFAULT_SIGNED_VAAS = "http://127.0.0.1:7071";
+
+// How main() reads its parameters: env vars, --flags (ts-node) or a CONFIG file. Emitters are
+// <chain>/<emitter>[/<sequence>] filters.
+const PAYLOAD_DELIVERY_PARAM_SPECS: ParamSpecs<{ tokenBridge: string; integrators: string; signedVAAs: string; emitters?: string[]; logFile: string; retryAttempts?: number }> = {
+  tokenBridge: { type: "address", positional: 0 },
+  integrators: { type: "string", positional: 1 },
+  signedVAAs: { type: "string", default: DEFAULT_SIGNED_VAAS },
+  emitters: { type: "strings", optional: true },
+  logFile: { type: "string", env: "RELAY_LOG", default: DEFAULT_LOG_FILE },
+  retryAttempts: { type: "count", optional: true }
+};
+
+// Delivers every payload 3 transfer the stream carries to the registered integrator it is
+// addressed to. Resolves with the service and a function that stops it; `ended` resolves with
+// why the stream stopped when the server ends it or the connection drops.
+async function startPayloadDeliveryService(params: PayloadDeliveryParams, signer: Signer): Promise<{ service: PayloadDeliveryService; stop: () => Promise<void>; ended: Promise<Error> }> {
+  const registry = readIntegratorRegistry(params.integrators);
+  const service = await createPayloadDeliveryService({
+    tokenBridge: params.tokenBridge,
+    signer,
+    registry,
+    log: createRelayLog(params.logFile),
+    retry: params.retry,
+    onDelivered: record => console.log(
+      `${record.status} ${record.id}` +
+      (record.transactionHash ? ` to ${record.integrator} via ${record.method} (tx ${record.transactionHash})` : "") +
+      (record.reason ? `: ${record.reason}` : "")
+    )
+  });
+
+  console.log(`Delivering token bridge ${params.tokenBridge} transfers on chain ${service.chainId} to ${registry.all().map(i => i.name).join(", ")}`);
+  console.log(`Delivery log: ${params.logFile}`);
+
+  let streamEnded!: (error: Error) => void;
+  const ended = new Promise<Error>(resolve => (streamEnded = resolve));
+  const close = await subscribeSignedVAAs(params.signedVAAs, params.emitters, vaa => {
+    service.deliver(vaa).catch(error => console.error("Delivery failed:", error));
+  }, { onEnd: error => streamEnded(error ?? new Error("closed by the server")) });
+  console.log(`Subscribed to ${params.signedVAAs}`);
+
+  return {
+    service,
+    stop: async () => {
+      close();
+      await service.idle();
+    },
+    ended
+  };
+}
+
+// Main function for direct script execution
+async function main() {
+  // `hardhat run` does not forward arguments, so everything can also come from the environment:
+  //   TOKEN_BRIDGE=0x... INTEGRATORS=integrators.json npx hardhat run scripts/PayloadDeliveryService.ts --network ethRpcNode
+  const raw = loadScriptParams(PAYLOAD_DELIVERY_PARAM_SPECS, { script: "scripts/PayloadDeliveryService.ts" });
+  const params: PayloadDeliveryParams = {
+    tokenBridge: raw.tokenBridge,
+    integrators: raw.integrators,
+    signedVAAs: raw.signedVAAs,
+    emitters: (raw.emitters ?? []).map(parseEmitterFilter),
+    logFile: raw.logFile,
+    retry: raw.retryAttempts !== undefined ? { attempts: raw.retryAttempts } : undefined
+  };
+
+  const signer = await loadDeployer(ethers.provider, await describeNetwork(ethers.provider, network.name, network.config), "RELAYER");
+  const { stop, ended } = await startPayloadDeliveryService(params, signer);
+
+  // Runs until interrupted, or until the stream is lost; a restarted process resumes from its log
+  const lost = await Promise.race([
+    new Promise<undefined>(resolve => {
+      process.once("SIGINT", () => resolve(undefined));
+      process.once("SIGTERM", () => resolve(undefined));
+    }),
+    ended
+  ]);
+  await stop();
+  if (lost) throw new Error(`lost the signed VAA stream ${params.signedVAAs}: ${lost.message}`);
+}
+
+// Export for use in other scripts
+export { startPayloadDeliveryService, PayloadDeliveryParams, PAYLOAD_DELIVERY_PARAM_SPECS, DEFAULT_LOG_FILE };
+
+// Run main function if script is executed directly
+if (require.main === module) {
+  main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error(error);
+      process.exit(1);
+    });
+}
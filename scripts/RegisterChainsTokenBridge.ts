@@ -1,29 +1,49 @@
-import { ethers } from "hardhat";
+import { ethers, network } from "hardhat";
+import { Signer } from "ethers";
+import { TOKEN_BRIDGE_MODULE } from "./lib/GovernancePayloads";
+import { describeNetwork, loadDeployer } from "./lib/Keystore";
+import { checkRegisterChainVAA, readVAASources } from "./lib/VAASources";
+import { ParamSpecs, loadScriptParams } from "./lib/ScriptParams";
 
 interface RegisterParams {
   tokenBridge: string;
+  // Hex or base64 VAAs, files containing them, or directories of such files
   registrationVaas: string[];
 }
 
+// How main() reads RegisterParams: --flags, positional arguments (ts-node), env vars or a
+// CONFIG file
+const REGISTER_PARAM_SPECS: ParamSpecs<RegisterParams> = {
+  tokenBridge: { type: "address", positional: 0 },
+  registrationVaas: { type: "strings", positional: 1, rest: true }
+};
+
 interface RegisterResult {
   registeredChains: number;
   success: boolean;
 }
 
-async function registerChainsTokenBridge(params: RegisterParams): Promise<RegisterResult> {
+async function registerChainsTokenBridge(params: RegisterParams, signer?: Signer): Promise<RegisterResult> {
   console.log("Registering chains in Token Bridge...");
   console.log("Token Bridge Address:", params.tokenBridge);
-  console.log("Number of VAAs:", params.registrationVaas.length);
+
+  // Decode everything up front so a wrong VAA aborts before any transaction is sent
+  const vaas = readVAASources(params.registrationVaas);
+  console.log("Number of VAAs:", vaas.length);
+  vaas.forEach((vaa, i) => {
+    const registration = checkRegisterChainVAA(vaa, TOKEN_BRIDGE_MODULE);
+    console.log(`VAA ${i + 1}: RegisterChain chain ${registration.emitterChainID} emitter ${registration.emitterAddress}`);
+  });
 
   // Get the TokenBridge contract
-  const tokenBridgeContract = await ethers.getContractAt("ITokenBridge", params.tokenBridge);
+  const tokenBridgeContract = await ethers.getContractAt("ITokenBridge", params.tokenBridge, signer);
 
   // Register each chain
   let registeredCount = 0;
-  for (let i = 0; i < params.registrationVaas.length; i++) {
+  for (let i = 0; i < vaas.length; i++) {
     try {
-      console.log(`Registering chain ${i + 1}/${params.registrationVaas.length}...`);
-      const tx = await tokenBridgeContract.registerChain(params.registrationVaas[i]);
+      console.log(`Registering chain ${i + 1}/${vaas.length}...`);
+      const tx = await tokenBridgeContract.registerChain(vaas[i]);
       await tx.wait();
       registeredCount++;
       console.log(`Chain ${i + 1} registered successfully`);
@@ -32,8 +52,8 @@ async function registerChainsTokenBridge(params: RegisterParams): Promise<Regist
     }
   }
 
-  const success = registeredCount === params.registrationVaas.length;
-  console.log(`Chain registration completed! ${registeredCount}/${params.registrationVaas.length} chains registered successfully`);
+  const success = registeredCount === vaas.length;
+  console.log(`Chain registration completed! ${registeredCount}/${vaas.length} chains registered successfully`);
 
   return {
     registeredChains: registeredCount,
@@ -43,20 +63,14 @@ async function registerChainsTokenBridge(params: RegisterParams): Promise<Regist
 
 // Main function for direct script execution
 async function main() {
-  // Example parameters - these would need to be provided by the user
-  const defaultParams: RegisterParams = {
-    tokenBridge: "0x0000000000000000000000000000000000000000", // Replace with actual TokenBridge address
-    registrationVaas: [] // Replace with actual VAAs
-  };
-
-  if (defaultParams.tokenBridge === "0x0000000000000000000000000000000000000000") {
-    console.log("Please provide a valid TokenBridge address and registration VAAs");
-    console.log("Usage: npx hardhat run scripts/RegisterChainsTokenBridge.ts --network ethRpcNode");
-    console.log("Make sure to update the script with actual parameters");
-    return;
-  }
+  // `hardhat run` does not forward arguments, so everything can also come from the environment:
+  //   TOKEN_BRIDGE=0x... REGISTRATION_VAAS=./vaas npx hardhat run scripts/RegisterChainsTokenBridge.ts --network ethRpcNode
+  //   or: npx ts-node scripts/RegisterChainsTokenBridge.ts <address> <hex|base64|file|dir>...
+  const params = loadScriptParams(REGISTER_PARAM_SPECS, { script: "scripts/RegisterChainsTokenBridge.ts" });
 
-  const result = await registerChainsTokenBridge(defaultParams);
+  // DEPLOYER_KEYSTORE=<keystore> sends the registrations from an encrypted key
+  const deployer = await loadDeployer(ethers.provider, await describeNetwork(ethers.provider, network.name, network.config));
+  const result = await registerChainsTokenBridge(params, deployer);
   
   console.log("Final result:");
   console.log("- Registered Chains:", result.registeredChains);
@@ -66,7 +80,7 @@ async function main() {
 }
 
 // Export for use in other scripts
-export { registerChainsTokenBridge, RegisterParams, RegisterResult };
+export { registerChainsTokenBridge, RegisterParams, RegisterResult, REGISTER_PARAM_SPECS };
 
 // Run main function if script is executed directly
 if (require.main === module) {
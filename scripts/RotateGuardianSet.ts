@@ -0,0 +1,210 @@
+import * as fs from "fs";
+import { ethers, network } from "hardhat";
+import { ContractReceipt, Signer } from "ethers";
+import { DEV_GUARDIAN_KEY, VerificationOutcome, generateGuardianKeys } from "./lib/GuardianSigner";
+import { checkGuardianKeys } from "./lib/MockGuardian";
+import { expectedOldSetOutcome, signGuardianSetUpgrade, signProbeVAA } from "./lib/GuardianSetRotation";
+import { describeNetwork, isDevNetwork, loadDeployer, loadGuardianKeys, passphraseFromEnv, readGuardianKeys, refuseTestKeys, writeKeystores } from "./lib/Keystore";
+
+// How to get past the old set's expiry: not at all, by advancing the node's clock
+// (evm_increaseTime, dev nodes only) or by waiting for it in real time
+type ExpiryMode = "skip" | "advance" | "wait";
+
+interface RotateParams {
+  wormhole: string;
+  // Private keys of the current guardian set, in set order
+  currentKeys: string[];
+  // Private keys of the new set; generated from `seed` when empty
+  newKeys?: string[];
+  newGuardianCount?: number;
+  // Defaults to "guardian set <new index>", so each rotation gets distinct reproducible keys
+  seed?: string;
+  // Where the new private keys are written as JSON
+  keysFile?: string;
+  // Where the new private keys are written as encrypted keystores, one per guardian
+  keystoreDir?: string;
+  keystorePassphrase?: string;
+  expiry: ExpiryMode;
+}
+
+interface ExpiryCheck {
+  blockTimestamp: number;
+  guardianSetIndex: number;
+  expected: VerificationOutcome;
+  actual: VerificationOutcome;
+}
+
+interface RotateResult {
+  oldGuardianSetIndex: number;
+  newGuardianSetIndex: number;
+  newGuardians: string[];
+  newKeys: string[];
+  transactionHash: string;
+  // getGuardianSetExpiry(): the configured expiry, which expireGuardianSet does not read
+  guardianSetExpiry: number;
+  // getGuardianSet(old).expirationTime, what verifyVM actually enforces
+  oldSetExpirationTime: number;
+  checks: ExpiryCheck[];
+}
+
+async function latestTimestamp(): Promise<number> {
+  return (await ethers.provider.getBlock("latest")).timestamp;
+}
+
+async function rotateGuardianSet(params: RotateParams, signer?: Signer): Promise<RotateResult> {
+  const wormhole = await ethers.getContractAt("IWormhole", params.wormhole, signer);
+
+  const oldGuardianSetIndex: number = await wormhole.getCurrentGuardianSetIndex();
+  const oldSet = await wormhole.getGuardianSet(oldGuardianSetIndex);
+  checkGuardianKeys(params.currentKeys, params.currentKeys.map((_, i) => i), oldSet.keys, oldGuardianSetIndex);
+
+  const newKeys = params.newKeys && params.newKeys.length > 0
+    ? params.newKeys
+    : generateGuardianKeys(params.newGuardianCount ?? oldSet.keys.length, params.seed ?? `guardian set ${oldGuardianSetIndex + 1}`);
+  if (params.keysFile) {
+    fs.writeFileSync(params.keysFile, JSON.stringify({ guardianSetIndex: oldGuardianSetIndex + 1, keys: newKeys }, null, 2));
+    console.log("New guardian keys written to:", params.keysFile);
+  }
+  if (params.keystoreDir) {
+    if (params.keystorePassphrase === undefined) throw new Error("keystoreDir needs a keystorePassphrase");
+    await writeKeystores(params.keystoreDir, newKeys, params.keystorePassphrase);
+    console.log("New guardian keystores written to:", params.keystoreDir);
+  }
+
+  const now = await latestTimestamp();
+  const upgrade = signGuardianSetUpgrade({
+    currentKeys: params.currentKeys,
+    currentGuardianSetIndex: oldGuardianSetIndex,
+    newKeys,
+    chain: await wormhole.chainId(),
+    governanceChainId: await wormhole.governanceChainId(),
+    governanceContract: await wormhole.governanceContract(),
+    timestamp: now,
+    sequence: now
+  });
+
+  console.log(`Rotating guardian set ${oldGuardianSetIndex} -> ${upgrade.newGuardianSetIndex} (${upgrade.newGuardians.length} guardians)`);
+  const receipt: ContractReceipt = await (await wormhole.submitNewGuardianSet(upgrade.vaa)).wait();
+
+  // Confirm the upgrade took effect before relying on it
+  const added = receipt.logs
+    .filter(log => log.address.toLowerCase() === wormhole.address.toLowerCase())
+    .map(log => wormhole.interface.parseLog(log))
+    .find(event => event.name === "GuardianSetAdded");
+  if (!added || added.args.index !== upgrade.newGuardianSetIndex) {
+    throw new Error(`no GuardianSetAdded(${upgrade.newGuardianSetIndex}) in ${receipt.transactionHash}`);
+  }
+  const currentIndex = await wormhole.getCurrentGuardianSetIndex();
+  if (currentIndex !== upgrade.newGuardianSetIndex) {
+    throw new Error(`getCurrentGuardianSetIndex() is ${currentIndex}, expected ${upgrade.newGuardianSetIndex}`);
+  }
+
+  const guardianSetExpiry: number = await wormhole.getGuardianSetExpiry();
+  const oldSetExpirationTime: number = (await wormhole.getGuardianSet(oldGuardianSetIndex)).expirationTime;
+  console.log(`Old guardian set expires at ${oldSetExpirationTime} (getGuardianSetExpiry: ${guardianSetExpiry})`);
+
+  const checks: ExpiryCheck[] = [];
+  const check = async (keys: string[], guardianSetIndex: number, expected: (blockTimestamp: number) => VerificationOutcome) => {
+    const blockTimestamp = await latestTimestamp();
+    const [, valid, reason] = await wormhole.parseAndVerifyVM(signProbeVAA(keys, guardianSetIndex, blockTimestamp, checks.length));
+    const result = { blockTimestamp, guardianSetIndex, expected: expected(blockTimestamp), actual: { valid, reason } };
+    checks.push(result);
+
+    if (result.actual.valid !== result.expected.valid || result.actual.reason !== result.expected.reason) {
+      throw new Error(`guardian set ${guardianSetIndex} at ${blockTimestamp}: expected ${JSON.stringify(result.expected)}, got ${JSON.stringify(result.actual)}`);
+    }
+    console.log(`Guardian set ${guardianSetIndex} at ${blockTimestamp}: ${valid ? "accepted" : `rejected (${reason})`}`);
+  };
+
+  const stillValid = (t: number) => expectedOldSetOutcome(oldSetExpirationTime, t);
+  await check(newKeys, upgrade.newGuardianSetIndex, () => ({ valid: true, reason: "" }));
+  await check(params.currentKeys, oldGuardianSetIndex, stillValid);
+
+  if (params.expiry === "advance") {
+    const remaining = oldSetExpirationTime - (await latestTimestamp()) + 1;
+    try {
+      await ethers.provider.send("evm_increaseTime", [remaining]);
+      await ethers.provider.send("evm_mine", []);
+    } catch (error: any) {
+      throw new Error(`node cannot advance time (${error.message}); use EXPIRY=wait or EXPIRY=skip`);
+    }
+  } else if (params.expiry === "wait") {
+    // A block has to be produced after the expiry for block.timestamp to pass it
+    while ((await latestTimestamp()) <= oldSetExpirationTime) {
+      const remaining = oldSetExpirationTime - (await latestTimestamp()) + 1;
+      console.log(`Waiting ${remaining}s for guardian set ${oldGuardianSetIndex} to expire...`);
+      await new Promise(resolve => setTimeout(resolve, Math.min(remaining, 60) * 1000));
+    }
+  }
+
+  if (params.expiry !== "skip") {
+    await check(params.currentKeys, oldGuardianSetIndex, stillValid);
+    await check(newKeys, upgrade.newGuardianSetIndex, () => ({ valid: true, reason: "" }));
+  }
+
+  return {
+    oldGuardianSetIndex,
+    newGuardianSetIndex: upgrade.newGuardianSetIndex,
+    newGuardians: upgrade.newGuardians,
+    newKeys,
+    transactionHash: receipt.transactionHash,
+    guardianSetExpiry,
+    oldSetExpirationTime,
+    checks
+  };
+}
+
+// Main function for direct script execution
+async function main() {
+  // `hardhat run` does not forward arguments, so everything can also come from the environment:
+  //   WORMHOLE=0x... GUARDIAN_KEYSTORE=./guardians NEW_GUARDIAN_COUNT=19 EXPIRY=advance npx hardhat run scripts/RotateGuardianSet.ts --network ethRpcNode
+  const params: RotateParams = {
+    wormhole: process.env.WORMHOLE ?? process.argv[2] ?? "",
+    currentKeys: [],
+    newGuardianCount: process.env.NEW_GUARDIAN_COUNT !== undefined ? Number(process.env.NEW_GUARDIAN_COUNT) : undefined,
+    seed: process.env.SEED,
+    keysFile: process.env.KEYS_FILE,
+    keystoreDir: process.env.NEW_KEYSTORE_DIR,
+    expiry: (process.env.EXPIRY ?? "skip") as ExpiryMode
+  };
+
+  if (!params.wormhole || !["skip", "advance", "wait"].includes(params.expiry)) {
+    console.log("Please provide the core bridge address");
+    console.log("Usage: WORMHOLE=<address> [GUARDIAN_KEYSTORE=<file|dir> | GUARDIAN_KEYS=<current keys>] [NEW_GUARDIAN_KEYSTORE=<file|dir> | NEW_GUARDIAN_KEYS=<keys> | NEW_GUARDIAN_COUNT=<n> [SEED=<seed>]] [KEYS_FILE=<file>] [NEW_KEYSTORE_DIR=<dir>] [EXPIRY=skip|advance|wait] npx hardhat run scripts/RotateGuardianSet.ts --network ethRpcNode");
+    return;
+  }
+
+  const target = await describeNetwork(ethers.provider, network.name, network.config);
+  params.currentKeys = await loadGuardianKeys(target, [DEV_GUARDIAN_KEY]);
+  params.newKeys = await readGuardianKeys("NEW_GUARDIAN");
+  if (params.newKeys.length > 0) {
+    refuseTestKeys(params.newKeys, target);
+  } else if (!isDevNetwork(target)) {
+    // Anyone who knows the seed can derive generated keys
+    throw new Error(`refusing to generate guardian keys on network ${target.name}; set NEW_GUARDIAN_KEYSTORE or NEW_GUARDIAN_KEYS`);
+  }
+  if (params.keystoreDir) {
+    params.keystorePassphrase = await passphraseFromEnv("NEW_KEYSTORE_PASSPHRASE")(params.keystoreDir);
+  }
+
+  const deployer = await loadDeployer(ethers.provider, target);
+  const result = await rotateGuardianSet(params, deployer);
+  // Private keys only go to KEYS_FILE or NEW_KEYSTORE_DIR, never to the console
+  const { newKeys, ...summary } = result;
+  console.log(JSON.stringify(summary, null, 2));
+
+  return result;
+}
+
+// Export for use in other scripts
+export { rotateGuardianSet, RotateParams, RotateResult, ExpiryCheck, ExpiryMode };
+
+// Run main function if script is executed directly
+if (require.main === module) {
+  main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error(error);
+      process.exit(1);
+    });
+}
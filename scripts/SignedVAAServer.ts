@@ -0,0 +1,74 @@
+import { ethers, network } from "hardhat";
+import { MOCK_GUARDIAN_PARAM_SPECS, parseFinality, startMockGuardian, MockGuardianParams, MockGuardianScriptParams } from "./MockGuardian";
+import { createSignedVAAServer } from "./lib/SignedVAAServer";
+import { DEV_GUARDIAN_KEY } from "./lib/GuardianSigner";
+import { describeNetwork, loadGuardianKeys } from "./lib/Keystore";
+import { ParamSpecs, loadScriptParams } from "./lib/ScriptParams";
+
+interface SignedVAAServerParams extends MockGuardianParams {
+  port: number;
+  // Longest a request may long-poll with ?wait=<ms>
+  maxWait?: number;
+}
+
+const DEFAULT_PORT = 7071;
+
+// The mock guardian's parameters and where to serve
+const SIGNED_VAA_SERVER_PARAM_SPECS: ParamSpecs<MockGuardianScriptParams & { port: number; maxWait?: number }> = {
+  ...MOCK_GUARDIAN_PARAM_SPECS,
+  port: { type: "count", default: DEFAULT_PORT },
+  maxWait: { type: "uint", optional: true }
+};
+
+// Runs the mock guardian and serves what it signs on `params.port`. Resolves with a
+// function that shuts both down.
+async function serveSignedVAAs(params: SignedVAAServerParams): Promise<() => Promise<void>> {
+  const guardian = await startMockGuardian(params);
+  const server = createSignedVAAServer(guardian.store, { maxWait: params.maxWait });
+
+  await new Promise<void>(resolve => server.listen(params.port, resolve));
+  console.log(`Serving signed VAAs on http://127.0.0.1:${params.port}`);
+  console.log(`- GET /v1/signed_vaa/<chain>/<emitter>/<sequence>[?wait=<ms>]`);
+  console.log(`- GET /api/v1/vaas/?txHash=<hash>[&wait=<ms>]`);
+  console.log(`- GET /v1/subscribe_signed_vaa[?filter=<chain>/<emitter>[/<fromSequence>]&...] (newline-delimited JSON)`);
+
+  return async () => {
+    guardian.stop();
+    // Long-polling requests and streams would otherwise hold close() open
+    server.closeAllConnections();
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  };
+}
+
+// Main function for direct script execution
+async function main() {
+  // `hardhat run` does not forward arguments, so everything can also come from the environment:
+  //   WORMHOLE=0x... GUARDIAN_KEYS=<key>,<key> PORT=7071 npx hardhat run scripts/SignedVAAServer.ts --network ethRpcNode
+  const raw = loadScriptParams(SIGNED_VAA_SERVER_PARAM_SPECS, { script: "scripts/SignedVAAServer.ts" });
+  const params: SignedVAAServerParams = { ...raw, guardianKeys: [], finality: parseFinality(raw.finality) };
+
+  // The Foundry test guardian, which DeployCore setups for local testing usually use, unless
+  // GUARDIAN_KEYSTORE or GUARDIAN_KEYS says otherwise
+  params.guardianKeys = await loadGuardianKeys(await describeNetwork(ethers.provider, network.name, network.config), [DEV_GUARDIAN_KEY]);
+  const shutdown = await serveSignedVAAs(params);
+
+  // Runs until interrupted
+  await new Promise<void>(resolve => {
+    process.once("SIGINT", resolve);
+    process.once("SIGTERM", resolve);
+  });
+  await shutdown();
+}
+
+// Export for use in other scripts
+export { serveSignedVAAs, SignedVAAServerParams, SIGNED_VAA_SERVER_PARAM_SPECS };
+
+// Run main function if script is executed directly
+if (require.main === module) {
+  main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error(error);
+      process.exit(1);
+    });
+}
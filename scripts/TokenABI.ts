@@ -1,4 +1,6 @@
 import { ethers } from "hardhat";
+import { parseVM } from "./lib/VAA";
+import { parseAssetMeta, bytes32ToBytes, bytes32ToString } from "./lib/TokenBridgePayloads";
 
 interface TokenConstructorParams {
   name: string;
@@ -47,14 +49,51 @@ async function getTokenConstructorArgs(params: TokenConstructorParams): Promise<
 
 async function parseVMAndGetConstructorArgs(encodedVM: string, tokenBridge: string): Promise<ABIResult> {
   console.log("Parsing VM and generating constructor arguments...");
-  
-  // This would require implementing VM parsing similar to the Solidity version
-  // For now, we'll provide a placeholder implementation
-  console.log("VM parsing not implemented in TypeScript version");
-  console.log("Use the direct parameter version instead");
+
+  // Matching Foundry script exactly:
+  // Messages.parseVM(encodedVM) -> parseAssetMeta(vm.payload) -> token_constructor_args(...)
+  const vm = parseVM(encodedVM);
+  const meta = parseAssetMeta(vm.payload);
+
+  console.log("Parsed AssetMeta:", {
+    name: bytes32ToString(meta.name),
+    symbol: bytes32ToString(meta.symbol),
+    decimals: meta.decimals,
+    sequence: vm.sequence.toString(),
+    tokenChain: meta.tokenChain,
+    tokenAddress: meta.tokenAddress
+  });
+
+  const TokenImplementation = await ethers.getContractFactory("TokenImplementation");
+
+  // name and symbol are encoded from the raw bytes32ToString bytes rather than a JS string,
+  // since they need not be valid UTF-8. string and bytes share the same ABI encoding.
+  const initializationArgs = ethers.utils.hexConcat([
+    TokenImplementation.interface.getSighash("initialize"),
+    ethers.utils.defaultAbiCoder.encode(
+      ["bytes", "bytes", "uint8", "uint64", "address", "uint16", "bytes32"],
+      [
+        bytes32ToBytes(meta.name),
+        bytes32ToBytes(meta.symbol),
+        meta.decimals,
+        vm.sequence,
+        tokenBridge,
+        meta.tokenChain,
+        meta.tokenAddress
+      ]
+    )
+  ]);
+
+  const constructorArgs = ethers.utils.defaultAbiCoder.encode(
+    ["address", "bytes"],
+    [tokenBridge, initializationArgs]
+  );
+
+  console.log("Constructor arguments generated successfully!");
+  console.log("Encoded args:", constructorArgs);
 
   return {
-    constructorArgs: "0x"
+    constructorArgs
   };
 }
 
@@ -0,0 +1,119 @@
+import { ethers, network } from "hardhat";
+import { Signer } from "ethers";
+import { describeNetwork, loadDeployer } from "./lib/Keystore";
+import { ParamSpecs, loadScriptParams } from "./lib/ScriptParams";
+import { createRelayLog } from "./lib/RelayLog";
+import { RetryOptions } from "./lib/Retry";
+import { EmitterFilter, parseEmitterFilter, subscribeSignedVAAs } from "./lib/VAAStream";
+import { TokenBridgeRelayer, UnwrapPolicy, createTokenBridgeRelayer } from "./lib/TokenBridgeRelayer";
+
+interface RelayerParams {
+  tokenBridge: string;
+  // Base URL of a signed VAA stream, e.g. scripts/SignedVAAServer.ts
+  signedVAAs: string;
+  // Emitters to relay from, everything the stream carries when empty. Give a sequence
+  // (<chain>/<emitter>/<sequence>) to first relay the VAAs signed before the relayer started.
+  emitters: EmitterFilter[];
+  // JSON lines file of what has been relayed
+  logFile: string;
+  unwrapWETH?: UnwrapPolicy;
+  retry?: RetryOptions;
+}
+
+const DEFAULT_LOG_FILE = ".relayer/token-bridge.jsonl";
+
+const DEFAULT_SIGNED_VAAS = "http://127.0.0.1:7071";
+
+// How main() reads its parameters: env vars, --flags (ts-node) or a CONFIG file. Emitters are
+// <chain>/<emitter>[/<sequence>] filters.
+const RELAYER_PARAM_SPECS: ParamSpecs<{ tokenBridge: string; signedVAAs: string; emitters?: string[]; logFile: string; unwrapWETH: string; retryAttempts?: number }> = {
+  tokenBridge: { type: "address", positional: 0 },
+  signedVAAs: { type: "string", default: DEFAULT_SIGNED_VAAS },
+  emitters: { type: "strings", optional: true },
+  logFile: { type: "string", env: "RELAY_LOG", default: DEFAULT_LOG_FILE },
+  unwrapWETH: { type: "string", default: "auto" },
+  retryAttempts: { type: "count", optional: true }
+};
+
+// Relays every transfer VAA the stream delivers from `signer`. Resolves with the relayer and
+// a function that stops it once the VAAs already received are handled. `ended` resolves with
+// why the stream stopped when the server ends it or the connection drops.
+async function startTokenBridgeRelayer(params: RelayerParams, signer: Signer): Promise<{ relayer: TokenBridgeRelayer; stop: () => Promise<void>; ended: Promise<Error> }> {
+  const relayer = await createTokenBridgeRelayer({
+    tokenBridge: params.tokenBridge,
+    signer,
+    log: createRelayLog(params.logFile),
+    unwrapWETH: params.unwrapWETH,
+    retry: params.retry,
+    onRelayed: record => console.log(
+      `${record.status} ${record.id}` +
+      (record.transactionHash ? ` via ${record.method} (tx ${record.transactionHash}, fee ${record.fee})` : "") +
+      (record.reason ? `: ${record.reason}` : "")
+    )
+  });
+
+  console.log(`Relaying to token bridge ${params.tokenBridge} on chain ${relayer.chainId} as ${relayer.account}`);
+  console.log(`Relay log: ${params.logFile}`);
+
+  let streamEnded!: (error: Error) => void;
+  const ended = new Promise<Error>(resolve => (streamEnded = resolve));
+  const close = await subscribeSignedVAAs(params.signedVAAs, params.emitters, vaa => {
+    relayer.relay(vaa).catch(error => console.error("Relaying failed:", error));
+  }, { onEnd: error => streamEnded(error ?? new Error("closed by the server")) });
+  console.log(`Subscribed to ${params.signedVAAs}`);
+
+  return {
+    relayer,
+    stop: async () => {
+      close();
+      await relayer.idle();
+    },
+    ended
+  };
+}
+
+// Main function for direct script execution
+async function main() {
+  // `hardhat run` does not forward arguments, so everything can also come from the environment:
+  //   TOKEN_BRIDGE=0x... SIGNED_VAAS=http://127.0.0.1:7071 npx hardhat run scripts/TokenBridgeRelayer.ts --network ethRpcNode
+  const raw = loadScriptParams(RELAYER_PARAM_SPECS, { script: "scripts/TokenBridgeRelayer.ts" });
+  if (!["auto", "always", "never"].includes(raw.unwrapWETH)) {
+    throw new Error(`UNWRAP_WETH must be auto, always or never, got ${JSON.stringify(raw.unwrapWETH)}`);
+  }
+  const params: RelayerParams = {
+    tokenBridge: raw.tokenBridge,
+    signedVAAs: raw.signedVAAs,
+    emitters: (raw.emitters ?? []).map(parseEmitterFilter),
+    logFile: raw.logFile,
+    unwrapWETH: raw.unwrapWETH as UnwrapPolicy,
+    retry: raw.retryAttempts !== undefined ? { attempts: raw.retryAttempts } : undefined
+  };
+
+  // The account arbiter fees are paid to; RELAYER_KEYSTORE=<keystore> to use an encrypted key
+  const signer = await loadDeployer(ethers.provider, await describeNetwork(ethers.provider, network.name, network.config), "RELAYER");
+  const { stop, ended } = await startTokenBridgeRelayer(params, signer);
+
+  // Runs until interrupted, or until the stream is lost; a restarted process resumes from its log
+  const lost = await Promise.race([
+    new Promise<undefined>(resolve => {
+      process.once("SIGINT", () => resolve(undefined));
+      process.once("SIGTERM", () => resolve(undefined));
+    }),
+    ended
+  ]);
+  await stop();
+  if (lost) throw new Error(`lost the signed VAA stream ${params.signedVAAs}: ${lost.message}`);
+}
+
+// Export for use in other scripts
+export { startTokenBridgeRelayer, RelayerParams, RELAYER_PARAM_SPECS, DEFAULT_LOG_FILE };
+
+// Run main function if script is executed directly
+if (require.main === module) {
+  main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error(error);
+      process.exit(1);
+    });
+}
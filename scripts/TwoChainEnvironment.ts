@@ -0,0 +1,177 @@
+import { ethers, network } from "hardhat";
+import { BigNumberish, Contract, ContractReceipt, Signer } from "ethers";
+import { deployCore } from "./DeployCore";
+import { deployTokenBridge } from "./DeployTokenBridge";
+import { deployNFTBridge } from "./DeployNFTBridge";
+import { guardianPrivateKey, signAndEncodeVM } from "./lib/VAA";
+import { parseMessagePublications } from "./lib/BatchVAA";
+import { observationBody } from "./lib/MockGuardian";
+import { NFT_BRIDGE_MODULE, TOKEN_BRIDGE_MODULE, encodeRegisterChain } from "./lib/GovernancePayloads";
+import { describeNetwork, loadDeployer, loadGuardianKeys } from "./lib/Keystore";
+import { DEV_GUARDIAN_KEY } from "./lib/GuardianSigner";
+
+interface TwoChainParams {
+  // Wormhole chain IDs of the two stacks
+  chainIds: [number, number];
+  // Private keys of the guardian set both cores start with
+  guardianKeys: BigNumberish[];
+  governanceChainId: number;
+  governanceContract: string;
+  finality: number;
+}
+
+// One Wormhole core with its token and NFT bridge, all behind their proxies
+interface ChainStack {
+  chainId: number;
+  wormhole: Contract;
+  tokenBridge: Contract;
+  nftBridge: Contract;
+  // WETH the token bridge unwraps, a MockWETH9 per stack
+  weth: Contract;
+}
+
+interface TwoChainEnvironment {
+  chainA: ChainStack;
+  chainB: ChainStack;
+  guardianKeys: BigNumberish[];
+  guardianSetIndex: number;
+  // Signs the messages `receipt` published through `from`'s core, in log order, as the
+  // guardians would observe them
+  observe(from: ChainStack, receipt: ContractReceipt): Promise<string[]>;
+  // Signs a governance VAA carrying `payload` from the governance emitter
+  signGovernance(payload: string): string;
+}
+
+const DEFAULT_TWO_CHAIN_PARAMS: TwoChainParams = {
+  chainIds: [2, 4],
+  guardianKeys: [DEV_GUARDIAN_KEY],
+  governanceChainId: 1,
+  governanceContract: "0x0000000000000000000000000000000000000000000000000000000000000004",
+  finality: 15
+};
+
+async function deployStack(chainId: number, guardians: string[], params: TwoChainParams, evmChainId: number, signer?: Signer): Promise<ChainStack> {
+  const core = await deployCore({
+    initialSigners: guardians,
+    chainId,
+    governanceChainId: params.governanceChainId,
+    governanceContract: params.governanceContract,
+    evmChainId
+  }, signer);
+
+  const MockWETH9 = await ethers.getContractFactory("MockWETH9", signer);
+  const weth = await MockWETH9.deploy();
+  await weth.deployed();
+
+  const bridgeParams = {
+    chainId,
+    governanceChainId: params.governanceChainId,
+    governanceContract: params.governanceContract,
+    finality: params.finality,
+    evmChainId,
+    wormhole: core.deployedAddress
+  };
+  const tokenBridge = await deployTokenBridge({ ...bridgeParams, weth: weth.address }, signer);
+  const nftBridge = await deployNFTBridge(bridgeParams, signer);
+
+  return {
+    chainId,
+    wormhole: await ethers.getContractAt("Implementation", core.deployedAddress, signer),
+    tokenBridge: await ethers.getContractAt("ITokenBridge", tokenBridge.deployedAddress, signer),
+    nftBridge: await ethers.getContractAt("INFTBridge", nftBridge.deployedAddress, signer),
+    weth
+  };
+}
+
+// Deploys two independent stacks on the connected node, sharing one guardian set, and
+// registers each bridge with its counterpart through signed RegisterChain VAAs
+async function deployTwoChainEnvironment(overrides: Partial<TwoChainParams> = {}, signer?: Signer): Promise<TwoChainEnvironment> {
+  const params: TwoChainParams = { ...DEFAULT_TWO_CHAIN_PARAMS, ...overrides };
+  if (params.chainIds[0] === params.chainIds[1]) throw new Error("the two chains need different chain IDs");
+
+  const guardians = params.guardianKeys.map(key => ethers.utils.computeAddress(guardianPrivateKey(key)));
+  const { chainId: evmChainId } = await ethers.provider.getNetwork();
+  console.log(`Deploying two Wormhole stacks (chains ${params.chainIds.join(" and ")}) guarded by ${guardians.join(", ")}`);
+
+  const chainA = await deployStack(params.chainIds[0], guardians, params, evmChainId, signer);
+  const chainB = await deployStack(params.chainIds[1], guardians, params, evmChainId, signer);
+
+  // Governance VAAs are consumed by hash, so every one gets its own sequence
+  let governanceSequence = 0;
+  const signGovernance = (payload: string) => signAndEncodeVM({
+    timestamp: 0,
+    nonce: 0,
+    emitterChainId: params.governanceChainId,
+    emitterAddress: params.governanceContract,
+    sequence: governanceSequence++,
+    consistencyLevel: 32,
+    payload
+  }, params.guardianKeys, 0);
+
+  for (const [local, remote] of [[chainA, chainB], [chainB, chainA]]) {
+    for (const [module, bridge, counterpart] of [
+      [TOKEN_BRIDGE_MODULE, local.tokenBridge, remote.tokenBridge],
+      [NFT_BRIDGE_MODULE, local.nftBridge, remote.nftBridge]
+    ] as [string, Contract, Contract][]) {
+      const registration = encodeRegisterChain(module, {
+        chainId: local.chainId,
+        emitterChainID: remote.chainId,
+        emitterAddress: ethers.utils.hexZeroPad(counterpart.address, 32)
+      });
+      await (await bridge.registerChain(signGovernance(registration))).wait();
+    }
+    console.log(`Registered chain ${remote.chainId} bridges on chain ${local.chainId}`);
+  }
+
+  const observe = async (from: ChainStack, receipt: ContractReceipt) => {
+    const { timestamp } = await ethers.provider.getBlock(receipt.blockNumber);
+    return parseMessagePublications(receipt.logs, from.wormhole.address)
+      .map(message => signAndEncodeVM(observationBody(message, from.chainId, timestamp), params.guardianKeys, 0));
+  };
+
+  return { chainA, chainB, guardianKeys: params.guardianKeys, guardianSetIndex: 0, observe, signGovernance };
+}
+
+// Main function for direct script execution
+async function main() {
+  // `hardhat run` does not forward arguments, so the chain IDs come from the environment:
+  //   CHAIN_IDS=2,4 npx hardhat run scripts/TwoChainEnvironment.ts --network ethRpcNode
+  const chainIds = (process.env.CHAIN_IDS ?? DEFAULT_TWO_CHAIN_PARAMS.chainIds.join(",")).split(",").map(Number);
+  if (chainIds.length !== 2 || chainIds.some(id => !Number.isInteger(id) || id <= 0 || id > 65535)) {
+    console.log("Please provide two Wormhole chain IDs");
+    console.log("Usage: [CHAIN_IDS=<chain A>,<chain B>] [GUARDIAN_KEYS=<key>,...] [DEPLOYER_KEYSTORE=<file>] npx hardhat run scripts/TwoChainEnvironment.ts --network ethRpcNode");
+    return;
+  }
+
+  // Anyone holding the default test guardian key could sign for these stacks, so it is
+  // refused outside dev networks
+  const target = await describeNetwork(ethers.provider, network.name, network.config);
+  const guardianKeys = await loadGuardianKeys(target, [DEV_GUARDIAN_KEY]);
+  const deployer = await loadDeployer(ethers.provider, target);
+
+  const env = await deployTwoChainEnvironment({ chainIds: chainIds as [number, number], guardianKeys }, deployer);
+
+  console.log("Final result:");
+  for (const stack of [env.chainA, env.chainB]) {
+    console.log(`- Chain ${stack.chainId}:`);
+    console.log("  - Wormhole (proxy):", stack.wormhole.address);
+    console.log("  - TokenBridge (proxy):", stack.tokenBridge.address);
+    console.log("  - NFTBridge (proxy):", stack.nftBridge.address);
+    console.log("  - WETH:", stack.weth.address);
+  }
+
+  return env;
+}
+
+// Export for use in other scripts
+export { deployTwoChainEnvironment, TwoChainParams, ChainStack, TwoChainEnvironment, DEFAULT_TWO_CHAIN_PARAMS };
+
+// Run main function if script is executed directly
+if (require.main === module) {
+  main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error(error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,135 @@
+import { ethers, BigNumber, BigNumberish } from "ethers";
+import { signAndEncodeVM } from "./VAA";
+import { parseMessagePublications } from "./BatchVAA";
+import { observationBody } from "./MockGuardian";
+import { AssetMeta, parseAssetMeta } from "./TokenBridgePayloads";
+
+// Token bridge a token is attested on, and the guardians that sign what it publishes
+interface AttestationSource {
+  tokenBridge: string;
+  signer: ethers.Signer;
+  guardianKeys: BigNumberish[];
+  // Defaults to the current guardian set of the source core
+  guardianSetIndex?: number;
+}
+
+// Token bridge the wrapped token lives on
+interface AttestationDestination {
+  tokenBridge: string;
+  signer: ethers.Signer;
+}
+
+interface Attestation {
+  // Signed AssetMeta VAA
+  vaa: string;
+  meta: AssetMeta;
+  emitterChainId: number;
+  sequence: BigNumber;
+  transactionHash: string;
+}
+
+interface WrappedAttestation {
+  // createWrapped for the first attestation of a token, updateWrapped afterwards
+  action: "created" | "updated";
+  wrapped: string;
+  // What the wrapped token reports after the call
+  name: string;
+  symbol: string;
+  decimals: number;
+  transactionHash: string;
+}
+
+const AttestationABI = new ethers.utils.Interface([
+  "function wormhole() view returns (address)",
+  "function chainId() view returns (uint16)",
+  "function attestToken(address tokenAddress, uint32 nonce) payable returns (uint64 sequence)",
+  "function createWrapped(bytes encodedVm) returns (address token)",
+  "function updateWrapped(bytes encodedVm) returns (address token)",
+  "function wrappedAsset(uint16 tokenChainId, bytes32 tokenAddress) view returns (address)",
+  "function isWrappedAsset(address token) view returns (bool)"
+]);
+
+const CoreFeeABI = new ethers.utils.Interface([
+  "function messageFee() view returns (uint256)",
+  "function getCurrentGuardianSetIndex() view returns (uint32)"
+]);
+
+const TokenDetailsABI = new ethers.utils.Interface([
+  "function name() view returns (string)",
+  "function symbol() view returns (string)",
+  "function decimals() view returns (uint8)"
+]);
+
+// Calls attestToken for `token` on the source bridge and signs the AssetMeta message it
+// published, as the guardians would
+async function publishAttestation(source: AttestationSource, token: string, nonce: number = 0): Promise<Attestation> {
+  const bridge = new ethers.Contract(source.tokenBridge, AttestationABI, source.signer);
+  const core = new ethers.Contract(await bridge.wormhole(), CoreFeeABI, source.signer);
+  const emitterChainId: number = await bridge.chainId();
+
+  const receipt = await (await bridge.attestToken(token, nonce, { value: await core.messageFee() })).wait();
+  const messages = parseMessagePublications(receipt.logs, core.address)
+    .filter(message => message.sender.toLowerCase() === source.tokenBridge.toLowerCase());
+  if (messages.length !== 1) throw new Error(`expected one AssetMeta message in ${receipt.transactionHash}, found ${messages.length}`);
+
+  const { timestamp } = await source.signer.provider!.getBlock(receipt.blockNumber);
+  const guardianSetIndex = source.guardianSetIndex ?? (await core.getCurrentGuardianSetIndex());
+  const vaa = signAndEncodeVM(observationBody(messages[0], emitterChainId, timestamp), source.guardianKeys, guardianSetIndex);
+
+  return {
+    vaa,
+    meta: parseAssetMeta(messages[0].payload),
+    emitterChainId,
+    sequence: messages[0].sequence,
+    transactionHash: receipt.transactionHash
+  };
+}
+
+// Creates the wrapped token for an AssetMeta VAA, or updates its name and symbol when it
+// exists. Updates revert unless the VAA is newer than the last one applied.
+async function submitAttestation(destination: AttestationDestination, attestation: Attestation): Promise<WrappedAttestation> {
+  const bridge = new ethers.Contract(destination.tokenBridge, AttestationABI, destination.signer);
+  const { tokenChain, tokenAddress } = attestation.meta;
+
+  const existing: string = await bridge.wrappedAsset(tokenChain, tokenAddress);
+  const action = existing === ethers.constants.AddressZero ? "created" : "updated";
+  const receipt = await (await (action === "created" ? bridge.createWrapped(attestation.vaa) : bridge.updateWrapped(attestation.vaa))).wait();
+
+  // The bridge's two views of the wrapped token have to agree
+  const wrapped: string = await bridge.wrappedAsset(tokenChain, tokenAddress);
+  if (wrapped === ethers.constants.AddressZero) throw new Error(`no wrapped asset for ${tokenChain}/${tokenAddress} after ${receipt.transactionHash}`);
+  if (!(await bridge.isWrappedAsset(wrapped))) throw new Error(`wrappedAsset(${tokenChain}, ${tokenAddress}) is ${wrapped}, which isWrappedAsset rejects`);
+  if (action === "updated" && wrapped !== existing) throw new Error(`wrapped asset of ${tokenChain}/${tokenAddress} moved from ${existing} to ${wrapped}`);
+
+  const details = new ethers.Contract(wrapped, TokenDetailsABI, destination.signer);
+  return {
+    action,
+    wrapped,
+    name: await details.name(),
+    symbol: await details.symbol(),
+    decimals: await details.decimals(),
+    transactionHash: receipt.transactionHash
+  };
+}
+
+// attestToken on the source bridge through createWrapped/updateWrapped on the destination
+async function attestAndWrap(
+  source: AttestationSource,
+  destination: AttestationDestination,
+  token: string,
+  nonce: number = 0
+): Promise<{ attestation: Attestation; wrapped: WrappedAttestation }> {
+  const attestation = await publishAttestation(source, token, nonce);
+  return { attestation, wrapped: await submitAttestation(destination, attestation) };
+}
+
+export {
+  AttestationSource,
+  AttestationDestination,
+  Attestation,
+  WrappedAttestation,
+  AttestationABI,
+  publishAttestation,
+  submitAttestation,
+  attestAndWrap
+};
@@ -0,0 +1,228 @@
+import { ethers, BigNumber, BigNumberish } from "ethers";
+import { toUint8, toUint32, toBytes32, slice } from "./BytesLib";
+import {
+  Signature,
+  VMBody,
+  encodeSignatures,
+  encodeVMBody,
+  hashEncodedVMBody,
+  parseVMBody,
+  readSignatures,
+  signHash
+} from "./VAA";
+
+// A LogMessagePublished event emitted by the core contract
+interface PublishedMessage {
+  sender: string;
+  sequence: BigNumber;
+  nonce: number;
+  payload: string;
+  consistencyLevel: number;
+  transactionHash: string;
+  blockNumber: number;
+  logIndex: number;
+}
+
+// Messages published in the same transaction with the same nonce, in log order
+interface MessageBatch {
+  transactionHash: string;
+  nonce: number;
+  messages: PublishedMessage[];
+}
+
+interface BatchObservation {
+  // Position of the observation's hash in BatchVM.hashes
+  index: number;
+  observation: string;
+  body: VMBody & { sequence: BigNumber };
+}
+
+// Batch VM (version 2): one signature set over the hash of all observation hashes,
+// followed by the hashes and the observations themselves
+interface BatchVM {
+  version: number;
+  guardianSetIndex: number;
+  signatures: Signature[];
+  hashes: string[];
+  observations: BatchObservation[];
+  hash: string;
+}
+
+const BATCH_VM_VERSION = 2;
+
+const LogMessagePublished = new ethers.utils.Interface([
+  "event LogMessagePublished(address indexed sender, uint64 sequence, uint32 nonce, bytes payload, uint8 consistencyLevel)"
+]);
+
+// Decodes every LogMessagePublished in `logs`, optionally only those emitted by `coreAddress`
+function parseMessagePublications(logs: ethers.providers.Log[], coreAddress?: string): PublishedMessage[] {
+  const topic = LogMessagePublished.getEventTopic("LogMessagePublished");
+  return logs
+    .filter(log => log.topics[0] === topic)
+    .filter(log => !coreAddress || log.address.toLowerCase() === coreAddress.toLowerCase())
+    .map(log => {
+      const event = LogMessagePublished.parseLog(log);
+      return {
+        sender: event.args.sender,
+        sequence: event.args.sequence,
+        nonce: event.args.nonce,
+        payload: event.args.payload,
+        consistencyLevel: event.args.consistencyLevel,
+        transactionHash: log.transactionHash,
+        blockNumber: log.blockNumber,
+        logIndex: log.logIndex
+      };
+    });
+}
+
+// Groups messages by (transaction, nonce), keeping the order they were logged in
+function groupMessageBatches(messages: PublishedMessage[]): MessageBatch[] {
+  const batches = new Map<string, MessageBatch>();
+  const sorted = [...messages].sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+
+  for (const message of sorted) {
+    const key = `${message.transactionHash}:${message.nonce}`;
+    let batch = batches.get(key);
+    if (!batch) {
+      batch = { transactionHash: message.transactionHash, nonce: message.nonce, messages: [] };
+      batches.set(key, batch);
+    }
+    batch.messages.push(message);
+  }
+
+  return [...batches.values()];
+}
+
+// The VM bodies guardians would observe for a batch. `timestamp` is the block timestamp. The
+// emitter is lowercased like the VAAStore keys, so it compares equal to stored VAAs.
+function batchObservations(batch: MessageBatch, emitterChainId: number, timestamp: number): VMBody[] {
+  return batch.messages.map(message => ({
+    timestamp,
+    nonce: message.nonce,
+    emitterChainId,
+    emitterAddress: ethers.utils.hexZeroPad(message.sender, 32).toLowerCase(),
+    sequence: message.sequence,
+    consistencyLevel: message.consistencyLevel,
+    payload: message.payload
+  }));
+}
+
+// keccak256(keccak256(hashes)) - the digest guardians sign for a batch
+function hashBatch(hashes: string[]): string {
+  return hashEncodedVMBody(ethers.utils.hexConcat(hashes));
+}
+
+function encodeBatchVM(vm: Omit<BatchVM, "version" | "hash"> & { version?: number }): string {
+  let encoded = ethers.utils.solidityPack(
+    ["uint8", "uint32", "bytes", "uint8", "bytes"],
+    [
+      vm.version ?? BATCH_VM_VERSION,
+      vm.guardianSetIndex,
+      encodeSignatures(vm.signatures),
+      vm.hashes.length,
+      ethers.utils.hexConcat(vm.hashes)
+    ]
+  );
+
+  encoded = ethers.utils.solidityPack(["bytes", "uint8"], [encoded, vm.observations.length]);
+  for (const o of vm.observations) {
+    encoded = ethers.utils.solidityPack(
+      ["bytes", "uint8", "uint32", "bytes"],
+      [encoded, o.index, ethers.utils.hexDataLength(o.observation), o.observation]
+    );
+  }
+
+  return encoded;
+}
+
+function signBatchVM(
+  observations: VMBody[],
+  guardianKeys: BigNumberish[],
+  guardianSetIndex: number,
+  guardianIndices?: number[]
+): string {
+  const encodedObservations = observations.map(encodeVMBody);
+  const hashes = encodedObservations.map(hashEncodedVMBody);
+
+  return encodeBatchVM({
+    guardianSetIndex,
+    signatures: signHash(hashBatch(hashes), guardianKeys, guardianIndices),
+    hashes,
+    observations: encodedObservations.map((observation, index) => ({
+      index,
+      observation,
+      body: parseVMBody(observation)
+    }))
+  });
+}
+
+// Performs no verification, see verifyBatchObservation
+function parseBatchVM(encodedVM: ethers.utils.BytesLike): BatchVM {
+  const bytes = ethers.utils.arrayify(encodedVM);
+  let index = 0;
+
+  const version = toUint8(bytes, index);
+  index += 1;
+  if (version !== BATCH_VM_VERSION) throw new Error("VM version incompatible");
+
+  const guardianSetIndex = toUint32(bytes, index);
+  index += 4;
+
+  const read = readSignatures(bytes, index);
+  const signatures = read.signatures;
+  index = read.index;
+
+  const hashesLen = toUint8(bytes, index);
+  index += 1;
+  const hashes: string[] = [];
+  for (let i = 0; i < hashesLen; i++) {
+    hashes.push(toBytes32(bytes, index));
+    index += 32;
+  }
+
+  const observationsLen = toUint8(bytes, index);
+  index += 1;
+  const observations: BatchObservation[] = [];
+  for (let i = 0; i < observationsLen; i++) {
+    const observationIndex = toUint8(bytes, index);
+    index += 1;
+    const observationLen = toUint32(bytes, index);
+    index += 4;
+    const observation = ethers.utils.hexlify(slice(bytes, index, observationLen));
+    index += observationLen;
+
+    const { encoded, ...body } = parseVMBody(observation);
+    observations.push({ index: observationIndex, observation: encoded, body });
+  }
+
+  if (bytes.length !== index) throw new Error("invalid batch VM");
+
+  return { version, guardianSetIndex, signatures, hashes, observations, hash: hashBatch(hashes) };
+}
+
+// Checks that observation `i` is covered by the batch's signed hash list. The batch
+// signatures themselves are checked once against `hash` (e.g. with Messages.verifySignatures).
+function verifyBatchObservation(vm: BatchVM, i: number): { valid: boolean; reason: string } {
+  const o = vm.observations[i];
+  if (!o) return { valid: false, reason: "invalid observation" };
+  if (o.index >= vm.hashes.length) return { valid: false, reason: "invalid observation index" };
+  if (hashEncodedVMBody(o.observation) !== vm.hashes[o.index]) return { valid: false, reason: "observation hash mismatch" };
+  return { valid: true, reason: "" };
+}
+
+export {
+  PublishedMessage,
+  MessageBatch,
+  BatchObservation,
+  BatchVM,
+  BATCH_VM_VERSION,
+  LogMessagePublished,
+  parseMessagePublications,
+  groupMessageBatches,
+  batchObservations,
+  hashBatch,
+  encodeBatchVM,
+  signBatchVM,
+  parseBatchVM,
+  verifyBatchObservation
+};
@@ -0,0 +1,47 @@
+import { ethers, BigNumber } from "ethers";
+
+// TypeScript port of the read helpers in contracts/libraries/external/BytesLib.sol.
+// Out of bounds reads throw with the same reason strings the Solidity library reverts with,
+// so off-chain decoders fail on exactly the inputs the contracts reject.
+
+function toUint8(bytes: Uint8Array, start: number): number {
+  if (bytes.length < start + 1) throw new Error("toUint8_outOfBounds");
+  return bytes[start];
+}
+
+function toUint16(bytes: Uint8Array, start: number): number {
+  if (bytes.length < start + 2) throw new Error("toUint16_outOfBounds");
+  return (bytes[start] << 8) | bytes[start + 1];
+}
+
+function toUint32(bytes: Uint8Array, start: number): number {
+  if (bytes.length < start + 4) throw new Error("toUint32_outOfBounds");
+  return ((bytes[start] << 24) >>> 0) + ((bytes[start + 1] << 16) | (bytes[start + 2] << 8) | bytes[start + 3]);
+}
+
+function toUint64(bytes: Uint8Array, start: number): BigNumber {
+  if (bytes.length < start + 8) throw new Error("toUint64_outOfBounds");
+  return BigNumber.from(bytes.subarray(start, start + 8));
+}
+
+function toUint256(bytes: Uint8Array, start: number): BigNumber {
+  if (bytes.length < start + 32) throw new Error("toUint256_outOfBounds");
+  return BigNumber.from(bytes.subarray(start, start + 32));
+}
+
+function toAddress(bytes: Uint8Array, start: number): string {
+  if (bytes.length < start + 20) throw new Error("toAddress_outOfBounds");
+  return ethers.utils.getAddress(ethers.utils.hexlify(bytes.subarray(start, start + 20)));
+}
+
+function toBytes32(bytes: Uint8Array, start: number): string {
+  if (bytes.length < start + 32) throw new Error("toBytes32_outOfBounds");
+  return ethers.utils.hexlify(bytes.subarray(start, start + 32));
+}
+
+function slice(bytes: Uint8Array, start: number, length: number): Uint8Array {
+  if (bytes.length < start + length) throw new Error("slice_outOfBounds");
+  return bytes.slice(start, start + length);
+}
+
+export { toUint8, toUint16, toUint32, toUint64, toUint256, toAddress, toBytes32, slice };
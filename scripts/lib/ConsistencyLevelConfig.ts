@@ -0,0 +1,192 @@
+import { ethers } from "ethers";
+import { toUint8, toUint16 } from "./BytesLib";
+
+// A decoded CustomConsistencyLevel config. `type` is the leading type byte; the other
+// fields depend on the type and are unsigned integers packed into the remaining bytes.
+interface ConsistencyConfig {
+  type: number;
+  [field: string]: number;
+}
+
+// Mirrors ConfigMakers.makeAdditionalBlocksConfig
+interface AdditionalBlocksConfig extends ConsistencyConfig {
+  type: typeof CONFIG_TYPE_ADDITIONAL_BLOCKS;
+  // Consistency level to wait for
+  consistencyLevel: number;
+  // Blocks to wait after the consistency level is reached
+  blocksToWait: number;
+}
+
+// Encodes and decodes the fields following the type byte. Whatever the codec leaves of
+// the 31 remaining bytes is zero padding.
+interface ConfigCodec {
+  name: string;
+  encode(config: ConsistencyConfig): string;
+  decode(bytes: Uint8Array): ConsistencyConfig;
+}
+
+// The stored config of an emitter, as of the latest block or a ConfigSet event
+interface EmitterConfig {
+  raw: string;
+  // null when the emitter never configured one (all zero)
+  config: ConsistencyConfig | null;
+  // Set instead of `config` when `raw` does not decode
+  error?: string;
+}
+
+interface ConfigSetEvent extends EmitterConfig {
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+}
+
+interface EmitterConfigHistory {
+  emitter: string;
+  current: EmitterConfig;
+  // Every ConfigSet of the emitter, oldest first
+  history: ConfigSetEvent[];
+}
+
+const CONFIG_TYPE_ADDITIONAL_BLOCKS = 1;
+
+const CONFIG_LENGTH = 32;
+
+const CustomConsistencyLevelABI = new ethers.utils.Interface([
+  "event ConfigSet(address emitterAddress, bytes32 config)",
+  "function getConfiguration(address emitterAddress) view returns (bytes32)"
+]);
+
+function checkUint(name: string, value: number, bits: number) {
+  if (!Number.isInteger(value) || value < 0 || value >= 2 ** bits) {
+    throw new Error(`${name} must be a uint${bits}, got ${value}`);
+  }
+}
+
+const codecs = new Map<number, ConfigCodec>();
+
+// Adds a config type. Types are never redefined, so registering a known one is an error.
+function registerConfigType(type: number, codec: ConfigCodec) {
+  checkUint("config type", type, 8);
+  if (type === 0) throw new Error("config type 0 means unconfigured");
+  if (codecs.has(type)) throw new Error(`config type ${type} already registered`);
+  codecs.set(type, codec);
+}
+
+registerConfigType(CONFIG_TYPE_ADDITIONAL_BLOCKS, {
+  name: "AdditionalBlocks",
+  encode(config) {
+    checkUint("consistencyLevel", config.consistencyLevel, 8);
+    checkUint("blocksToWait", config.blocksToWait, 16);
+    return ethers.utils.solidityPack(["uint8", "uint16"], [config.consistencyLevel, config.blocksToWait]);
+  },
+  decode(bytes) {
+    return {
+      type: CONFIG_TYPE_ADDITIONAL_BLOCKS,
+      consistencyLevel: toUint8(bytes, 0),
+      blocksToWait: toUint16(bytes, 1)
+    };
+  }
+});
+
+function configCodec(type: number): ConfigCodec {
+  const codec = codecs.get(type);
+  if (!codec) throw new Error(`unknown config type ${type}`);
+  return codec;
+}
+
+// Name of a config type, e.g. "AdditionalBlocks"
+function configTypeName(type: number): string {
+  return configCodec(type).name;
+}
+
+// Packs `config` into the bytes32 passed to CustomConsistencyLevel.configure
+function encodeConfig(config: ConsistencyConfig): string {
+  const fields = ethers.utils.arrayify(configCodec(config.type).encode(config));
+  if (fields.length > CONFIG_LENGTH - 1) throw new Error(`config type ${config.type} does not fit in bytes32`);
+
+  const bytes = new Uint8Array(CONFIG_LENGTH);
+  bytes[0] = config.type;
+  bytes.set(fields, 1);
+  return ethers.utils.hexlify(bytes);
+}
+
+// TypeScript port of ConfigMakers.makeAdditionalBlocksConfig
+function encodeAdditionalBlocksConfig(consistencyLevel: number, blocksToWait: number): string {
+  return encodeConfig({ type: CONFIG_TYPE_ADDITIONAL_BLOCKS, consistencyLevel, blocksToWait });
+}
+
+// Unpacks a stored config. Returns null for the all-zero config of an emitter that never
+// configured one; throws on unknown types and on nonzero bytes past the type's fields.
+function decodeConfig(encoded: ethers.utils.BytesLike): ConsistencyConfig | null {
+  const bytes = ethers.utils.arrayify(encoded);
+  if (bytes.length !== CONFIG_LENGTH) throw new Error("config must be 32 bytes");
+  if (bytes.every(b => b === 0)) return null;
+
+  const config = configCodec(bytes[0]).decode(bytes.subarray(1));
+
+  // Re-encoding shows where the fields end; anything else set is not ours to ignore
+  if (encodeConfig(config) !== ethers.utils.hexlify(bytes)) {
+    throw new Error(`invalid ${configTypeName(bytes[0])} config: nonzero padding`);
+  }
+  return config;
+}
+
+function emitterConfig(raw: string): EmitterConfig {
+  try {
+    return { raw, config: decodeConfig(raw) };
+  } catch (error: any) {
+    return { raw, config: null, error: error.message };
+  }
+}
+
+// Fetches the current config of `emitter` from the CustomConsistencyLevel contract at
+// `address`, along with every ConfigSet it emitted since `fromBlock`. emitterAddress is
+// not indexed, so all ConfigSet logs are fetched and filtered here.
+async function readEmitterConfig(
+  provider: ethers.providers.Provider,
+  address: string,
+  emitter: string,
+  fromBlock: ethers.providers.BlockTag = 0
+): Promise<EmitterConfigHistory> {
+  const contract = new ethers.Contract(address, CustomConsistencyLevelABI, provider);
+  const current = emitterConfig(await contract.getConfiguration(emitter));
+
+  const logs = await provider.getLogs({
+    address,
+    topics: [CustomConsistencyLevelABI.getEventTopic("ConfigSet")],
+    fromBlock,
+    toBlock: "latest"
+  });
+
+  const history: ConfigSetEvent[] = [];
+  for (const log of logs) {
+    const { args } = CustomConsistencyLevelABI.parseLog(log);
+    if (args.emitterAddress.toLowerCase() !== emitter.toLowerCase()) continue;
+    history.push({
+      ...emitterConfig(args.config),
+      blockNumber: log.blockNumber,
+      transactionHash: log.transactionHash,
+      logIndex: log.logIndex
+    });
+  }
+  history.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+
+  return { emitter: ethers.utils.getAddress(emitter), current, history };
+}
+
+export {
+  ConsistencyConfig,
+  AdditionalBlocksConfig,
+  ConfigCodec,
+  EmitterConfig,
+  ConfigSetEvent,
+  EmitterConfigHistory,
+  CONFIG_TYPE_ADDITIONAL_BLOCKS,
+  CustomConsistencyLevelABI,
+  registerConfigType,
+  configTypeName,
+  encodeConfig,
+  encodeAdditionalBlocksConfig,
+  decodeConfig,
+  readEmitterConfig
+};
@@ -0,0 +1,455 @@
+import { ethers, BigNumber, BigNumberish } from "ethers";
+import { toUint8, toUint16, toUint32, toUint256, toAddress, toBytes32 } from "./BytesLib";
+
+// Governance modules, left-padded ASCII: "Core", "TokenBridge" and "NFTBridge"
+const CORE_MODULE = "0x00000000000000000000000000000000000000000000000000000000436f7265";
+const TOKEN_BRIDGE_MODULE = "0x000000000000000000000000000000000000000000546f6b656e427269646765";
+const NFT_BRIDGE_MODULE = "0x00000000000000000000000000000000000000000000004e4654427269646765";
+
+// Actions understood by Governance.sol
+const CORE_ACTION_CONTRACT_UPGRADE = 1;
+const CORE_ACTION_GUARDIAN_SET_UPGRADE = 2;
+const CORE_ACTION_SET_MESSAGE_FEE = 3;
+const CORE_ACTION_TRANSFER_FEES = 4;
+const CORE_ACTION_RECOVER_CHAIN_ID = 5;
+
+// Actions understood by BridgeGovernance.sol and NFTBridgeGovernance.sol
+const BRIDGE_ACTION_REGISTER_CHAIN = 1;
+const BRIDGE_ACTION_UPGRADE_CONTRACT = 2;
+const BRIDGE_ACTION_RECOVER_CHAIN_ID = 3;
+
+// Mirrors GovernanceStructs.ContractUpgrade
+interface ContractUpgrade {
+  module: string;
+  action: number;
+  chain: number;
+  newContract: string;
+}
+
+// Mirrors GovernanceStructs.GuardianSetUpgrade
+interface GuardianSetUpgrade {
+  module: string;
+  action: number;
+  chain: number;
+  newGuardianSet: { keys: string[]; expirationTime: number };
+  newGuardianSetIndex: number;
+}
+
+// Mirrors GovernanceStructs.SetMessageFee
+interface SetMessageFee {
+  module: string;
+  action: number;
+  chain: number;
+  messageFee: BigNumber;
+}
+
+// Mirrors GovernanceStructs.TransferFees
+interface TransferFees {
+  module: string;
+  action: number;
+  chain: number;
+  amount: BigNumber;
+  recipient: string;
+}
+
+// Mirrors GovernanceStructs.RecoverChainId and BridgeStructs.RecoverChainId, which share a layout
+interface RecoverChainId {
+  module: string;
+  action: number;
+  evmChainId: BigNumber;
+  newChainId: number;
+}
+
+// Mirrors BridgeStructs.RegisterChain (same layout in NFTBridgeStructs)
+interface RegisterChain {
+  module: string;
+  action: number;
+  chainId: number;
+  emitterChainID: number;
+  emitterAddress: string;
+}
+
+// Mirrors BridgeStructs.UpgradeContract (same layout in NFTBridgeStructs)
+interface UpgradeContract {
+  module: string;
+  action: number;
+  chainId: number;
+  newContract: string;
+}
+
+// Builder inputs: the action is implied by the builder, core builders default to the "Core" module
+interface ContractUpgradeParams {
+  module?: string;
+  chain: number;
+  newContract: string;
+}
+
+interface GuardianSetUpgradeParams {
+  module?: string;
+  chain: number;
+  newGuardianSetIndex: number;
+  keys: string[];
+}
+
+interface SetMessageFeeParams {
+  module?: string;
+  chain: number;
+  messageFee: BigNumberish;
+}
+
+interface TransferFeesParams {
+  module?: string;
+  chain: number;
+  amount: BigNumberish;
+  recipient: string;
+}
+
+interface RecoverChainIdParams {
+  module?: string;
+  evmChainId: BigNumberish;
+  newChainId: number;
+}
+
+interface RegisterChainParams {
+  chainId: number;
+  emitterChainID: number;
+  emitterAddress: string;
+}
+
+interface UpgradeContractParams {
+  chainId: number;
+  newContract: string;
+}
+
+function encodeContractUpgrade(params: ContractUpgradeParams): string {
+  return ethers.utils.solidityPack(
+    ["bytes32", "uint8", "uint16", "bytes32"],
+    [params.module ?? CORE_MODULE, CORE_ACTION_CONTRACT_UPGRADE, params.chain, ethers.utils.hexZeroPad(params.newContract, 32)]
+  );
+}
+
+function encodeGuardianSetUpgrade(params: GuardianSetUpgradeParams): string {
+  // Keys are packed as raw 20-byte addresses (encodePacked would pad address[] elements)
+  return ethers.utils.solidityPack(
+    ["bytes32", "uint8", "uint16", "uint32", "uint8", "bytes"],
+    [
+      params.module ?? CORE_MODULE,
+      CORE_ACTION_GUARDIAN_SET_UPGRADE,
+      params.chain,
+      params.newGuardianSetIndex,
+      params.keys.length,
+      ethers.utils.hexConcat(params.keys.map(key => ethers.utils.hexZeroPad(key, 20)))
+    ]
+  );
+}
+
+function encodeSetMessageFee(params: SetMessageFeeParams): string {
+  return ethers.utils.solidityPack(
+    ["bytes32", "uint8", "uint16", "uint256"],
+    [params.module ?? CORE_MODULE, CORE_ACTION_SET_MESSAGE_FEE, params.chain, params.messageFee]
+  );
+}
+
+function encodeTransferFees(params: TransferFeesParams): string {
+  return ethers.utils.solidityPack(
+    ["bytes32", "uint8", "uint16", "uint256", "bytes32"],
+    [params.module ?? CORE_MODULE, CORE_ACTION_TRANSFER_FEES, params.chain, params.amount, ethers.utils.hexZeroPad(params.recipient, 32)]
+  );
+}
+
+function encodeCoreRecoverChainId(params: RecoverChainIdParams): string {
+  return ethers.utils.solidityPack(
+    ["bytes32", "uint8", "uint256", "uint16"],
+    [params.module ?? CORE_MODULE, CORE_ACTION_RECOVER_CHAIN_ID, params.evmChainId, params.newChainId]
+  );
+}
+
+// `module` is TOKEN_BRIDGE_MODULE or NFT_BRIDGE_MODULE
+function encodeRegisterChain(module: string, params: RegisterChainParams): string {
+  return ethers.utils.solidityPack(
+    ["bytes32", "uint8", "uint16", "uint16", "bytes32"],
+    [module, BRIDGE_ACTION_REGISTER_CHAIN, params.chainId, params.emitterChainID, ethers.utils.hexZeroPad(params.emitterAddress, 32)]
+  );
+}
+
+function encodeUpgradeContract(module: string, params: UpgradeContractParams): string {
+  return ethers.utils.solidityPack(
+    ["bytes32", "uint8", "uint16", "bytes32"],
+    [module, BRIDGE_ACTION_UPGRADE_CONTRACT, params.chainId, ethers.utils.hexZeroPad(params.newContract, 32)]
+  );
+}
+
+function encodeBridgeRecoverChainId(module: string, params: Omit<RecoverChainIdParams, "module">): string {
+  return ethers.utils.solidityPack(
+    ["bytes32", "uint8", "uint256", "uint16"],
+    [module, BRIDGE_ACTION_RECOVER_CHAIN_ID, params.evmChainId, params.newChainId]
+  );
+}
+
+// TypeScript port of GovernanceStructs.parseContractUpgrade. Like the contract, the core
+// parsers do not check the module; Governance.sol does that after parsing.
+function parseContractUpgrade(encoded: ethers.utils.BytesLike): ContractUpgrade {
+  const bytes = ethers.utils.arrayify(encoded);
+  let index = 0;
+
+  const module = toBytes32(bytes, index);
+  index += 32;
+  const action = toUint8(bytes, index);
+  index += 1;
+  if (action !== CORE_ACTION_CONTRACT_UPGRADE) throw new Error("invalid ContractUpgrade");
+
+  const chain = toUint16(bytes, index);
+  index += 2;
+  // address(uint160(uint256(bytes32))) keeps the low 20 bytes
+  const newContract = toAddress(bytes, index + 12);
+  index += 32;
+
+  if (bytes.length !== index) throw new Error("invalid ContractUpgrade");
+
+  return { module, action, chain, newContract };
+}
+
+// TypeScript port of GovernanceStructs.parseGuardianSetUpgrade
+function parseGuardianSetUpgrade(encoded: ethers.utils.BytesLike): GuardianSetUpgrade {
+  const bytes = ethers.utils.arrayify(encoded);
+  let index = 0;
+
+  const module = toBytes32(bytes, index);
+  index += 32;
+  const action = toUint8(bytes, index);
+  index += 1;
+  if (action !== CORE_ACTION_GUARDIAN_SET_UPGRADE) throw new Error("invalid GuardianSetUpgrade");
+
+  const chain = toUint16(bytes, index);
+  index += 2;
+  const newGuardianSetIndex = toUint32(bytes, index);
+  index += 4;
+
+  const guardianLength = toUint8(bytes, index);
+  index += 1;
+  const keys: string[] = [];
+  for (let i = 0; i < guardianLength; i++) {
+    keys.push(toAddress(bytes, index));
+    index += 20;
+  }
+
+  if (bytes.length !== index) throw new Error("invalid GuardianSetUpgrade");
+
+  return { module, action, chain, newGuardianSet: { keys, expirationTime: 0 }, newGuardianSetIndex };
+}
+
+// TypeScript port of GovernanceStructs.parseSetMessageFee
+function parseSetMessageFee(encoded: ethers.utils.BytesLike): SetMessageFee {
+  const bytes = ethers.utils.arrayify(encoded);
+  let index = 0;
+
+  const module = toBytes32(bytes, index);
+  index += 32;
+  const action = toUint8(bytes, index);
+  index += 1;
+  if (action !== CORE_ACTION_SET_MESSAGE_FEE) throw new Error("invalid SetMessageFee");
+
+  const chain = toUint16(bytes, index);
+  index += 2;
+  const messageFee = toUint256(bytes, index);
+  index += 32;
+
+  if (bytes.length !== index) throw new Error("invalid SetMessageFee");
+
+  return { module, action, chain, messageFee };
+}
+
+// TypeScript port of GovernanceStructs.parseTransferFees
+function parseTransferFees(encoded: ethers.utils.BytesLike): TransferFees {
+  const bytes = ethers.utils.arrayify(encoded);
+  let index = 0;
+
+  const module = toBytes32(bytes, index);
+  index += 32;
+  const action = toUint8(bytes, index);
+  index += 1;
+  if (action !== CORE_ACTION_TRANSFER_FEES) throw new Error("invalid TransferFees");
+
+  const chain = toUint16(bytes, index);
+  index += 2;
+  const amount = toUint256(bytes, index);
+  index += 32;
+  const recipient = toBytes32(bytes, index);
+  index += 32;
+
+  if (bytes.length !== index) throw new Error("invalid TransferFees");
+
+  return { module, action, chain, amount, recipient };
+}
+
+// TypeScript port of GovernanceStructs.parseRecoverChainId
+function parseCoreRecoverChainId(encoded: ethers.utils.BytesLike): RecoverChainId {
+  const bytes = ethers.utils.arrayify(encoded);
+  let index = 0;
+
+  const module = toBytes32(bytes, index);
+  index += 32;
+  const action = toUint8(bytes, index);
+  index += 1;
+  if (action !== CORE_ACTION_RECOVER_CHAIN_ID) throw new Error("invalid RecoverChainId");
+
+  const evmChainId = toUint256(bytes, index);
+  index += 32;
+  const newChainId = toUint16(bytes, index);
+  index += 2;
+
+  if (bytes.length !== index) throw new Error("invalid RecoverChainId");
+
+  return { module, action, evmChainId, newChainId };
+}
+
+// The bridge parsers check the module themselves and the two bridges word their reverts
+// differently, so the decoders below take the module and reproduce the matching message.
+const BRIDGE_ERRORS: { [module: string]: { [struct: string]: { module: string; action: string; length: string } } } = {
+  [TOKEN_BRIDGE_MODULE]: {
+    RegisterChain: { module: "wrong module", action: "wrong action", length: "wrong length" },
+    UpgradeContract: { module: "wrong module", action: "wrong action", length: "wrong length" },
+    RecoverChainId: { module: "wrong module", action: "wrong action", length: "wrong length" }
+  },
+  [NFT_BRIDGE_MODULE]: {
+    RegisterChain: {
+      module: "invalid RegisterChain: wrong module",
+      action: "invalid RegisterChain: wrong action",
+      length: "invalid RegisterChain: wrong length"
+    },
+    UpgradeContract: {
+      module: "invalid UpgradeContract: wrong module",
+      action: "invalid UpgradeContract: wrong action",
+      length: "invalid UpgradeContract: wrong length"
+    },
+    RecoverChainId: {
+      module: "invalid RecoverChainId: wrong module",
+      action: "invalid RecoverChainId: wrong action",
+      length: "invalid RecoverChainId"
+    }
+  }
+};
+
+function bridgeErrors(module: string, struct: string) {
+  const errors = BRIDGE_ERRORS[module.toLowerCase()];
+  if (!errors) throw new Error(`unknown bridge module ${module}`);
+  return errors[struct];
+}
+
+// TypeScript port of BridgeGovernance.parseRegisterChain / NFTBridgeGovernance.parseRegisterChain
+function parseRegisterChain(module: string, encoded: ethers.utils.BytesLike): RegisterChain {
+  const errors = bridgeErrors(module, "RegisterChain");
+  const bytes = ethers.utils.arrayify(encoded);
+  let index = 0;
+
+  const payloadModule = toBytes32(bytes, index);
+  index += 32;
+  if (payloadModule !== module.toLowerCase()) throw new Error(errors.module);
+
+  const action = toUint8(bytes, index);
+  index += 1;
+  if (action !== BRIDGE_ACTION_REGISTER_CHAIN) throw new Error(errors.action);
+
+  const chainId = toUint16(bytes, index);
+  index += 2;
+  const emitterChainID = toUint16(bytes, index);
+  index += 2;
+  const emitterAddress = toBytes32(bytes, index);
+  index += 32;
+
+  if (bytes.length !== index) throw new Error(errors.length);
+
+  return { module: payloadModule, action, chainId, emitterChainID, emitterAddress };
+}
+
+// TypeScript port of BridgeGovernance.parseUpgrade / NFTBridgeGovernance.parseUpgrade
+function parseUpgrade(module: string, encoded: ethers.utils.BytesLike): UpgradeContract {
+  const errors = bridgeErrors(module, "UpgradeContract");
+  const bytes = ethers.utils.arrayify(encoded);
+  let index = 0;
+
+  const payloadModule = toBytes32(bytes, index);
+  index += 32;
+  if (payloadModule !== module.toLowerCase()) throw new Error(errors.module);
+
+  const action = toUint8(bytes, index);
+  index += 1;
+  if (action !== BRIDGE_ACTION_UPGRADE_CONTRACT) throw new Error(errors.action);
+
+  const chainId = toUint16(bytes, index);
+  index += 2;
+  const newContract = toBytes32(bytes, index);
+  index += 32;
+
+  if (bytes.length !== index) throw new Error(errors.length);
+
+  return { module: payloadModule, action, chainId, newContract };
+}
+
+// TypeScript port of BridgeGovernance.parseRecoverChainId / NFTBridgeGovernance.parseRecoverChainId
+function parseBridgeRecoverChainId(module: string, encoded: ethers.utils.BytesLike): RecoverChainId {
+  const errors = bridgeErrors(module, "RecoverChainId");
+  const bytes = ethers.utils.arrayify(encoded);
+  let index = 0;
+
+  const payloadModule = toBytes32(bytes, index);
+  index += 32;
+  if (payloadModule !== module.toLowerCase()) throw new Error(errors.module);
+
+  const action = toUint8(bytes, index);
+  index += 1;
+  if (action !== BRIDGE_ACTION_RECOVER_CHAIN_ID) throw new Error(errors.action);
+
+  const evmChainId = toUint256(bytes, index);
+  index += 32;
+  const newChainId = toUint16(bytes, index);
+  index += 2;
+
+  if (bytes.length !== index) throw new Error(errors.length);
+
+  return { module: payloadModule, action, evmChainId, newChainId };
+}
+
+export {
+  ContractUpgrade,
+  GuardianSetUpgrade,
+  SetMessageFee,
+  TransferFees,
+  RecoverChainId,
+  RegisterChain,
+  UpgradeContract,
+  ContractUpgradeParams,
+  GuardianSetUpgradeParams,
+  SetMessageFeeParams,
+  TransferFeesParams,
+  RecoverChainIdParams,
+  RegisterChainParams,
+  UpgradeContractParams,
+  CORE_MODULE,
+  TOKEN_BRIDGE_MODULE,
+  NFT_BRIDGE_MODULE,
+  CORE_ACTION_CONTRACT_UPGRADE,
+  CORE_ACTION_GUARDIAN_SET_UPGRADE,
+  CORE_ACTION_SET_MESSAGE_FEE,
+  CORE_ACTION_TRANSFER_FEES,
+  CORE_ACTION_RECOVER_CHAIN_ID,
+  BRIDGE_ACTION_REGISTER_CHAIN,
+  BRIDGE_ACTION_UPGRADE_CONTRACT,
+  BRIDGE_ACTION_RECOVER_CHAIN_ID,
+  encodeContractUpgrade,
+  encodeGuardianSetUpgrade,
+  encodeSetMessageFee,
+  encodeTransferFees,
+  encodeCoreRecoverChainId,
+  encodeRegisterChain,
+  encodeUpgradeContract,
+  encodeBridgeRecoverChainId,
+  parseContractUpgrade,
+  parseGuardianSetUpgrade,
+  parseSetMessageFee,
+  parseTransferFees,
+  parseCoreRecoverChainId,
+  parseRegisterChain,
+  parseUpgrade,
+  parseBridgeRecoverChainId
+};
@@ -0,0 +1,80 @@
+import { ethers, BigNumberish } from "ethers";
+import { VMBody } from "./VAA";
+import { encodeGuardianSetUpgrade } from "./GovernancePayloads";
+import { SigningPlan, VerificationOutcome, guardianSetFromKeys, signGuardianVM } from "./GuardianSigner";
+
+interface GuardianSetUpgradeVAAParams {
+  // Private keys of the current guardian set, in set order
+  currentKeys: BigNumberish[];
+  currentGuardianSetIndex: number;
+  // Private keys of the set to rotate to
+  newKeys: BigNumberish[];
+  // Chain the upgrade is for, 0 for every chain
+  chain: number;
+  governanceChainId: number;
+  governanceContract: string;
+  timestamp: number;
+  nonce?: number;
+  // Governance VAAs are only replay-protected by hash, so vary this across rotations
+  sequence: BigNumberish;
+  // Which current guardians sign, defaults to a quorum
+  plan?: SigningPlan;
+}
+
+interface GuardianSetUpgradeVAA {
+  vaa: string;
+  hash: string;
+  newGuardianSetIndex: number;
+  newGuardians: string[];
+}
+
+// Guardian sets stay valid this long after being replaced (Setters.expireGuardianSet)
+const GUARDIAN_SET_EXPIRY = 86400;
+
+// Signs a core GuardianSetUpgrade to `currentGuardianSetIndex + 1` with the current set
+function signGuardianSetUpgrade(params: GuardianSetUpgradeVAAParams): GuardianSetUpgradeVAA {
+  const newGuardianSetIndex = params.currentGuardianSetIndex + 1;
+  const newGuardians = guardianSetFromKeys(params.newKeys).keys;
+
+  const body: VMBody = {
+    timestamp: params.timestamp,
+    nonce: params.nonce ?? 0,
+    emitterChainId: params.governanceChainId,
+    emitterAddress: params.governanceContract,
+    sequence: params.sequence,
+    consistencyLevel: 0,
+    payload: encodeGuardianSetUpgrade({ chain: params.chain, newGuardianSetIndex, keys: newGuardians })
+  };
+
+  const signed = signGuardianVM(body, params.currentKeys, params.currentGuardianSetIndex, params.plan);
+  return { vaa: signed.vaa, hash: signed.hash, newGuardianSetIndex, newGuardians };
+}
+
+// A VAA that only exists to be verified, signed by a quorum of `keys` as set `guardianSetIndex`
+function signProbeVAA(keys: BigNumberish[], guardianSetIndex: number, timestamp: number, sequence: BigNumberish = 0): string {
+  const body: VMBody = {
+    timestamp,
+    nonce: 0,
+    emitterChainId: 0,
+    emitterAddress: ethers.constants.HashZero,
+    sequence,
+    consistencyLevel: 0,
+    payload: ethers.utils.hexlify(ethers.utils.toUtf8Bytes(`guardian set ${guardianSetIndex} probe`))
+  };
+  return signGuardianVM(body, keys, guardianSetIndex).vaa;
+}
+
+// What Messages.verifyVM makes of a quorum-signed VAA from a replaced guardian set with
+// `expirationTime`, in a block with `blockTimestamp`
+function expectedOldSetOutcome(expirationTime: number, blockTimestamp: number): VerificationOutcome {
+  return expirationTime < blockTimestamp ? { valid: false, reason: "guardian set has expired" } : { valid: true, reason: "" };
+}
+
+export {
+  GuardianSetUpgradeVAAParams,
+  GuardianSetUpgradeVAA,
+  GUARDIAN_SET_EXPIRY,
+  signGuardianSetUpgrade,
+  signProbeVAA,
+  expectedOldSetOutcome
+};
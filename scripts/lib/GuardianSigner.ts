@@ -0,0 +1,216 @@
+import { ethers, BigNumber, BigNumberish } from "ethers";
+import { Signature, VMBody, encodeVM, guardianPrivateKey, hashVMBody, signHash } from "./VAA";
+
+// Mirrors Structs.GuardianSet
+interface GuardianSet {
+  keys: string[];
+  expirationTime: number;
+}
+
+// Ways a signature can be tampered with. `position` is the signature's position in the VM,
+// after the signers are chosen.
+type SignatureFault =
+  // Swap the signature at `position` with the next one
+  | { kind: "outOfOrder"; position: number }
+  // Repeat the signature at `position` right after it
+  | { kind: "duplicate"; position: number }
+  // Replace s with n - s and flip v: ecrecover still recovers the guardian
+  | { kind: "highS"; position: number }
+  // Sign with a key outside the guardian set, keeping the guardian's index
+  | { kind: "wrongKey"; position: number }
+  // Write a recovery byte other than 0/1 (default 4), which makes ecrecover return 0
+  | { kind: "garbageV"; position: number; v?: number };
+
+interface SigningPlan {
+  // Guardian indices that sign, in the order their signatures are written.
+  // Defaults to the first quorum(numGuardians) guardians.
+  signers?: number[];
+  faults?: SignatureFault[];
+}
+
+// What ecrecover returns for a planned signature
+type Recovers = "guardian" | "other" | "zero";
+
+interface PlannedSignature {
+  guardianIndex: number;
+  key: BigNumberish;
+  highS: boolean;
+  // Raw recovery byte to write instead of the real one
+  v?: number;
+  recovers: Recovers;
+}
+
+// Same shape as the `expect` of VAA fixtures: a result or the revert it causes
+interface VerificationOutcome {
+  valid?: boolean;
+  reason?: string;
+  revert?: string;
+}
+
+interface ExpectedOutcome {
+  // Messages.verifySignatures against the whole guardian set
+  verifySignatures: VerificationOutcome;
+  // Messages.verifyVM / parseAndVerifyVM with the set current and unexpired
+  verifyVM: VerificationOutcome;
+}
+
+interface SignedGuardianVM {
+  vaa: string;
+  hash: string;
+  signatures: Signature[];
+  expected: ExpectedOutcome;
+}
+
+// Size of the mainnet guardian set
+const PRODUCTION_GUARDIAN_COUNT = 19;
+
+const MAX_GUARDIANS = 255;
+
+const SECP256K1_N = BigNumber.from("0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141");
+
+// Parsing adds 27 to the raw byte in a uint8, so larger raw values revert in parseVM itself
+const MAX_RAW_V = 228;
+
+// TypeScript port of Messages.quorum
+function quorum(numGuardians: number): number {
+  if (numGuardians >= 256) throw new Error("too many guardians");
+  return Math.floor((numGuardians * 2) / 3) + 1;
+}
+
+// Foundry test guardian, 0xbeFA429d57cD18b7F8A4d91A2da9AB4AF05d0FBe. DeployCore setups for
+// local testing usually use it as their only guardian.
+const DEV_GUARDIAN_KEY = "93941733246223705020089879371323733820373732307041878556247502674739205313440";
+
+// Deterministic private keys, so a failing run can be reproduced: keccak256(seed, i)
+function generateGuardianKeys(count: number, seed: string = "guardian"): string[] {
+  const keys: string[] = [];
+  for (let i = 0; keys.length < count; i++) {
+    const key = ethers.utils.solidityKeccak256(["string", "uint256"], [seed, i]);
+    // Skip the (astronomically unlikely) values that are not valid secp256k1 keys
+    if (BigNumber.from(key).gt(0) && BigNumber.from(key).lt(SECP256K1_N)) keys.push(key);
+  }
+  return keys;
+}
+
+function guardianSetFromKeys(keys: BigNumberish[], expirationTime: number = 0): GuardianSet {
+  return {
+    keys: keys.map(key => ethers.utils.computeAddress(guardianPrivateKey(key))),
+    expirationTime
+  };
+}
+
+// The signatures `plan` describes, with what each should recover to
+function planSignatures(keys: BigNumberish[], plan: SigningPlan = {}): PlannedSignature[] {
+  if (keys.length === 0 || keys.length > MAX_GUARDIANS) throw new Error(`guardian count must be 1..${MAX_GUARDIANS}`);
+
+  const signers = plan.signers ?? [...Array(quorum(keys.length)).keys()];
+  const planned: PlannedSignature[] = signers.map(guardianIndex => {
+    if (guardianIndex < 0 || guardianIndex >= keys.length) throw new Error(`signer ${guardianIndex} is not in the guardian set`);
+    return { guardianIndex, key: keys[guardianIndex], highS: false, recovers: "guardian" };
+  });
+
+  for (const fault of plan.faults ?? []) {
+    const at = fault.position;
+    if (!planned[at]) throw new Error(`no signature at position ${at} for ${fault.kind}`);
+
+    switch (fault.kind) {
+      case "outOfOrder":
+        if (!planned[at + 1]) throw new Error(`no signature after position ${at} to swap with`);
+        [planned[at], planned[at + 1]] = [planned[at + 1], planned[at]];
+        break;
+      case "duplicate":
+        planned.splice(at + 1, 0, { ...planned[at] });
+        break;
+      case "highS":
+        planned[at].highS = true;
+        break;
+      case "wrongKey":
+        planned[at].key = generateGuardianKeys(1, `outsider ${at}`)[0];
+        if (planned[at].recovers !== "zero") planned[at].recovers = "other";
+        break;
+      case "garbageV": {
+        const v = fault.v ?? 4;
+        if (v === 0 || v === 1) throw new Error("garbage v must not be 0 or 1");
+        if (v > MAX_RAW_V) throw new Error(`garbage v must be at most ${MAX_RAW_V}`);
+        planned[at].v = v;
+        planned[at].recovers = "zero";
+        break;
+      }
+    }
+  }
+
+  return planned;
+}
+
+function signPlanned(hash: string, planned: PlannedSignature[]): Signature[] {
+  return planned.map(p => {
+    const sig = signHash(hash, [p.key], [p.guardianIndex])[0];
+    if (p.highS) {
+      sig.s = ethers.utils.hexZeroPad(SECP256K1_N.sub(sig.s).toHexString(), 32);
+      sig.v = sig.v === 27 ? 28 : 27;
+    }
+    if (p.v !== undefined) sig.v = p.v + 27;
+    return sig;
+  });
+}
+
+// TypeScript port of Messages.verifySignatures, run on what each signature recovers to
+function simulateVerifySignatures(planned: PlannedSignature[], numGuardians: number): VerificationOutcome {
+  let lastIndex = 0;
+  for (let i = 0; i < planned.length; i++) {
+    const sig = planned[i];
+    if (sig.recovers === "zero") return { revert: "ecrecover failed with signature" };
+    if (i > 0 && sig.guardianIndex <= lastIndex) return { revert: "signature indices must be ascending" };
+    lastIndex = sig.guardianIndex;
+    if (sig.guardianIndex >= numGuardians) return { revert: "guardian index out of bounds" };
+    if (sig.recovers !== "guardian") return { valid: false, reason: "VM signature invalid" };
+  }
+  return { valid: true, reason: "" };
+}
+
+function expectedOutcome(planned: PlannedSignature[], numGuardians: number): ExpectedOutcome {
+  const verifySignatures = simulateVerifySignatures(planned, numGuardians);
+  // verifyVM checks quorum before looking at a single signature
+  const verifyVM = planned.length < quorum(numGuardians) ? { valid: false, reason: "no quorum" } : verifySignatures;
+  return { verifySignatures, verifyVM };
+}
+
+// Signs `hash` with the guardians and faults of `plan`
+function signWithGuardians(hash: string, keys: BigNumberish[], plan: SigningPlan = {}): { signatures: Signature[]; expected: ExpectedOutcome } {
+  const planned = planSignatures(keys, plan);
+  return { signatures: signPlanned(hash, planned), expected: expectedOutcome(planned, keys.length) };
+}
+
+// Signs `body` as guardian set `guardianSetIndex` (whose private keys are `keys`) following
+// `plan`, along with what the core contract should make of the result
+function signGuardianVM(body: VMBody, keys: BigNumberish[], guardianSetIndex: number, plan: SigningPlan = {}): SignedGuardianVM {
+  const hash = hashVMBody(body);
+  const { signatures, expected } = signWithGuardians(hash, keys, plan);
+  return {
+    vaa: encodeVM({ ...body, guardianSetIndex, signatures }),
+    hash,
+    signatures,
+    expected
+  };
+}
+
+export {
+  GuardianSet,
+  SignatureFault,
+  SigningPlan,
+  PlannedSignature,
+  VerificationOutcome,
+  ExpectedOutcome,
+  SignedGuardianVM,
+  PRODUCTION_GUARDIAN_COUNT,
+  DEV_GUARDIAN_KEY,
+  quorum,
+  generateGuardianKeys,
+  guardianSetFromKeys,
+  planSignatures,
+  signPlanned,
+  simulateVerifySignatures,
+  expectedOutcome,
+  signWithGuardians,
+  signGuardianVM
+};
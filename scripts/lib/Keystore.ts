@@ -0,0 +1,221 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as readline from "readline";
+import { Writable } from "stream";
+import { ethers, BigNumberish } from "ethers";
+import { guardianPrivateKey } from "./VAA";
+import { generateGuardianKeys } from "./GuardianSigner";
+
+// Where a script is about to run, enough to tell a local dev node from a real network
+interface NetworkDescription {
+  name: string;
+  url?: string;
+  chainId: number;
+}
+
+// Returns the passphrase for the keystore(s) at `source`
+type PassphraseSource = (source: string) => Promise<string>;
+
+// Mnemonics every local tool ships with: Hardhat/Anvil and Ganache's deterministic accounts
+const WELL_KNOWN_MNEMONICS = [
+  "test test test test test test test test test test test junk",
+  "myth like bonus scare over problem client lizard pioneer submit female collect"
+];
+
+const WELL_KNOWN_KEYS = [
+  // Foundry test guardian and Wormhole devnet guardian 0, 0xbeFA429d57cD18b7F8A4d91A2da9AB4AF05d0FBe
+  "0xcfb12303a19cde580bb4dd771639b0d26bc68353645571a8cff516ab2ee113a0",
+  // Alith, prefunded on Substrate/revive dev nodes
+  "0x5fb92d6e98884f76de468fa3f6278f8807c48bebc13595d45af5bdc4da702133"
+];
+
+// Hardhat/Anvil, Ganache and the revive dev node. A local URL says nothing about the chain
+// behind it (a local mainnet node, a tunnel, a fork), so only the chain ID counts.
+const DEV_CHAIN_IDS = [31337, 1337, 420420420];
+
+let wellKnownAddresses: Set<string> | undefined;
+
+// Addresses of keys published in tooling and in this repo. Derived on first use.
+function wellKnownTestAddresses(): Set<string> {
+  if (!wellKnownAddresses) {
+    const keys: string[] = [...WELL_KNOWN_KEYS, ...generateGuardianKeys(19)];
+    const addresses = keys.map(key => ethers.utils.computeAddress(key));
+    for (const mnemonic of WELL_KNOWN_MNEMONICS) {
+      const root = ethers.utils.HDNode.fromMnemonic(mnemonic);
+      for (let i = 0; i < 20; i++) addresses.push(root.derivePath(`m/44'/60'/0'/0/${i}`).address);
+    }
+    wellKnownAddresses = new Set(addresses.map(a => a.toLowerCase()));
+  }
+  return wellKnownAddresses;
+}
+
+function isWellKnownTestKey(key: BigNumberish): boolean {
+  return wellKnownTestAddresses().has(ethers.utils.computeAddress(guardianPrivateKey(key)).toLowerCase());
+}
+
+// A chain in DEV_CHAIN_IDS, or one listed in the DEV_CHAIN_IDS env var (comma separated) for
+// other throwaway chains
+function isDevNetwork(network: NetworkDescription, env: { [name: string]: string | undefined } = process.env): boolean {
+  if (DEV_CHAIN_IDS.includes(network.chainId)) return true;
+  const extra = (env.DEV_CHAIN_IDS ?? "").split(",").map(id => id.trim()).filter(id => id.length > 0);
+  return extra.includes(String(network.chainId));
+}
+
+// Throws when a well-known key or account would be used outside a dev network
+function refuseTestAddresses(addresses: string[], network: NetworkDescription) {
+  if (isDevNetwork(network)) return;
+  for (const address of addresses) {
+    if (wellKnownTestAddresses().has(address.toLowerCase())) {
+      throw new Error(`refusing to use well-known test key ${ethers.utils.getAddress(address)} on network ${network.name} (chain ${network.chainId})`);
+    }
+  }
+}
+
+function refuseTestKeys(keys: BigNumberish[], network: NetworkDescription) {
+  refuseTestAddresses(keys.map(key => ethers.utils.computeAddress(guardianPrivateKey(key))), network);
+}
+
+// From Hardhat's `network.name` and `network.config`, and the chain id the node reports
+async function describeNetwork(provider: ethers.providers.Provider, name: string, config: { url?: string } | object): Promise<NetworkDescription> {
+  const { chainId } = await provider.getNetwork();
+  return { name, url: "url" in config ? config.url : undefined, chainId };
+}
+
+// Reads a line from the terminal without echoing it
+function promptPassphrase(prompt: string): Promise<string> {
+  if (!process.stdin.isTTY) {
+    return Promise.reject(new Error(`${prompt.trim()} needs a terminal; set the passphrase in the environment instead`));
+  }
+
+  process.stdout.write(prompt);
+  // readline echoes what is typed to its output; a stream that drops every write keeps the
+  // passphrase off the screen while still handling line editing in terminal mode
+  const muted = new Writable({ write: (_chunk, _encoding, callback) => callback() });
+  return new Promise(resolve => {
+    const rl = readline.createInterface({ input: process.stdin, output: muted, terminal: true });
+    rl.question("", answer => {
+      rl.close();
+      process.stdout.write("\n");
+      resolve(answer);
+    });
+  });
+}
+
+// Passphrase from env var `name`, prompting once when it is not set
+function passphraseFromEnv(name: string): PassphraseSource {
+  let cached: Promise<string> | undefined;
+  return source => {
+    const value = process.env[name];
+    if (value !== undefined) return Promise.resolve(value);
+    if (!cached) cached = promptPassphrase(`Passphrase for ${source} (or set ${name}): `);
+    return cached;
+  };
+}
+
+// Encrypts `privateKey` as a Web3 Secret Storage (geth) keystore. `scryptN` below the
+// default 2^17 only makes sense for throwaway keys.
+async function encryptKeystore(privateKey: BigNumberish, passphrase: string, scryptN?: number): Promise<string> {
+  return new ethers.Wallet(guardianPrivateKey(privateKey)).encrypt(passphrase, scryptN ? { scrypt: { N: scryptN } } : {});
+}
+
+async function decryptKeystore(json: string, passphrase: string, origin: string = "keystore"): Promise<string> {
+  try {
+    return (await ethers.Wallet.fromEncryptedJson(json, passphrase)).privateKey;
+  } catch (error: any) {
+    throw new Error(`${origin}: ${error.message}`);
+  }
+}
+
+// Private keys from a keystore file, or from every *.json keystore in a directory sorted by
+// name (so 00-guardian.json, 01-guardian.json, ... give guardian set order). One passphrase
+// unlocks a directory.
+async function readKeystores(source: string, passphrase: PassphraseSource): Promise<string[]> {
+  if (!fs.existsSync(source)) throw new Error(`keystore ${source} does not exist`);
+
+  const files = fs.statSync(source).isDirectory()
+    ? fs.readdirSync(source).filter(f => f.endsWith(".json") && !f.startsWith(".")).sort().map(f => path.join(source, f))
+    : [source];
+  if (files.length === 0) throw new Error(`no *.json keystores in ${source}`);
+
+  const secret = await passphrase(source);
+  const keys: string[] = [];
+  for (const file of files) {
+    keys.push(await decryptKeystore(fs.readFileSync(file, "utf8"), secret, file));
+  }
+  return keys;
+}
+
+// Writes one keystore per key as <dir>/<NN>-<address>.json, in key order
+async function writeKeystores(dir: string, keys: BigNumberish[], passphrase: string, scryptN?: number): Promise<string[]> {
+  fs.mkdirSync(dir, { recursive: true });
+  const files: string[] = [];
+  for (let i = 0; i < keys.length; i++) {
+    const address = ethers.utils.computeAddress(guardianPrivateKey(keys[i]));
+    const file = path.join(dir, `${String(i).padStart(2, "0")}-${address}.json`);
+    fs.writeFileSync(file, await encryptKeystore(keys[i], passphrase, scryptN), { mode: 0o600 });
+    files.push(file);
+  }
+  return files;
+}
+
+// Private keys from <prefix>_KEYSTORE (file or directory, unlocked with
+// <prefix>_KEYSTORE_PASSPHRASE or a prompt), else <prefix>_KEYS (comma separated). Empty when
+// neither is set.
+async function readGuardianKeys(prefix: string = "GUARDIAN"): Promise<string[]> {
+  const keystore = process.env[`${prefix}_KEYSTORE`];
+  if (keystore) return readKeystores(keystore, passphraseFromEnv(`${prefix}_KEYSTORE_PASSPHRASE`));
+  return (process.env[`${prefix}_KEYS`] ?? "").split(",").map(k => k.trim()).filter(k => k.length > 0);
+}
+
+// Guardian keys for a script: GUARDIAN_KEYSTORE or GUARDIAN_KEYS, else `defaultKeys`.
+// Well-known keys are refused outside dev networks.
+async function loadGuardianKeys(network: NetworkDescription, defaultKeys: string[] = []): Promise<string[]> {
+  const configured = await readGuardianKeys();
+  const keys = configured.length > 0 ? configured : defaultKeys;
+
+  if (keys.length === 0) throw new Error("no guardian keys: set GUARDIAN_KEYSTORE or GUARDIAN_KEYS");
+  refuseTestKeys(keys, network);
+  return keys;
+}
+
+// The account scripts send transactions from: <prefix>_KEYSTORE (unlocked with
+// <prefix>_KEYSTORE_PASSPHRASE or a prompt) connected to `provider`, else the node's first
+// account. Well-known accounts are refused outside dev networks.
+async function loadDeployer(
+  provider: ethers.providers.JsonRpcProvider,
+  network: NetworkDescription,
+  prefix: string = "DEPLOYER"
+): Promise<ethers.Signer> {
+  let signer: ethers.Signer;
+  const keystore = process.env[`${prefix}_KEYSTORE`];
+  if (keystore) {
+    const keys = await readKeystores(keystore, passphraseFromEnv(`${prefix}_KEYSTORE_PASSPHRASE`));
+    if (keys.length !== 1) throw new Error(`${prefix}_KEYSTORE must hold one key, found ${keys.length}`);
+    signer = new ethers.Wallet(keys[0], provider);
+  } else {
+    signer = provider.getSigner(0);
+  }
+
+  refuseTestAddresses([await signer.getAddress()], network);
+  return signer;
+}
+
+export {
+  NetworkDescription,
+  PassphraseSource,
+  wellKnownTestAddresses,
+  isWellKnownTestKey,
+  isDevNetwork,
+  refuseTestAddresses,
+  refuseTestKeys,
+  describeNetwork,
+  promptPassphrase,
+  passphraseFromEnv,
+  encryptKeystore,
+  decryptKeystore,
+  readKeystores,
+  writeKeystores,
+  readGuardianKeys,
+  loadGuardianKeys,
+  loadDeployer
+};
@@ -0,0 +1,221 @@
+import { ethers, BigNumberish } from "ethers";
+import { VMBody, encodeVM, guardianPrivateKey, signVMBody } from "./VAA";
+import { LogMessagePublished, PublishedMessage, parseMessagePublications } from "./BatchVAA";
+import { SignedVAA, VAAStore, createVAAStore } from "./VAAStore";
+import { FinalityDepths, Observation, ObservationTracker, createObservationTracker } from "./ObservationDelay";
+
+interface MockGuardianOptions {
+  provider: ethers.providers.Provider;
+  // Core bridge (Wormhole proxy) to observe
+  wormhole: string;
+  // Guardian private keys (decimal or hex), in the order of the on-chain guardian set.
+  // Every key signs, so this must be the whole set or at least a quorum of it.
+  keys: BigNumberish[];
+  // Guardian indices of `keys` when they are a subset of the set, defaults to 0..keys.length-1
+  indices?: number[];
+  store?: VAAStore;
+  // First block to observe, defaults to the block after the current one
+  fromBlock?: number;
+  // Milliseconds between polls when started
+  pollInterval?: number;
+  // Largest block range fetched with one eth_getLogs
+  maxBlockRange?: number;
+  // CustomConsistencyLevel contract to read the configs of emitters publishing with level 203
+  customConsistencyLevel?: string;
+  // When blocks become safe and finalized, see ObservationTrackerOptions. By default every
+  // block is final at once, so only custom additional blocks delay signing.
+  finality?: FinalityDepths | "node";
+  // Called with each VAA once it is stored
+  onSigned?: (signed: SignedVAA, observation: Observation) => void;
+  // Keys (in set order) of a guardian set the core bridge rotated to while the guardian runs.
+  // Without them polling fails from the rotation on, rather than sign with a replaced set.
+  keysForGuardianSet?: (guardianSetIndex: number) => BigNumberish[] | undefined;
+}
+
+interface MockGuardian {
+  chainId: number;
+  // Guardian set the VAAs are signed with, followed on every poll
+  guardianSetIndex: number;
+  store: VAAStore;
+  // Pending and recently signed messages, with the rule each waits for and when it became signable
+  observations: ObservationTracker;
+  // Next block to be observed
+  nextBlock: number;
+  // Observes every block up to the latest once and signs the messages that became
+  // signable, returning their VAAs
+  poll(): Promise<SignedVAA[]>;
+  // Polls every `pollInterval` until stopped. Errors go to `onError` and polling carries on.
+  start(onError?: (error: Error) => void): void;
+  stop(): void;
+}
+
+const DEFAULT_POLL_INTERVAL = 1000;
+
+const DEFAULT_MAX_BLOCK_RANGE = 1000;
+
+const CoreABI = new ethers.utils.Interface([
+  "function chainId() view returns (uint16)",
+  "function getCurrentGuardianSetIndex() view returns (uint32)",
+  "function getGuardianSet(uint32 index) view returns (tuple(address[] keys, uint32 expirationTime))"
+]);
+
+// The VM body guardians observe for a published message. `timestamp` is the block timestamp.
+function observationBody(message: PublishedMessage, emitterChainId: number, timestamp: number): VMBody {
+  return {
+    timestamp,
+    nonce: message.nonce,
+    emitterChainId,
+    emitterAddress: ethers.utils.hexZeroPad(message.sender, 32),
+    sequence: message.sequence,
+    consistencyLevel: message.consistencyLevel,
+    payload: message.payload
+  };
+}
+
+// Throws unless each key belongs to the guardian at its index in `guardianSet`
+function checkGuardianKeys(keys: BigNumberish[], indices: number[], guardianSet: string[], guardianSetIndex: number) {
+  keys.forEach((key, i) => {
+    const address = ethers.utils.computeAddress(guardianPrivateKey(key));
+    const expected = guardianSet[indices[i]];
+    if (!expected || expected.toLowerCase() !== address.toLowerCase()) {
+      throw new Error(`guardian key ${i} (${address}) is not guardian ${indices[i]} of guardian set ${guardianSetIndex}`);
+    }
+  });
+}
+
+// Connects to the core bridge at `options.wormhole`, checks the keys against its current
+// guardian set and returns a guardian that signs every LogMessagePublished from then on,
+// once its consistency level allows.
+async function createMockGuardian(options: MockGuardianOptions): Promise<MockGuardian> {
+  const { provider } = options;
+  let keys = options.keys;
+  let indices = options.indices ?? keys.map((_, i) => i);
+  if (indices.length !== keys.length) throw new Error("one guardian index per key");
+
+  const core = new ethers.Contract(options.wormhole, CoreABI, provider);
+  const chainId: number = await core.chainId();
+  const guardianSetIndex: number = await core.getCurrentGuardianSetIndex();
+  const guardianSet = await core.getGuardianSet(guardianSetIndex);
+  checkGuardianKeys(keys, indices, guardianSet.keys, guardianSetIndex);
+
+  const maxBlockRange = options.maxBlockRange ?? DEFAULT_MAX_BLOCK_RANGE;
+  const timestamps = new Map<number, number>();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  // Bumped by start/stop so a tick still in flight from an earlier run does not reschedule
+  let run = 0;
+  let polling: Promise<SignedVAA[]> | undefined;
+
+  const blockTimestamp = async (blockNumber: number) => {
+    let timestamp = timestamps.get(blockNumber);
+    if (timestamp === undefined) {
+      timestamp = (await provider.getBlock(blockNumber)).timestamp;
+      timestamps.set(blockNumber, timestamp);
+    }
+    return timestamp;
+  };
+
+  const sign = async (message: PublishedMessage): Promise<SignedVAA> => {
+    const body = observationBody(message, chainId, await blockTimestamp(message.blockNumber));
+    return {
+      emitterChain: chainId,
+      emitterAddress: body.emitterAddress.toLowerCase(),
+      sequence: message.sequence.toString(),
+      transactionHash: message.transactionHash,
+      blockNumber: message.blockNumber,
+      vaa: encodeVM({ ...body, guardianSetIndex: guardian.guardianSetIndex, signatures: signVMBody(body, keys, indices) })
+    };
+  };
+
+  // Switches to the keys of the set the core bridge now uses; VAAs of the old set would stop
+  // verifying once it expires
+  const followGuardianSet = async () => {
+    const current: number = await core.getCurrentGuardianSetIndex();
+    if (current === guardian.guardianSetIndex) return;
+
+    const next = options.keysForGuardianSet?.(current);
+    if (!next) {
+      throw new Error(`core bridge moved from guardian set ${guardian.guardianSetIndex} to ${current}; give the mock guardian the keys of the new set`);
+    }
+    const nextIndices = next.map((_, i) => i);
+    checkGuardianKeys(next, nextIndices, (await core.getGuardianSet(current)).keys, current);
+    keys = next;
+    indices = nextIndices;
+    guardian.guardianSetIndex = current;
+  };
+
+  const observe = async (): Promise<SignedVAA[]> => {
+    await followGuardianSet();
+    const latest = await provider.getBlockNumber();
+    const signed: SignedVAA[] = [];
+
+    while (guardian.nextBlock <= latest) {
+      const toBlock = Math.min(latest, guardian.nextBlock + maxBlockRange - 1);
+      const logs = await provider.getLogs({
+        address: options.wormhole,
+        topics: [LogMessagePublished.getEventTopic("LogMessagePublished")],
+        fromBlock: guardian.nextBlock,
+        toBlock
+      });
+
+      // If an add throws, the range is read again on the next poll; messages queued or signed
+      // on the first try are skipped then, so none is signed twice
+      for (const message of parseMessagePublications(logs, options.wormhole)) {
+        if (guardian.store.get(chainId, message.sender, message.sequence)) continue;
+        await guardian.observations.add(message);
+      }
+      guardian.nextBlock = toBlock + 1;
+      guardian.observations.readThrough(guardian.nextBlock);
+    }
+
+    for (const observation of await guardian.observations.due(latest)) {
+      const vaa = await sign(observation.message);
+      guardian.store.put(vaa);
+      guardian.observations.signed(observation);
+      options.onSigned?.(vaa, observation);
+      signed.push(vaa);
+    }
+
+    return signed;
+  };
+
+  const guardian: MockGuardian = {
+    chainId,
+    guardianSetIndex,
+    store: options.store ?? createVAAStore(),
+    observations: createObservationTracker({ provider, customConsistencyLevel: options.customConsistencyLevel, finality: options.finality }),
+    nextBlock: options.fromBlock ?? (await provider.getBlockNumber()) + 1,
+    // Concurrent polls share one pass so no block is observed twice
+    poll() {
+      if (!polling) polling = observe().finally(() => (polling = undefined));
+      return polling;
+    },
+    start(onError = error => console.error(error)) {
+      if (timer) return;
+      const current = ++run;
+      const tick = async () => {
+        try {
+          await guardian.poll();
+        } catch (error: any) {
+          onError(error);
+        }
+        if (run === current) timer = setTimeout(tick, options.pollInterval ?? DEFAULT_POLL_INTERVAL);
+      };
+      timer = setTimeout(tick, 0);
+    },
+    stop() {
+      run++;
+      if (timer) clearTimeout(timer);
+      timer = undefined;
+    }
+  };
+
+  return guardian;
+}
+
+export {
+  MockGuardianOptions,
+  MockGuardian,
+  observationBody,
+  checkGuardianKeys,
+  createMockGuardian
+};
@@ -0,0 +1,139 @@
+import { ethers, BigNumber } from "ethers";
+import { toUint8, toUint16, toUint256, toBytes32, slice } from "./BytesLib";
+
+// Mirrors INFTBridge.Transfer. Unlike token bridge transfers there is no payload id field
+// in the struct (it is always 1 on the wire) and no relayer fee.
+interface Transfer {
+  tokenAddress: string;
+  tokenChain: number;
+  symbol: string;
+  name: string;
+  tokenID: BigNumber;
+  // Decoded as UTF-8, with U+FFFD for bytes that are not
+  uri: string;
+  // The URI as sent (hex). Solidity strings are bytes, so a URI need not be valid UTF-8;
+  // parseTransfer sets it and encodeTransfer sends it, keeping round trips exact. It must
+  // decode to `uri`: drop it when changing `uri`.
+  uriBytes?: string;
+  to: string;
+  toChain: number;
+}
+
+// Mirrors INFTBridge.SPLCache
+interface SPLCache {
+  name: string;
+  symbol: string;
+}
+
+// What NFTBridge._completeTransfer does with a transfer's metadata on a foreign chain
+interface WrappedMetadata {
+  // bytes32 name/symbol the wrapped collection is initialized with on creation
+  name: string;
+  symbol: string;
+  // splCache(tokenID) entry written on redemption, only for Solana-origin tokens
+  splCache?: SPLCache;
+}
+
+const PAYLOAD_ID_TRANSFER = 1;
+
+// Global tokenURI limit enforced by NFTBridge.encodeTransfer (Solana constraint)
+const MAX_URI_LENGTH = 200;
+
+const SOLANA_CHAIN_ID = 1;
+
+// SPL NFTs all share one wrapped collection per chain, named by NFTBridge._createWrapped:
+// "Wormhole Bridged Solana-NFT" and "WORMSPLNFT", right-padded
+const SPL_WRAPPED_NAME = "0x576f726d686f6c65204272696467656420536f6c616e612d4e46540000000000";
+const SPL_WRAPPED_SYMBOL = "0x574f524d53504c4e465400000000000000000000000000000000000000000000";
+
+function encodeTransfer(transfer: Transfer): string {
+  if (transfer.uriBytes !== undefined &&
+      ethers.utils.toUtf8String(transfer.uriBytes, ethers.utils.Utf8ErrorFuncs.replace) !== transfer.uri) {
+    throw new Error("uriBytes does not decode to uri");
+  }
+  const uri = transfer.uriBytes !== undefined ? ethers.utils.arrayify(transfer.uriBytes) : ethers.utils.toUtf8Bytes(transfer.uri);
+  if (uri.length > MAX_URI_LENGTH) throw new Error("tokenURI must not exceed 200 bytes");
+
+  return ethers.utils.solidityPack(
+    ["uint8", "bytes32", "uint16", "bytes32", "bytes32", "uint256", "uint8", "bytes", "bytes32", "uint16"],
+    [
+      PAYLOAD_ID_TRANSFER,
+      transfer.tokenAddress,
+      transfer.tokenChain,
+      transfer.symbol,
+      transfer.name,
+      transfer.tokenID,
+      uri.length,
+      uri,
+      transfer.to,
+      transfer.toChain
+    ]
+  );
+}
+
+// TypeScript port of NFTBridge.parseTransfer. Like the contract it ignores the URI length
+// byte: the URI is everything between the length byte and the trailing to/toChain, which
+// are read backwards from the end of the payload.
+function parseTransfer(encoded: ethers.utils.BytesLike): Transfer {
+  const bytes = ethers.utils.arrayify(encoded);
+  let index = 0;
+
+  const payloadID = toUint8(bytes, index);
+  index += 1;
+  if (payloadID !== PAYLOAD_ID_TRANSFER) throw new Error("invalid Transfer");
+
+  const tokenAddress = toBytes32(bytes, index);
+  index += 32;
+  const tokenChain = toUint16(bytes, index);
+  index += 2;
+  const symbol = toBytes32(bytes, index);
+  index += 32;
+  const name = toBytes32(bytes, index);
+  index += 32;
+  const tokenID = toUint256(bytes, index);
+  index += 32;
+
+  // Ignore length due to malformatted payload
+  index += 1;
+  // encoded.length - index - 34 underflows (and the contract panics) on short payloads
+  if (bytes.length < index + 34) throw new Error("invalid Transfer: arithmetic underflow");
+  const uriBytes = slice(bytes, index, bytes.length - index - 34);
+  const uri = ethers.utils.toUtf8String(uriBytes, ethers.utils.Utf8ErrorFuncs.replace);
+
+  index = bytes.length;
+  index -= 2;
+  const toChain = toUint16(bytes, index);
+  index -= 32;
+  const to = toBytes32(bytes, index);
+
+  return { tokenAddress, tokenChain, symbol, name, tokenID, uri, uriBytes: ethers.utils.hexlify(uriBytes), to, toChain };
+}
+
+// Models the Solana special case of NFTBridge._completeTransfer/_createWrapped: Solana-origin
+// transfers mint into a wrapped collection with the unified SPL name and symbol, and the
+// original per-token name/symbol is kept in splCache(tokenID). transferNFT reads (and clears)
+// that cache when the token leaves again.
+function wrappedMetadata(transfer: Transfer): WrappedMetadata {
+  if (transfer.tokenChain === SOLANA_CHAIN_ID) {
+    return {
+      name: SPL_WRAPPED_NAME,
+      symbol: SPL_WRAPPED_SYMBOL,
+      splCache: { name: transfer.name, symbol: transfer.symbol }
+    };
+  }
+  return { name: transfer.name, symbol: transfer.symbol };
+}
+
+export {
+  Transfer,
+  SPLCache,
+  WrappedMetadata,
+  PAYLOAD_ID_TRANSFER,
+  MAX_URI_LENGTH,
+  SOLANA_CHAIN_ID,
+  SPL_WRAPPED_NAME,
+  SPL_WRAPPED_SYMBOL,
+  encodeTransfer,
+  parseTransfer,
+  wrappedMetadata
+};
@@ -0,0 +1,148 @@
+import { ethers } from "ethers";
+import { parseVM } from "./VAA";
+import { toUint8 } from "./BytesLib";
+import { PAYLOAD_ID_TRANSFER, SOLANA_CHAIN_ID, SPLCache, parseTransfer } from "./NFTBridgePayloads";
+import { RelayLog, RelayRecord, createRelayLog } from "./RelayLog";
+import { createRelayPipeline } from "./RelayPipeline";
+import { RetryOptions } from "./Retry";
+
+interface NFTBridgeRelayerOptions {
+  // NFT bridge (proxy) on the chain transfers are redeemed on
+  nftBridge: string;
+  // Sends the redemptions; NFT transfers carry no fee
+  signer: ethers.Signer;
+  log?: RelayLog;
+  retry?: RetryOptions;
+  // Called with the final record of every VAA handled
+  onRelayed?: (record: RelayRecord) => void;
+}
+
+// Where an NFT transfer ends up on this chain
+interface NFTCompletion {
+  completed: boolean;
+  // The origin collection for tokens native to this chain, else its wrapped collection;
+  // undefined while that is still to be created by the first redemption
+  token?: string;
+  tokenID: string;
+  native: boolean;
+  // Current owner of the token, once completed
+  owner?: string;
+  // splCache(tokenID) of Solana-origin tokens, once completed and until the token leaves again
+  splCache?: SPLCache;
+}
+
+interface NFTBridgeRelayer {
+  chainId: number;
+  account: string;
+  log: RelayLog;
+  // Redeems the NFT transfer in `vaa` (hex) unless it is done already or not ours to redeem.
+  // The record carries the token and tokenID on this chain.
+  relay(vaa: string): Promise<RelayRecord>;
+  // Looks up the transfer in `vaa` on chain without redeeming it
+  completion(vaa: string): Promise<NFTCompletion>;
+  idle(): Promise<void>;
+}
+
+const NFTBridgeRelayerABI = new ethers.utils.Interface([
+  "function chainId() view returns (uint16)",
+  "function bridgeContracts(uint16 chainId) view returns (bytes32)",
+  "function isTransferCompleted(bytes32 hash) view returns (bool)",
+  "function wrappedAsset(uint16 tokenChainId, bytes32 tokenAddress) view returns (address)",
+  "function splCache(uint256 tokenId) view returns (tuple(bytes32 name, bytes32 symbol))",
+  "function completeTransfer(bytes encodedVm)"
+]);
+
+const ERC721ABI = new ethers.utils.Interface([
+  "function ownerOf(uint256 tokenId) view returns (address)"
+]);
+
+async function createNFTBridgeRelayer(options: NFTBridgeRelayerOptions): Promise<NFTBridgeRelayer> {
+  const { signer } = options;
+  if (!signer.provider) throw new Error("relayer signer must be connected to a provider");
+  const provider = signer.provider;
+
+  const bridge = new ethers.Contract(options.nftBridge, NFTBridgeRelayerABI, signer);
+  const chainId: number = await bridge.chainId();
+  const account = await signer.getAddress();
+  const log = options.log ?? createRelayLog();
+
+  const completionOf = async (hash: string, vmPayload: string): Promise<NFTCompletion> => {
+    const transfer = parseTransfer(vmPayload);
+    const native = transfer.tokenChain === chainId;
+    const completed: boolean = await bridge.isTransferCompleted(hash);
+    const tokenID = transfer.tokenID.toString();
+
+    let token: string | undefined = ethers.utils.getAddress(ethers.utils.hexDataSlice(transfer.tokenAddress, 12));
+    if (!native) {
+      const wrapped: string = await bridge.wrappedAsset(transfer.tokenChain, transfer.tokenAddress);
+      token = wrapped === ethers.constants.AddressZero ? undefined : wrapped;
+    }
+    if (!completed) return { completed, token, tokenID, native };
+
+    // A later transfer out burns wrapped tokens, so there may be no owner any more
+    const owner: string | undefined = token
+      ? await new ethers.Contract(token, ERC721ABI, provider).ownerOf(transfer.tokenID).catch(() => undefined)
+      : undefined;
+    let splCache: SPLCache | undefined;
+    if (!native && transfer.tokenChain === SOLANA_CHAIN_ID) {
+      const cached = await bridge.splCache(transfer.tokenID);
+      splCache = { name: cached.name, symbol: cached.symbol };
+    }
+    return { completed, token, tokenID, native, owner, splCache };
+  };
+
+  const pipeline = createRelayPipeline({
+    bridge,
+    bridgeName: "NFT bridge",
+    log,
+    retry: options.retry,
+    onRecord: options.onRelayed,
+    check(vm) {
+      const payloadID = toUint8(ethers.utils.arrayify(vm.payload), 0);
+      if (payloadID !== PAYLOAD_ID_TRANSFER) return `payload ${payloadID} is not a transfer`;
+      const transfer = parseTransfer(vm.payload);
+      if (transfer.toChain !== chainId) return `transfer is for chain ${transfer.toChain}`;
+      return undefined;
+    },
+    async target(vm) {
+      const transfer = parseTransfer(vm.payload);
+      const before = await completionOf(vm.hash, vm.payload);
+      return {
+        contract: bridge,
+        method: "completeTransfer",
+        details: {
+          method: "completeTransfer",
+          recipient: ethers.utils.getAddress(ethers.utils.hexDataSlice(transfer.to, 12)),
+          tokenChain: transfer.tokenChain,
+          tokenAddress: transfer.tokenAddress,
+          tokenID: before.tokenID,
+          uri: transfer.uri,
+          // Whether the redemption had to create the wrapped collection
+          createdCollection: !before.native && before.token === undefined
+        },
+        // Where the token ended up; a failed lookup leaves a mined redemption recorded as relayed
+        completedDetails: () => completionOf(vm.hash, vm.payload)
+      };
+    }
+  });
+
+  return {
+    chainId,
+    account,
+    log,
+    relay: pipeline.relay,
+    async completion(vaa) {
+      const vm = parseVM(vaa);
+      return completionOf(vm.hash, vm.payload);
+    },
+    idle: pipeline.idle
+  };
+}
+
+export {
+  NFTBridgeRelayerOptions,
+  NFTCompletion,
+  NFTBridgeRelayer,
+  NFTBridgeRelayerABI,
+  createNFTBridgeRelayer
+};
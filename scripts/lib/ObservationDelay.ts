@@ -0,0 +1,250 @@
+import { ethers } from "ethers";
+import { PublishedMessage } from "./BatchVAA";
+import { CONFIG_TYPE_ADDITIONAL_BLOCKS, CustomConsistencyLevelABI, EmitterConfig, decodeConfig } from "./ConsistencyLevelConfig";
+
+// How final a block has to be before guardians sign its messages
+type FinalityLevel = "instant" | "safe" | "finalized";
+
+// Emulated finality: how many blocks the safe and finalized heads trail the latest block
+interface FinalityDepths {
+  safe: number;
+  finalized: number;
+}
+
+interface FinalityHeads {
+  latest: number;
+  safe: number;
+  finalized: number;
+}
+
+// What a message waits for: its block reaching `level`, then `additionalBlocks` more
+interface ObservationRule {
+  level: FinalityLevel;
+  additionalBlocks: number;
+  // The emitter's CustomConsistencyLevel config, for consistency level 203
+  custom?: EmitterConfig;
+}
+
+interface Observation {
+  message: PublishedMessage;
+  rule: ObservationRule;
+  // Latest block when the message's block first reached `rule.level`
+  levelReachedAtBlock?: number;
+  // First block from which the message may be signed, and its timestamp
+  signableAtBlock?: number;
+  signableAtTimestamp?: number;
+}
+
+interface ObservationTrackerOptions {
+  provider: ethers.providers.Provider;
+  // CustomConsistencyLevel contract emitters using level 203 configure themselves in
+  customConsistencyLevel?: string;
+  // Fixed depths, or "node" to ask the node for its safe and finalized blocks. Defaults to
+  // a chain that finalizes every block as soon as it is produced.
+  finality?: FinalityDepths | "node";
+  // Signed observations `all` keeps, newest last. Defaults to DEFAULT_HISTORY.
+  history?: number;
+}
+
+interface ObservationTracker {
+  // Starts tracking a published message, reading its emitter's custom config if needed. A
+  // message already tracked (same emitter and sequence) returns its existing observation.
+  add(message: PublishedMessage): Promise<Observation>;
+  // Observations that are signable by block `latest`, in publication order. They are returned
+  // again by later calls until passed to `signed`, so a failure while signing loses none.
+  due(latest: number): Promise<Observation[]>;
+  // Stops tracking an observation whose VAA has been signed and stored
+  signed(observation: Observation): void;
+  // Blocks before `block` are not read again: their signed messages need no deduplication
+  readThrough(block: number): void;
+  pending(): Observation[];
+  // The pending observations and the latest `history` signed ones, in publication order
+  all(): Observation[];
+}
+
+const CONSISTENCY_LEVEL_INSTANT = 200;
+
+const CONSISTENCY_LEVEL_SAFE = 201;
+
+const CONSISTENCY_LEVEL_CUSTOM = 203;
+
+const INSTANT_FINALITY: FinalityDepths = { safe: 0, finalized: 0 };
+
+const DEFAULT_HISTORY = 1000;
+
+// 200 is instant and 201 safe; every other level, including the legacy 1 and 15, means finalized
+function finalityLevel(consistencyLevel: number): FinalityLevel {
+  if (consistencyLevel === CONSISTENCY_LEVEL_INSTANT) return "instant";
+  if (consistencyLevel === CONSISTENCY_LEVEL_SAFE) return "safe";
+  return "finalized";
+}
+
+// The rule guardians apply to a message published with `consistencyLevel`. Level 203 defers
+// to the emitter's config; without a usable one the message waits for finality.
+function observationRule(consistencyLevel: number, custom?: EmitterConfig): ObservationRule {
+  if (consistencyLevel !== CONSISTENCY_LEVEL_CUSTOM) {
+    return { level: finalityLevel(consistencyLevel), additionalBlocks: 0 };
+  }
+
+  const config = custom?.config;
+  if (config?.type === CONFIG_TYPE_ADDITIONAL_BLOCKS) {
+    return { level: finalityLevel(config.consistencyLevel), additionalBlocks: config.blocksToWait, custom };
+  }
+  return { level: "finalized", additionalBlocks: 0, custom };
+}
+
+function levelHead(heads: FinalityHeads, level: FinalityLevel): number {
+  return level === "instant" ? heads.latest : heads[level];
+}
+
+function levelDepth(depths: FinalityDepths, level: FinalityLevel): number {
+  return level === "instant" ? 0 : depths[level];
+}
+
+// The block from which a message in `blockNumber` may be signed under `rule`, with fixed
+// finality depths
+function signableAtBlock(rule: ObservationRule, blockNumber: number, depths: FinalityDepths = INSTANT_FINALITY): number {
+  return blockNumber + levelDepth(depths, rule.level) + rule.additionalBlocks;
+}
+
+function createObservationTracker(options: ObservationTrackerOptions): ObservationTracker {
+  const { provider } = options;
+  const finality = options.finality ?? INSTANT_FINALITY;
+  const ccl = options.customConsistencyLevel
+    ? new ethers.Contract(options.customConsistencyLevel, CustomConsistencyLevelABI, provider)
+    : undefined;
+
+  const history = options.history ?? DEFAULT_HISTORY;
+  let observations: Observation[] = [];
+  let waiting: Observation[] = [];
+  // Keyed by emitter/sequence, so re-reading a block range does not queue a message twice.
+  // Signed messages leave it once their block is behind `rereadFrom`.
+  const tracked = new Map<string, Observation>();
+  let rereadFrom = 0;
+
+  const keyOf = (message: PublishedMessage) => `${message.sender.toLowerCase()}/${message.sequence.toString()}`;
+
+  const forgetSigned = () => {
+    for (const [key, observation] of tracked) {
+      if (observation.message.blockNumber < rereadFrom && !waiting.includes(observation)) tracked.delete(key);
+    }
+    let signedCount = observations.length - waiting.length;
+    if (signedCount > history) {
+      observations = observations.filter(o => waiting.includes(o) || signedCount-- <= history);
+    }
+  };
+
+  // The config in effect when the message was published. Nodes without archive state cannot
+  // read it, so the current config stands in; with neither the message waits for finality.
+  const customConfig = async (message: PublishedMessage): Promise<EmitterConfig> => {
+    if (!ccl) return { raw: ethers.constants.HashZero, config: null, error: "no CustomConsistencyLevel contract configured" };
+    let raw: string;
+    try {
+      raw = await ccl.getConfiguration(message.sender, { blockTag: message.blockNumber });
+    } catch {
+      try {
+        raw = await ccl.getConfiguration(message.sender);
+      } catch (error: any) {
+        return { raw: ethers.constants.HashZero, config: null, error: `config unreadable: ${error.message}` };
+      }
+    }
+    try {
+      return { raw, config: decodeConfig(raw) };
+    } catch (error: any) {
+      return { raw, config: null, error: error.message };
+    }
+  };
+
+  const nodeHeads = async (latest: number): Promise<FinalityHeads> => {
+    const head = async (tag: "safe" | "finalized") => {
+      try {
+        return (await provider.getBlock(tag)).number;
+      } catch (error: any) {
+        throw new Error(`node does not report ${tag} blocks (${error.message}); configure finality depths instead`);
+      }
+    };
+    const needs = (level: FinalityLevel) => waiting.some(o => o.rule.level === level);
+    return {
+      latest,
+      safe: needs("safe") ? await head("safe") : -1,
+      finalized: needs("finalized") ? await head("finalized") : -1
+    };
+  };
+
+  const tracker: ObservationTracker = {
+    async add(message) {
+      const key = keyOf(message);
+      const existing = tracked.get(key);
+      if (existing) return existing;
+
+      const rule = message.consistencyLevel === CONSISTENCY_LEVEL_CUSTOM
+        ? observationRule(message.consistencyLevel, await customConfig(message))
+        : observationRule(message.consistencyLevel);
+      const observation: Observation = { message, rule };
+      tracked.set(key, observation);
+      observations.push(observation);
+      waiting.push(observation);
+      return observation;
+    },
+    async due(latest) {
+      if (waiting.length === 0) return [];
+      const heads = finality === "node" ? await nodeHeads(latest) : undefined;
+
+      for (const observation of waiting) {
+        if (observation.levelReachedAtBlock !== undefined) continue;
+        const { rule, message } = observation;
+        if (!heads) {
+          // With fixed depths the block the level was reached in is known exactly
+          const reached = message.blockNumber + levelDepth(finality as FinalityDepths, rule.level);
+          if (reached <= latest) observation.levelReachedAtBlock = reached;
+        } else if (levelHead(heads, rule.level) >= message.blockNumber) {
+          // The node only tells us it happened by now
+          observation.levelReachedAtBlock = latest;
+        }
+      }
+
+      const ready = waiting.filter(o => o.levelReachedAtBlock !== undefined && o.levelReachedAtBlock + o.rule.additionalBlocks <= latest);
+
+      for (const observation of ready) {
+        if (observation.signableAtTimestamp !== undefined) continue;
+        observation.signableAtBlock = observation.levelReachedAtBlock! + observation.rule.additionalBlocks;
+        observation.signableAtTimestamp = (await provider.getBlock(observation.signableAtBlock)).timestamp;
+      }
+      return ready;
+    },
+    signed(observation) {
+      waiting = waiting.filter(o => o !== observation);
+      forgetSigned();
+    },
+    readThrough(block) {
+      rereadFrom = Math.max(rereadFrom, block);
+      forgetSigned();
+    },
+    pending() {
+      return [...waiting];
+    },
+    all() {
+      return [...observations];
+    }
+  };
+
+  return tracker;
+}
+
+export {
+  FinalityLevel,
+  FinalityDepths,
+  FinalityHeads,
+  ObservationRule,
+  Observation,
+  ObservationTrackerOptions,
+  ObservationTracker,
+  CONSISTENCY_LEVEL_INSTANT,
+  CONSISTENCY_LEVEL_SAFE,
+  CONSISTENCY_LEVEL_CUSTOM,
+  DEFAULT_HISTORY,
+  finalityLevel,
+  observationRule,
+  signableAtBlock,
+  createObservationTracker
+};
@@ -0,0 +1,203 @@
+import * as fs from "fs";
+import { ethers } from "ethers";
+import { PAYLOAD_ID_TRANSFER_WITH_PAYLOAD, parsePayloadID, parseTransferWithPayload } from "./TokenBridgePayloads";
+import { RelayLog, RelayRecord, createRelayLog } from "./RelayLog";
+import { createRelayPipeline } from "./RelayPipeline";
+import { RetryOptions } from "./Retry";
+import { TokenBridgeRelayerABI } from "./TokenBridgeRelayer";
+
+// A contract that redeems payload 3 transfers addressed to it, like MockTokenBridgeIntegration
+interface Integrator {
+  name: string;
+  address: string;
+  // Function taking the VAA as its only argument, e.g. "completeTransferAndSwap(bytes)".
+  // It has to call completeTransferWithPayload itself, only the recipient may.
+  entrypoint: string;
+  // Used instead for WETH of this chain, for integrators that unwrap with
+  // completeTransferAndUnwrapETHWithPayload
+  wethEntrypoint?: string;
+  // ABI types of the integrator's payload, e.g. ["bytes32 receiver"], to decode it in outcomes
+  payload?: string[];
+}
+
+interface IntegratorRegistry {
+  // The integrator registered for `address`, if any
+  lookup(address: string): Integrator | undefined;
+  all(): Integrator[];
+}
+
+// ERC20 Transfer in the delivery transaction
+interface TokenMovement {
+  token: string;
+  from: string;
+  to: string;
+  amount: string;
+}
+
+interface PayloadDeliveryOptions {
+  tokenBridge: string;
+  // Sends the deliveries; integrators decide who may call them
+  signer: ethers.Signer;
+  registry: IntegratorRegistry;
+  log?: RelayLog;
+  retry?: RetryOptions;
+  onDelivered?: (record: RelayRecord) => void;
+}
+
+interface PayloadDeliveryService {
+  chainId: number;
+  log: RelayLog;
+  // Hands the payload 3 transfer in `vaa` (hex) to the integrator it is addressed to. The
+  // record carries the decoded transfer, integrator payload and token movements.
+  deliver(vaa: string): Promise<RelayRecord>;
+  idle(): Promise<void>;
+}
+
+const DeliveryEventsABI = new ethers.utils.Interface([
+  "event Transfer(address indexed from, address indexed to, uint256 value)",
+  "event TransferRedeemed(uint16 indexed emitterChainId, bytes32 indexed emitterAddress, uint64 indexed sequence)"
+]);
+
+function checkIntegrator(integrator: Integrator, origin: string) {
+  if (!integrator.name) throw new Error(`${origin}: integrator needs a name`);
+  if (!ethers.utils.isAddress(integrator.address ?? "")) throw new Error(`${origin}: integrator ${integrator.name} has no valid address`);
+  for (const entrypoint of [integrator.entrypoint, integrator.wethEntrypoint].filter(e => e !== undefined)) {
+    const fragment = ethers.utils.FunctionFragment.from(entrypoint!);
+    if (fragment.inputs.length !== 1 || fragment.inputs[0].type !== "bytes") {
+      throw new Error(`${origin}: entrypoint ${entrypoint} of ${integrator.name} must take the VAA as its only (bytes) argument`);
+    }
+  }
+  // Throws on types the coder does not understand
+  integrator.payload?.forEach(type => ethers.utils.ParamType.from(type));
+}
+
+function createIntegratorRegistry(integrators: Integrator[], origin: string = "registry"): IntegratorRegistry {
+  const byAddress = new Map<string, Integrator>();
+  for (const integrator of integrators) {
+    checkIntegrator(integrator, origin);
+    const key = integrator.address.toLowerCase();
+    if (byAddress.has(key)) throw new Error(`${origin}: ${integrator.address} registered twice`);
+    byAddress.set(key, integrator);
+  }
+
+  return {
+    lookup(address) {
+      return byAddress.get(address.toLowerCase());
+    },
+    all() {
+      return [...byAddress.values()];
+    }
+  };
+}
+
+// Reads { "integrators": [...] } from a JSON file
+function readIntegratorRegistry(file: string): IntegratorRegistry {
+  const parsed = JSON.parse(fs.readFileSync(file, "utf8"));
+  if (!Array.isArray(parsed.integrators)) throw new Error(`${file}: expected { "integrators": [...] }`);
+  return createIntegratorRegistry(parsed.integrators, file);
+}
+
+// Integrator payload fields as strings, or undefined when they do not decode
+function decodeIntegratorPayload(integrator: Integrator, payload: string): { [field: string]: string } | undefined {
+  if (!integrator.payload) return undefined;
+  try {
+    const fields = ethers.utils.defaultAbiCoder.decode(integrator.payload, payload);
+    const decoded: { [field: string]: string } = {};
+    integrator.payload.forEach((type, i) => {
+      decoded[ethers.utils.ParamType.from(type).name || String(i)] = fields[i].toString();
+    });
+    return decoded;
+  } catch {
+    return undefined;
+  }
+}
+
+// Whether the token bridge redeemed a VAA in the delivery; an integrator may swallow the
+// payload without ever calling it
+function redeemedBy(receipt: ethers.providers.TransactionReceipt, tokenBridge: string): boolean {
+  const topic = DeliveryEventsABI.getEventTopic("TransferRedeemed");
+  return receipt.logs.some(log => log.topics[0] === topic && log.address.toLowerCase() === tokenBridge.toLowerCase());
+}
+
+function tokenMovements(receipt: ethers.providers.TransactionReceipt): TokenMovement[] {
+  const topic = DeliveryEventsABI.getEventTopic("Transfer");
+  // ERC721 Transfer shares the topic but indexes the token id too
+  return receipt.logs
+    .filter(log => log.topics[0] === topic && log.topics.length === 3)
+    .map(log => {
+      const { args } = DeliveryEventsABI.parseLog(log);
+      return { token: log.address, from: args.from, to: args.to, amount: args.value.toString() };
+    });
+}
+
+async function createPayloadDeliveryService(options: PayloadDeliveryOptions): Promise<PayloadDeliveryService> {
+  const { signer, registry } = options;
+  const bridge = new ethers.Contract(options.tokenBridge, TokenBridgeRelayerABI, signer);
+  const chainId: number = await bridge.chainId();
+  const weth: string = await bridge.WETH();
+  const log = options.log ?? createRelayLog();
+
+  const pipeline = createRelayPipeline({
+    bridge,
+    bridgeName: "token bridge",
+    log,
+    retry: options.retry,
+    onRecord: options.onDelivered,
+    check(vm) {
+      const payloadID = parsePayloadID(vm.payload);
+      if (payloadID !== PAYLOAD_ID_TRANSFER_WITH_PAYLOAD) return `payload ${payloadID} is not a transfer with payload`;
+      const transfer = parseTransferWithPayload(vm.payload);
+      if (transfer.toChain !== chainId) return `transfer is for chain ${transfer.toChain}`;
+      return undefined;
+    },
+    async target(vm) {
+      const transfer = parseTransferWithPayload(vm.payload);
+      const recipient = ethers.utils.getAddress(ethers.utils.hexDataSlice(transfer.to, 12));
+      const details: { [field: string]: unknown } = {
+        recipient,
+        tokenChain: transfer.tokenChain,
+        tokenAddress: transfer.tokenAddress,
+        amount: transfer.amount.toString(),
+        fromAddress: transfer.fromAddress,
+        payload: transfer.payload
+      };
+
+      const integrator = registry.lookup(recipient);
+      if (!integrator) return { skip: `no integrator registered for ${recipient}`, details, deferred: true };
+
+      const isWETH = transfer.tokenChain === chainId && transfer.tokenAddress.toLowerCase() === ethers.utils.hexZeroPad(weth, 32).toLowerCase();
+      const entrypoint = ethers.utils.FunctionFragment.from(isWETH && integrator.wethEntrypoint ? integrator.wethEntrypoint : integrator.entrypoint);
+      details.integrator = integrator.name;
+      details.method = entrypoint.name;
+      details.decodedPayload = decodeIntegratorPayload(integrator, transfer.payload);
+
+      return {
+        contract: new ethers.Contract(recipient, [entrypoint], signer),
+        method: entrypoint.format(),
+        details,
+        completedDetails: async receipt => receipt
+          ? { redeemed: redeemedBy(receipt, options.tokenBridge), tokenMovements: tokenMovements(receipt) }
+          : {}
+      };
+    }
+  });
+
+  return {
+    chainId,
+    log,
+    deliver: pipeline.relay,
+    idle: pipeline.idle
+  };
+}
+
+export {
+  Integrator,
+  IntegratorRegistry,
+  TokenMovement,
+  PayloadDeliveryOptions,
+  PayloadDeliveryService,
+  createIntegratorRegistry,
+  readIntegratorRegistry,
+  decodeIntegratorPayload,
+  createPayloadDeliveryService
+};
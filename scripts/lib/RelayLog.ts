@@ -0,0 +1,84 @@
+import * as fs from "fs";
+import * as path from "path";
+
+// relayed: redeemed by us. skipped: nothing to do, ever (already redeemed, not for this
+// chain, ...). deferred: not relayable in the current chain state or config (emitter not
+// registered yet, no integrator for the recipient). failed: every attempt failed. Deferred
+// and failed VAAs are tried again when they show up again.
+type RelayStatus = "relayed" | "skipped" | "deferred" | "failed";
+
+interface RelayRecord {
+  // vaaId of the VAA: <chain>/<emitter>/<sequence>
+  id: string;
+  // VM hash, what the bridges key completed transfers by
+  hash: string;
+  status: RelayStatus;
+  // Why a VAA was skipped or deferred, or the last error of a failed one
+  reason?: string;
+  // Contract method the redemption called
+  method?: string;
+  transactionHash?: string;
+  attempts: number;
+  // Milliseconds since the epoch
+  updatedAt: number;
+  // Relayer specific details, e.g. the recipient and fee of a transfer
+  [field: string]: unknown;
+}
+
+interface RelayLog {
+  get(id: string): RelayRecord | undefined;
+  // Records the latest outcome for `record.id`
+  put(record: RelayRecord): void;
+  all(): RelayRecord[];
+}
+
+// In-memory log. With `file`, earlier outcomes are loaded from it and new ones appended as
+// JSON lines; the last line of an id wins, so a restarted relayer knows what it relayed.
+function createRelayLog(file?: string): RelayLog {
+  const records = new Map<string, RelayRecord>();
+
+  if (file && fs.existsSync(file)) {
+    const content = fs.readFileSync(file, "utf8");
+    const lines = content.split("\n");
+    const last = lines.map(l => l.trim().length > 0).lastIndexOf(true);
+    let complete = content.length === 0 || content.endsWith("\n");
+    lines.forEach((line, i) => {
+      if (line.trim().length === 0) return;
+      try {
+        const record: RelayRecord = JSON.parse(line);
+        records.set(record.id, record);
+      } catch (error: any) {
+        // A relayer killed while appending leaves a torn last line; anything earlier is corruption
+        if (i !== last) throw new Error(`${file}:${i + 1}: ${error.message}`);
+        console.warn(`${file}:${i + 1}: ignoring torn last line (${error.message})`);
+        fs.truncateSync(file, Buffer.byteLength(lines.slice(0, i).map(l => l + "\n").join("")));
+        complete = true;
+      }
+    });
+    // Next appends must start on a line of their own
+    if (!complete) fs.appendFileSync(file, "\n");
+  }
+
+  return {
+    get(id) {
+      return records.get(id);
+    },
+    put(record) {
+      records.set(record.id, record);
+      if (file) {
+        fs.mkdirSync(path.dirname(file), { recursive: true });
+        fs.appendFileSync(file, JSON.stringify(record) + "\n");
+      }
+    },
+    all() {
+      return [...records.values()];
+    }
+  };
+}
+
+// Whether a VAA with this record is done with; deferred and failed ones are retried
+function isSettled(record: RelayRecord | undefined): boolean {
+  return record !== undefined && (record.status === "relayed" || record.status === "skipped");
+}
+
+export { RelayStatus, RelayRecord, RelayLog, createRelayLog, isSettled };
@@ -0,0 +1,152 @@
+import { ethers } from "ethers";
+import { VM, parseVM } from "./VAA";
+import { vaaId } from "./VAAStore";
+import { RelayLog, RelayRecord, isSettled } from "./RelayLog";
+import { RetryOptions, retry } from "./Retry";
+
+// The call that redeems a VAA: `method` of `contract`, with the VAA as its only argument
+interface RelayTarget {
+  contract: ethers.Contract;
+  method: string;
+  // Recorded with every outcome of the VAA
+  details: { [field: string]: unknown };
+  // Fields recorded once the transfer is completed, by us (with the receipt) or before we got to it
+  completedDetails?: (receipt?: ethers.providers.TransactionReceipt) => Promise<object>;
+}
+
+// A VAA the relayer leaves alone
+interface RelaySkip {
+  skip: string;
+  details?: { [field: string]: unknown };
+  // The reason can go away (e.g. a registry change), so the VAA is handled again next time
+  deferred?: boolean;
+}
+
+interface RelayPipelineOptions {
+  // Bridge with bridgeContracts(uint16) and isTransferCompleted(bytes32), e.g. TokenBridgeRelayerABI
+  bridge: ethers.Contract;
+  // Names the bridge in skip reasons, e.g. "token bridge"
+  bridgeName: string;
+  log: RelayLog;
+  retry?: RetryOptions;
+  // Payload checks that need no chain state; returns why the VAA is skipped, if it is
+  check(vm: VM): string | undefined;
+  // What to call for a VAA that passed `check` and comes from the registered emitter
+  target(vm: VM): Promise<RelayTarget | RelaySkip>;
+  // Called with every new outcome
+  onRecord?: (record: RelayRecord) => void;
+}
+
+interface RelayPipeline {
+  // Handles `vaa` (hex) unless the log has it settled. VAAs are handled one at a time in the
+  // order given; each new outcome is written to the log.
+  relay(vaa: string): Promise<RelayRecord>;
+  // Resolves once every VAA given so far is handled
+  idle(): Promise<void>;
+}
+
+// Whether a call failed because the contract reverted, rather than on the way to the node
+function isRevert(error: any): boolean {
+  if (error.code === ethers.errors.CALL_EXCEPTION || error.code === ethers.errors.UNPREDICTABLE_GAS_LIMIT) return true;
+  return /revert/i.test(error.error?.message ?? error.message ?? "");
+}
+
+// The part of relaying every bridge shares: skipping settled VAAs, checking the emitter is
+// the registered bridge, skipping completed transfers, retrying the redemption and logging
+// the outcome. Relayers supply the payload checks and the call.
+function createRelayPipeline(options: RelayPipelineOptions): RelayPipeline {
+  const { bridge, log } = options;
+
+  const handle = async (vaa: string): Promise<RelayRecord> => {
+    const vm = parseVM(vaa);
+    const id = vaaId(vm.emitterChainId, vm.emitterAddress, vm.sequence);
+    const previous = log.get(id);
+    if (isSettled(previous)) return previous!;
+
+    const base = { id, hash: vm.hash, attempts: previous?.attempts ?? 0 };
+    const skip = (reason: string, details: object = {}): RelayRecord => ({ ...base, ...details, status: "skipped", reason, updatedAt: Date.now() });
+    const defer = (reason: string, details: object = {}): RelayRecord => ({ ...skip(reason, details), status: "deferred" });
+
+    const rejected = options.check(vm);
+    if (rejected) return skip(rejected);
+    // The chain may still be registered, after which a replayed VAA goes through
+    if ((await bridge.bridgeContracts(vm.emitterChainId)).toLowerCase() !== vm.emitterAddress.toLowerCase()) {
+      return defer(`emitter is not the ${options.bridgeName} registered for chain ${vm.emitterChainId}`);
+    }
+
+    const target = await options.target(vm);
+    if ("skip" in target) return (target.deferred ? defer : skip)(target.skip, target.details);
+    const { contract, method, details } = target;
+    const completedDetails = async (receipt?: ethers.providers.TransactionReceipt) => {
+      if (!target.completedDetails) return {};
+      try {
+        return await target.completedDetails(receipt);
+      } catch (error: any) {
+        // The redemption stands even when looking up its result fails
+        return { lookupError: error.message };
+      }
+    };
+
+    if (await bridge.isTransferCompleted(vm.hash)) return skip("transfer already completed", { ...details, ...(await completedDetails()) });
+
+    let attempts = base.attempts;
+    // ethers wraps reverts; the node's error carries the revert reason
+    const failed = (error: any): RelayRecord => ({ ...base, ...details, attempts, status: "failed", reason: error.error?.message ?? error.message, updatedAt: Date.now() });
+
+    let outcome: { receipt?: ethers.providers.TransactionReceipt; reverted?: Error };
+    try {
+      outcome = await retry(async attempt => {
+        attempts++;
+        // An earlier attempt whose receipt was lost may have gone through after all
+        if (attempt > 1 && (await bridge.isTransferCompleted(vm.hash))) return {};
+        // A revert (bad signatures, unregistered token, ...) would fail every retry the same
+        // way, so it is not sent; only transport and nonce errors are retried
+        try {
+          await contract.callStatic[method](vaa);
+        } catch (error: any) {
+          if (isRevert(error)) return { reverted: error };
+          throw error;
+        }
+        return { receipt: await (await contract[method](vaa)).wait() };
+      }, options.retry);
+    } catch (error: any) {
+      return failed(error);
+    }
+    if (outcome.reverted) return failed(outcome.reverted);
+    const { receipt } = outcome;
+
+    if (!receipt) return skip("transfer completed while retrying", { ...details, ...(await completedDetails()), attempts });
+    return {
+      ...base,
+      ...details,
+      ...(await completedDetails(receipt)),
+      attempts,
+      status: "relayed",
+      transactionHash: receipt.transactionHash,
+      updatedAt: Date.now()
+    };
+  };
+
+  let queue: Promise<unknown> = Promise.resolve();
+
+  return {
+    relay(vaa) {
+      const result = queue.then(async () => {
+        const record = await handle(vaa);
+        // Settled VAAs come back as their logged record; only new outcomes are written and reported
+        if (log.get(record.id) !== record) {
+          log.put(record);
+          options.onRecord?.(record);
+        }
+        return record;
+      });
+      queue = result.catch(() => undefined);
+      return result;
+    },
+    idle() {
+      return queue.then(() => undefined);
+    }
+  };
+}
+
+export { RelayTarget, RelaySkip, RelayPipelineOptions, RelayPipeline, createRelayPipeline };
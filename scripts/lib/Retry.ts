@@ -0,0 +1,39 @@
+interface RetryOptions {
+  // Tries in total, including the first
+  attempts?: number;
+  // Milliseconds before the first retry, doubled after each one up to `maxDelay`
+  initialDelay?: number;
+  maxDelay?: number;
+}
+
+const DEFAULT_RETRY: Required<RetryOptions> = { attempts: 5, initialDelay: 1000, maxDelay: 30000 };
+
+// Delay before retry `attempt` (1 for the first retry)
+function backoffDelay(attempt: number, options: RetryOptions = {}): number {
+  const { initialDelay, maxDelay } = { ...DEFAULT_RETRY, ...options };
+  return Math.min(initialDelay * 2 ** (attempt - 1), maxDelay);
+}
+
+// Calls `fn` until it resolves or `attempts` calls failed, waiting with exponential backoff in
+// between. Rejects with the last error. `onRetry` sees each error that is retried.
+async function retry<T>(
+  fn: (attempt: number) => Promise<T>,
+  options: RetryOptions = {},
+  onRetry?: (error: Error, attempt: number, delay: number) => void
+): Promise<T> {
+  const { attempts } = { ...DEFAULT_RETRY, ...options };
+  // NaN or 0 would never reach `attempt >= attempts` and retry forever
+  if (!Number.isInteger(attempts) || attempts < 1) throw new Error(`retry attempts must be an integer of at least 1, got ${attempts}`);
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn(attempt);
+    } catch (error: any) {
+      if (attempt >= attempts) throw error;
+      const delay = backoffDelay(attempt, options);
+      onRetry?.(error, attempt, delay);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
+
+export { RetryOptions, DEFAULT_RETRY, backoffDelay, retry };
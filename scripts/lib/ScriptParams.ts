@@ -0,0 +1,229 @@
+import * as fs from "fs";
+import * as yaml from "js-yaml";
+import { ethers } from "ethers";
+
+// chainId: Wormhole chain ID, a non-zero uint16. evmChainId: EIP-155 chain ID. finality: a
+// consistency level, uint8. count: positive integer. uint: non-negative integer, e.g. a block
+// number. addresses: non-empty list of distinct
+// checksummed addresses. Lists come comma or whitespace separated from flags and env vars.
+type ParamType = "chainId" | "evmChainId" | "finality" | "count" | "uint" | "bytes32" | "address" | "addresses" | "string" | "strings";
+
+interface ParamSpec {
+  type: ParamType;
+  // Environment variable, defaults to the parameter name in UPPER_SNAKE_CASE
+  env?: string;
+  // Index of the positional argument holding the value (for `npx ts-node` use); with `rest`
+  // every positional argument from there on
+  positional?: number;
+  rest?: boolean;
+  optional?: boolean;
+  default?: unknown;
+}
+
+type ParamSpecs<T> = { [K in keyof T]-?: ParamSpec };
+
+interface LoadParamsOptions {
+  // Defaults to process.argv.slice(2)
+  argv?: string[];
+  // Defaults to process.env
+  env?: { [name: string]: string | undefined };
+  // Script path; errors then end with its usage line
+  script?: string;
+}
+
+const MAX_UINT16 = 65535;
+
+const MAX_UINT8 = 255;
+
+const PLACEHOLDERS: { [type in ParamType]: string } = {
+  chainId: "<wormhole chain id>",
+  evmChainId: "<evm chain id>",
+  finality: "<consistency level>",
+  count: "<n>",
+  uint: "<n>",
+  bytes32: "<bytes32>",
+  address: "<address>",
+  addresses: "<address>,...",
+  string: "<value>",
+  strings: "<value>,..."
+};
+
+function envName(name: string, spec: ParamSpec): string {
+  return spec.env ?? name.replace(/([a-z0-9])([A-Z])/g, "$1_$2").toUpperCase();
+}
+
+function flagName(name: string): string {
+  return name.replace(/([a-z0-9])([A-Z])/g, "$1-$2").toLowerCase();
+}
+
+// Splits argv into --flag values (`--flag value` or `--flag=value`) and positional arguments
+function parseArgv(argv: string[]): { flags: Map<string, string>; positional: string[] } {
+  const flags = new Map<string, string>();
+  const positional: string[] = [];
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith("--")) {
+      positional.push(arg);
+      continue;
+    }
+    const eq = arg.indexOf("=");
+    if (eq >= 0) {
+      flags.set(arg.slice(2, eq), arg.slice(eq + 1));
+    } else {
+      if (i + 1 >= argv.length) throw new Error(`${arg} needs a value`);
+      flags.set(arg.slice(2), argv[++i]);
+    }
+  }
+  return { flags, positional };
+}
+
+// A JSON or YAML (.yaml/.yml) object of parameter values keyed by parameter name. Keys a
+// script does not know are ignored, so one file can serve several scripts.
+function readConfigFile(file: string): { [name: string]: unknown } {
+  const contents = fs.readFileSync(file, "utf8");
+  const parsed = /\.ya?ml$/.test(file) ? yaml.load(contents) : JSON.parse(contents);
+  if (parsed === null || typeof parsed !== "object" || Array.isArray(parsed)) throw new Error(`${file}: expected an object of parameters`);
+  return parsed as { [name: string]: unknown };
+}
+
+function toInteger(raw: unknown): number | undefined {
+  if (typeof raw === "number") return Number.isSafeInteger(raw) ? raw : undefined;
+  if (typeof raw === "string" && /^\d+$/.test(raw.trim())) {
+    const value = Number(raw.trim());
+    return Number.isSafeInteger(value) ? value : undefined;
+  }
+  return undefined;
+}
+
+function toList(raw: unknown): string[] {
+  if (Array.isArray(raw)) return raw.map(String);
+  return String(raw).split(/[\s,]+/).filter(s => s.length > 0);
+}
+
+function checkAddress(value: string): string {
+  if (!ethers.utils.isAddress(value)) throw new Error(`${JSON.stringify(value)} is not an address`);
+  const checksummed = ethers.utils.getAddress(value);
+  if (value !== checksummed) throw new Error(`${value} is not checksummed, did you mean ${checksummed}?`);
+  return value;
+}
+
+// Converts a raw value to `type`, throwing with what was expected
+function parseParam(type: ParamType, raw: unknown): unknown {
+  const got = ` got ${JSON.stringify(raw)}`;
+  switch (type) {
+    case "chainId": {
+      const value = toInteger(raw);
+      if (value === undefined || value < 1 || value > MAX_UINT16) throw new Error(`must be a Wormhole chain ID between 1 and ${MAX_UINT16},${got}`);
+      return value;
+    }
+    case "evmChainId": {
+      const value = toInteger(raw);
+      if (value === undefined || value < 1) throw new Error(`must be a positive EVM chain ID,${got}`);
+      return value;
+    }
+    case "finality": {
+      const value = toInteger(raw);
+      if (value === undefined || value > MAX_UINT8) throw new Error(`must be a consistency level between 0 and ${MAX_UINT8},${got}`);
+      return value;
+    }
+    case "count": {
+      const value = toInteger(raw);
+      if (value === undefined || value < 1) throw new Error(`must be a positive integer,${got}`);
+      return value;
+    }
+    case "uint": {
+      const value = toInteger(raw);
+      if (value === undefined) throw new Error(`must be a non-negative integer,${got}`);
+      return value;
+    }
+    case "bytes32": {
+      if (typeof raw !== "string" || !/^0x[0-9a-fA-F]{64}$/.test(raw)) {
+        throw new Error(`must be 0x followed by 64 hex digits (left-pad addresses to 32 bytes),${got}`);
+      }
+      return raw;
+    }
+    case "address":
+      return checkAddress(String(raw));
+    case "addresses": {
+      const values = toList(raw);
+      if (values.length === 0) throw new Error("must list at least one address");
+      values.forEach(checkAddress);
+      const duplicate = values.find((value, i) => values.findIndex(v => v.toLowerCase() === value.toLowerCase()) !== i);
+      if (duplicate) throw new Error(`lists ${duplicate} twice`);
+      return values;
+    }
+    case "string": {
+      if (typeof raw !== "string" || raw.length === 0) throw new Error(`must be a non-empty string,${got}`);
+      return raw;
+    }
+    case "strings": {
+      const values = toList(raw);
+      if (values.length === 0) throw new Error("must list at least one value");
+      return values;
+    }
+  }
+}
+
+// Resolves every parameter from, in order of precedence, --flags, positional arguments,
+// environment variables, the config file (--config or CONFIG) and defaults. Every value is
+// validated and all problems are reported together, before the script does anything.
+function loadScriptParams<T>(specs: ParamSpecs<T>, options: LoadParamsOptions = {}): T {
+  const env = options.env ?? process.env;
+  const { flags, positional } = parseArgv(options.argv ?? process.argv.slice(2));
+  const configFile = flags.get("config") ?? env.CONFIG;
+  const config = configFile ? readConfigFile(configFile) : {};
+
+  const known = new Set(["config", ...Object.keys(specs).map(flagName)]);
+  const problems = [...flags.keys()].filter(flag => !known.has(flag)).map(flag => `unknown flag --${flag}`);
+  const params: { [name: string]: unknown } = {};
+
+  for (const [name, spec] of Object.entries(specs) as [string, ParamSpec][]) {
+    const variable = envName(name, spec);
+    const candidates: [string, unknown][] = [
+      [`--${flagName(name)}`, flags.get(flagName(name))],
+      ["arguments", spec.positional === undefined ? undefined
+        : spec.rest ? (positional.length > spec.positional ? positional.slice(spec.positional) : undefined)
+        : positional[spec.positional]],
+      [variable, env[variable] === "" ? undefined : env[variable]],
+      [configFile ?? "config", config[name]],
+      ["default", spec.default]
+    ];
+    const found = candidates.find(([, value]) => value !== undefined);
+
+    if (!found) {
+      if (!spec.optional) problems.push(`${name} is required: set --${flagName(name)}, ${variable} or "${name}" in a config file`);
+      continue;
+    }
+    try {
+      params[name] = parseParam(spec.type, found[1]);
+    } catch (error: any) {
+      problems.push(`${name} (from ${found[0]}) ${error.message}`);
+    }
+  }
+
+  if (problems.length > 0) {
+    const usage = options.script ? `\nUsage: ${paramUsage(specs)} npx hardhat run ${options.script} --network ethRpcNode` : "";
+    throw new Error(`invalid parameters:\n${problems.map(p => `  - ${p}`).join("\n")}${usage}`);
+  }
+  return params as T;
+}
+
+// The environment variables a script takes, for its usage line
+function paramUsage<T>(specs: ParamSpecs<T>): string {
+  const parts = (Object.entries(specs) as [string, ParamSpec][]).map(([name, spec]) => {
+    const part = `${envName(name, spec)}=${PLACEHOLDERS[spec.type]}`;
+    return spec.optional || spec.default !== undefined ? `[${part}]` : part;
+  });
+  return [...parts, "[CONFIG=<json|yaml file>]"].join(" ");
+}
+
+export {
+  ParamType,
+  ParamSpec,
+  ParamSpecs,
+  LoadParamsOptions,
+  loadScriptParams,
+  readConfigFile,
+  parseParam,
+  paramUsage
+};
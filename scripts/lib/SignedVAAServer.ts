@@ -0,0 +1,141 @@
+import * as http from "http";
+import { ethers } from "ethers";
+import { parseVM } from "./VAA";
+import { SignedVAA, VAAStore, waitFor } from "./VAAStore";
+import { handleVAAStreamRequest } from "./VAAStream";
+
+interface SignedVAAServerOptions {
+  // Longest a request may wait for a VAA with ?wait=<ms>
+  maxWait?: number;
+}
+
+// GET /v1/signed_vaa/{chain}/{emitter}/{sequence}, as served by the guardian public API
+interface SignedVAAResponse {
+  vaaBytes: string;
+}
+
+// One entry of GET /api/v1/vaas/?txHash=<hash>, as served by Wormholescan
+interface TransactionVAA {
+  id: string;
+  version: number;
+  emitterChain: number;
+  emitterAddr: string;
+  sequence: string;
+  guardianSetIndex: number;
+  vaa: string;
+  timestamp: string;
+  txHash: string;
+}
+
+// grpc-gateway error body of the guardian API
+interface ErrorResponse {
+  code: number;
+  message: string;
+  details: unknown[];
+}
+
+const DEFAULT_MAX_WAIT = 60000;
+
+// grpc status codes used in error bodies
+const GRPC_INVALID_ARGUMENT = 3;
+const GRPC_NOT_FOUND = 5;
+
+const SIGNED_VAA_PATH = /^\/v1\/signed_vaa\/(\d+)\/([0-9a-fA-Fx]+)\/(\d+)\/?$/;
+const TRANSACTION_VAAS_PATH = /^\/api\/v1\/vaas\/?$/;
+
+interface SignedVAAServerResult {
+  status: number;
+  body: SignedVAAResponse | { data: TransactionVAA[] } | ErrorResponse;
+}
+
+function errorResult(status: number, code: number, message: string): SignedVAAServerResult {
+  return { status, body: { code, message, details: [] } };
+}
+
+function transactionVAA(signed: SignedVAA): TransactionVAA {
+  const vm = parseVM(signed.vaa);
+  const emitterAddr = signed.emitterAddress.slice(2);
+  return {
+    id: `${signed.emitterChain}/${emitterAddr}/${signed.sequence}`,
+    version: vm.version,
+    emitterChain: signed.emitterChain,
+    emitterAddr,
+    sequence: signed.sequence,
+    guardianSetIndex: vm.guardianSetIndex,
+    vaa: ethers.utils.base64.encode(signed.vaa),
+    timestamp: new Date(vm.timestamp * 1000).toISOString(),
+    txHash: signed.transactionHash.slice(2)
+  };
+}
+
+// Routes a request to the store. Resolves with the status and JSON body to send.
+async function handleSignedVAARequest(
+  store: VAAStore,
+  method: string,
+  rawUrl: string,
+  options: SignedVAAServerOptions = {}
+): Promise<SignedVAAServerResult> {
+  if (method !== "GET") return errorResult(405, GRPC_INVALID_ARGUMENT, `method ${method} not allowed`);
+
+  const url = new URL(rawUrl, "http://localhost");
+  const waitParam = url.searchParams.get("wait") ?? "0";
+  if (!/^\d+$/.test(waitParam)) return errorResult(400, GRPC_INVALID_ARGUMENT, "wait must be a number of milliseconds");
+  const wait = Math.min(Number(waitParam), options.maxWait ?? DEFAULT_MAX_WAIT);
+
+  const signedVAA = url.pathname.match(SIGNED_VAA_PATH);
+  if (signedVAA) {
+    const [, chain, emitter, sequence] = signedVAA;
+    const hex = emitter.startsWith("0x") ? emitter : "0x" + emitter;
+    if (!ethers.utils.isBytesLike(hex) || ethers.utils.hexDataLength(hex) > 32) {
+      return errorResult(400, GRPC_INVALID_ARGUMENT, "invalid emitter address");
+    }
+
+    const found = await waitFor(store, () => store.get(Number(chain), hex, sequence), wait);
+    if (!found) return errorResult(404, GRPC_NOT_FOUND, "requested VAA not found in store");
+    return { status: 200, body: { vaaBytes: ethers.utils.base64.encode(found.vaa) } };
+  }
+
+  if (TRANSACTION_VAAS_PATH.test(url.pathname)) {
+    const txHash = url.searchParams.get("txHash") ?? "";
+    const hash = txHash.startsWith("0x") ? txHash : "0x" + txHash;
+    if (!ethers.utils.isHexString(hash, 32)) return errorResult(400, GRPC_INVALID_ARGUMENT, "txHash must be a 32-byte hex string");
+
+    const lookup = () => {
+      const vaas = store.byTransaction(hash);
+      return vaas.length > 0 ? vaas : undefined;
+    };
+    const found = await waitFor(store, lookup, wait);
+    if (!found) return errorResult(404, GRPC_NOT_FOUND, "no VAAs found for transaction");
+    return { status: 200, body: { data: found.map(transactionVAA) } };
+  }
+
+  return errorResult(404, GRPC_NOT_FOUND, "Not Found");
+}
+
+// HTTP server for the VAAs in `store`, including the NDJSON stream of VAAStream. Call
+// listen() on the result.
+function createSignedVAAServer(store: VAAStore, options: SignedVAAServerOptions = {}): http.Server {
+  return http.createServer((req, res) => {
+    if (req.method === "GET" && handleVAAStreamRequest(store, req, res)) return;
+
+    handleSignedVAARequest(store, req.method ?? "GET", req.url ?? "/", options)
+      .then(({ status, body }) => {
+        res.writeHead(status, { "Content-Type": "application/json", "Access-Control-Allow-Origin": "*" });
+        res.end(JSON.stringify(body));
+      })
+      .catch(error => {
+        res.writeHead(500, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ code: 13, message: error.message, details: [] }));
+      });
+  });
+}
+
+export {
+  SignedVAAServerOptions,
+  SignedVAAResponse,
+  TransactionVAA,
+  ErrorResponse,
+  SignedVAAServerResult,
+  handleSignedVAARequest,
+  createSignedVAAServer
+};
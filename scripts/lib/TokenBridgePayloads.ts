@@ -0,0 +1,207 @@
+import { ethers, BigNumber } from "ethers";
+import { toUint8, toUint16, toUint256, toBytes32, slice } from "./BytesLib";
+
+// Mirrors BridgeStructs.Transfer (payload id 1)
+interface Transfer {
+  payloadID: number;
+  amount: BigNumber;
+  tokenAddress: string;
+  tokenChain: number;
+  to: string;
+  toChain: number;
+  fee: BigNumber;
+}
+
+// Mirrors BridgeStructs.AssetMeta (payload id 2)
+interface AssetMeta {
+  payloadID: number;
+  tokenAddress: string;
+  tokenChain: number;
+  decimals: number;
+  symbol: string;
+  name: string;
+}
+
+// Mirrors BridgeStructs.TransferWithPayload (payload id 3)
+interface TransferWithPayload {
+  payloadID: number;
+  amount: BigNumber;
+  tokenAddress: string;
+  tokenChain: number;
+  to: string;
+  toChain: number;
+  fromAddress: string;
+  payload: string;
+}
+
+const PAYLOAD_ID_TRANSFER = 1;
+const PAYLOAD_ID_ASSET_META = 2;
+const PAYLOAD_ID_TRANSFER_WITH_PAYLOAD = 3;
+
+function encodeTransfer(transfer: Transfer): string {
+  return ethers.utils.solidityPack(
+    ["uint8", "uint256", "bytes32", "uint16", "bytes32", "uint16", "uint256"],
+    [transfer.payloadID, transfer.amount, transfer.tokenAddress, transfer.tokenChain, transfer.to, transfer.toChain, transfer.fee]
+  );
+}
+
+function encodeAssetMeta(meta: AssetMeta): string {
+  return ethers.utils.solidityPack(
+    ["uint8", "bytes32", "uint16", "uint8", "bytes32", "bytes32"],
+    [meta.payloadID, meta.tokenAddress, meta.tokenChain, meta.decimals, meta.symbol, meta.name]
+  );
+}
+
+function encodeTransferWithPayload(transfer: TransferWithPayload): string {
+  return ethers.utils.solidityPack(
+    ["uint8", "uint256", "bytes32", "uint16", "bytes32", "uint16", "bytes32", "bytes"],
+    [
+      transfer.payloadID,
+      transfer.amount,
+      transfer.tokenAddress,
+      transfer.tokenChain,
+      transfer.to,
+      transfer.toChain,
+      transfer.fromAddress,
+      transfer.payload
+    ]
+  );
+}
+
+function parsePayloadID(encoded: ethers.utils.BytesLike): number {
+  return toUint8(ethers.utils.arrayify(encoded), 0);
+}
+
+// TypeScript port of Bridge.parseAssetMeta
+function parseAssetMeta(encoded: ethers.utils.BytesLike): AssetMeta {
+  const bytes = ethers.utils.arrayify(encoded);
+  let index = 0;
+
+  const payloadID = toUint8(bytes, index);
+  index += 1;
+  if (payloadID !== PAYLOAD_ID_ASSET_META) throw new Error("invalid AssetMeta");
+
+  const tokenAddress = toBytes32(bytes, index);
+  index += 32;
+  const tokenChain = toUint16(bytes, index);
+  index += 2;
+  const decimals = toUint8(bytes, index);
+  index += 1;
+  const symbol = toBytes32(bytes, index);
+  index += 32;
+  const name = toBytes32(bytes, index);
+  index += 32;
+
+  if (bytes.length !== index) throw new Error("invalid AssetMeta");
+
+  return { payloadID, tokenAddress, tokenChain, decimals, symbol, name };
+}
+
+// TypeScript port of Bridge.parseTransfer
+function parseTransfer(encoded: ethers.utils.BytesLike): Transfer {
+  const bytes = ethers.utils.arrayify(encoded);
+  let index = 0;
+
+  const payloadID = toUint8(bytes, index);
+  index += 1;
+  if (payloadID !== PAYLOAD_ID_TRANSFER) throw new Error("invalid Transfer");
+
+  const amount = toUint256(bytes, index);
+  index += 32;
+  const tokenAddress = toBytes32(bytes, index);
+  index += 32;
+  const tokenChain = toUint16(bytes, index);
+  index += 2;
+  const to = toBytes32(bytes, index);
+  index += 32;
+  const toChain = toUint16(bytes, index);
+  index += 2;
+  const fee = toUint256(bytes, index);
+  index += 32;
+
+  if (bytes.length !== index) throw new Error("invalid Transfer");
+
+  return { payloadID, amount, tokenAddress, tokenChain, to, toChain, fee };
+}
+
+// TypeScript port of Bridge.parseTransferWithPayload. Unlike parseTransfer there is
+// no length check, the trailing bytes are the arbitrary payload.
+function parseTransferWithPayload(encoded: ethers.utils.BytesLike): TransferWithPayload {
+  const bytes = ethers.utils.arrayify(encoded);
+  let index = 0;
+
+  const payloadID = toUint8(bytes, index);
+  index += 1;
+  if (payloadID !== PAYLOAD_ID_TRANSFER_WITH_PAYLOAD) throw new Error("invalid Transfer");
+
+  const amount = toUint256(bytes, index);
+  index += 32;
+  const tokenAddress = toBytes32(bytes, index);
+  index += 32;
+  const tokenChain = toUint16(bytes, index);
+  index += 2;
+  const to = toBytes32(bytes, index);
+  index += 32;
+  const toChain = toUint16(bytes, index);
+  index += 2;
+  const fromAddress = toBytes32(bytes, index);
+  index += 32;
+  const payload = ethers.utils.hexlify(slice(bytes, index, bytes.length - index));
+
+  return { payloadID, amount, tokenAddress, tokenChain, to, toChain, fromAddress, payload };
+}
+
+// TypeScript port of Bridge._parseTransferCommon: type 1 or type 3 as a Transfer, with a zero fee for type 3
+function parseTransferCommon(encoded: ethers.utils.BytesLike): Transfer {
+  const payloadID = parsePayloadID(encoded);
+
+  if (payloadID === PAYLOAD_ID_TRANSFER) {
+    return parseTransfer(encoded);
+  } else if (payloadID === PAYLOAD_ID_TRANSFER_WITH_PAYLOAD) {
+    const t = parseTransferWithPayload(encoded);
+    return {
+      payloadID: PAYLOAD_ID_TRANSFER_WITH_PAYLOAD,
+      amount: t.amount,
+      tokenAddress: t.tokenAddress,
+      tokenChain: t.tokenChain,
+      to: t.to,
+      toChain: t.toChain,
+      fee: BigNumber.from(0)
+    };
+  }
+  throw new Error("Invalid payload id");
+}
+
+// Bytes of Bridge.bytes32ToString: everything up to the first zero byte. These are not
+// guaranteed to be valid UTF-8 (a name cut at 32 bytes can split a multi-byte character).
+function bytes32ToBytes(input: ethers.utils.BytesLike): Uint8Array {
+  const bytes = ethers.utils.arrayify(input);
+  let i = 0;
+  while (i < 32 && bytes[i] !== 0) {
+    i++;
+  }
+  return bytes.slice(0, i);
+}
+
+function bytes32ToString(input: ethers.utils.BytesLike): string {
+  return ethers.utils.toUtf8String(bytes32ToBytes(input), ethers.utils.Utf8ErrorFuncs.replace);
+}
+
+export {
+  Transfer,
+  AssetMeta,
+  TransferWithPayload,
+  PAYLOAD_ID_TRANSFER,
+  PAYLOAD_ID_ASSET_META,
+  PAYLOAD_ID_TRANSFER_WITH_PAYLOAD,
+  encodeTransfer,
+  encodeAssetMeta,
+  encodeTransferWithPayload,
+  parsePayloadID,
+  parseTransfer,
+  parseAssetMeta,
+  parseTransferWithPayload,
+  parseTransferCommon,
+  bytes32ToBytes,
+  bytes32ToString
+};
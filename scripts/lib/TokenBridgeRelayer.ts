@@ -0,0 +1,112 @@
+import { ethers } from "ethers";
+import { PAYLOAD_ID_TRANSFER, parsePayloadID, parseTransfer } from "./TokenBridgePayloads";
+import { RelayLog, RelayRecord, createRelayLog } from "./RelayLog";
+import { createRelayPipeline } from "./RelayPipeline";
+import { RetryOptions } from "./Retry";
+
+// When a WETH transfer is redeemed as native ETH: "auto" for recipients without code, since
+// completeTransferAndUnwrapETH pays out with a 2300 gas transfer most contracts reject
+type UnwrapPolicy = "auto" | "always" | "never";
+
+interface TokenBridgeRelayerOptions {
+  // Token bridge (proxy) on the chain transfers are redeemed on
+  tokenBridge: string;
+  // The relayer account: sends the redemptions and so receives their arbiter fees
+  signer: ethers.Signer;
+  log?: RelayLog;
+  unwrapWETH?: UnwrapPolicy;
+  retry?: RetryOptions;
+  // Called with the final record of every VAA handled
+  onRelayed?: (record: RelayRecord) => void;
+}
+
+interface TokenBridgeRelayer {
+  chainId: number;
+  weth: string;
+  // Address the arbiter fees are paid to
+  account: string;
+  log: RelayLog;
+  // Redeems the transfer in `vaa` (hex) unless it is done already or not ours to redeem.
+  // VAAs are handled one at a time in the order given.
+  relay(vaa: string): Promise<RelayRecord>;
+  // Resolves once every VAA given so far is handled
+  idle(): Promise<void>;
+}
+
+const TokenBridgeRelayerABI = new ethers.utils.Interface([
+  "function chainId() view returns (uint16)",
+  "function WETH() view returns (address)",
+  "function bridgeContracts(uint16 chainId) view returns (bytes32)",
+  "function isTransferCompleted(bytes32 hash) view returns (bool)",
+  "function completeTransfer(bytes encodedVm)",
+  "function completeTransferAndUnwrapETH(bytes encodedVm)"
+]);
+
+async function createTokenBridgeRelayer(options: TokenBridgeRelayerOptions): Promise<TokenBridgeRelayer> {
+  const { signer } = options;
+  if (!signer.provider) throw new Error("relayer signer must be connected to a provider");
+  const provider = signer.provider;
+
+  const bridge = new ethers.Contract(options.tokenBridge, TokenBridgeRelayerABI, signer);
+  const chainId: number = await bridge.chainId();
+  const weth: string = await bridge.WETH();
+  const account = await signer.getAddress();
+  const log = options.log ?? createRelayLog();
+  const policy = options.unwrapWETH ?? "auto";
+
+  const wantsNativeETH = async (recipient: string) => {
+    if (policy !== "auto") return policy === "always";
+    return (await provider.getCode(recipient)) === "0x";
+  };
+
+  const pipeline = createRelayPipeline({
+    bridge,
+    bridgeName: "token bridge",
+    log,
+    retry: options.retry,
+    onRecord: options.onRelayed,
+    check(vm) {
+      const payloadID = parsePayloadID(vm.payload);
+      if (payloadID !== PAYLOAD_ID_TRANSFER) return `payload ${payloadID} is not a transfer`;
+      const transfer = parseTransfer(vm.payload);
+      if (transfer.toChain !== chainId) return `transfer is for chain ${transfer.toChain}`;
+      return undefined;
+    },
+    async target(vm) {
+      const transfer = parseTransfer(vm.payload);
+      const recipient = ethers.utils.getAddress(ethers.utils.hexDataSlice(transfer.to, 12));
+      const isWETH = transfer.tokenChain === chainId && transfer.tokenAddress.toLowerCase() === ethers.utils.hexZeroPad(weth, 32).toLowerCase();
+      const method = isWETH && (await wantsNativeETH(recipient)) ? "completeTransferAndUnwrapETH" : "completeTransfer";
+      return {
+        contract: bridge,
+        method,
+        details: {
+          method,
+          recipient,
+          tokenChain: transfer.tokenChain,
+          tokenAddress: transfer.tokenAddress,
+          amount: transfer.amount.toString(),
+          // In the payload's 8 decimals; nothing is paid when the relayer is the recipient
+          fee: recipient === account ? "0" : transfer.fee.toString()
+        }
+      };
+    }
+  });
+
+  return {
+    chainId,
+    weth,
+    account,
+    log,
+    relay: pipeline.relay,
+    idle: pipeline.idle
+  };
+}
+
+export {
+  UnwrapPolicy,
+  TokenBridgeRelayerOptions,
+  TokenBridgeRelayer,
+  TokenBridgeRelayerABI,
+  createTokenBridgeRelayer
+};
@@ -0,0 +1,212 @@
+import { ethers, BigNumber, BigNumberish } from "ethers";
+import { toUint8, toUint16, toUint32, toUint64, toBytes32, slice } from "./BytesLib";
+
+// Mirrors IWormhole.Signature. `v` is stored the way Messages.parseVM returns it (27/28),
+// the encoded VM carries the raw recovery id (0/1).
+interface Signature {
+  r: string;
+  s: string;
+  v: number;
+  guardianIndex: number;
+}
+
+// The signed part of a VM, everything after the signatures
+interface VMBody {
+  timestamp: number;
+  nonce: number;
+  emitterChainId: number;
+  emitterAddress: string;
+  sequence: BigNumberish;
+  consistencyLevel: number;
+  payload: string;
+}
+
+// Mirrors IWormhole.VM
+interface VM extends VMBody {
+  version: number;
+  sequence: BigNumber;
+  guardianSetIndex: number;
+  signatures: Signature[];
+  hash: string;
+}
+
+interface EncodeVMParams extends VMBody {
+  version?: number;
+  guardianSetIndex: number;
+  signatures: Signature[];
+}
+
+const VM_VERSION = 1;
+
+// Guardian keys show up both as decimal strings (Foundry style uint256) and as hex
+function guardianPrivateKey(key: BigNumberish): string {
+  return ethers.utils.hexZeroPad(BigNumber.from(key).toHexString(), 32);
+}
+
+function encodeVMBody(body: VMBody): string {
+  return ethers.utils.solidityPack(
+    ["uint32", "uint32", "uint16", "bytes32", "uint64", "uint8", "bytes"],
+    [body.timestamp, body.nonce, body.emitterChainId, body.emitterAddress, body.sequence, body.consistencyLevel, body.payload]
+  );
+}
+
+// keccak256(keccak256(body)) for an already encoded body
+function hashEncodedVMBody(encodedBody: ethers.utils.BytesLike): string {
+  return ethers.utils.keccak256(ethers.utils.keccak256(encodedBody));
+}
+
+// keccak256(abi.encodePacked(keccak256(body))) - the digest guardians sign and VM.hash
+function hashVMBody(body: VMBody): string {
+  return hashEncodedVMBody(encodeVMBody(body));
+}
+
+// Signs a digest directly (no EIP-191 prefix), which is what ecrecover in verifySignatures expects.
+// Guardian indices default to the position of each key in `guardianKeys`.
+function signHash(hash: string, guardianKeys: BigNumberish[], guardianIndices?: number[]): Signature[] {
+  return guardianKeys.map((key, i) => {
+    const sig = new ethers.utils.SigningKey(guardianPrivateKey(key)).signDigest(hash);
+    return {
+      r: sig.r,
+      s: sig.s,
+      v: sig.v,
+      guardianIndex: guardianIndices ? guardianIndices[i] : i
+    };
+  });
+}
+
+function signVMBody(body: VMBody, guardianKeys: BigNumberish[], guardianIndices?: number[]): Signature[] {
+  return signHash(hashVMBody(body), guardianKeys, guardianIndices);
+}
+
+// Signature count followed by [guardianIndex, r, s, v - 27] per signature
+function encodeSignatures(signatures: Signature[]): string {
+  let encoded = ethers.utils.solidityPack(["uint8"], [signatures.length]);
+
+  for (const sig of signatures) {
+    encoded = ethers.utils.solidityPack(
+      ["bytes", "uint8", "bytes32", "bytes32", "uint8"],
+      [encoded, sig.guardianIndex, sig.r, sig.s, sig.v >= 27 ? sig.v - 27 : sig.v]
+    );
+  }
+
+  return encoded;
+}
+
+// Reads what encodeSignatures wrote starting at `index`, returning the index after the last signature
+function readSignatures(bytes: Uint8Array, index: number): { signatures: Signature[]; index: number } {
+  const signersLen = toUint8(bytes, index);
+  index += 1;
+
+  const signatures: Signature[] = [];
+  for (let i = 0; i < signersLen; i++) {
+    const guardianIndex = toUint8(bytes, index);
+    index += 1;
+    const r = toBytes32(bytes, index);
+    index += 32;
+    const s = toBytes32(bytes, index);
+    index += 32;
+    const v = toUint8(bytes, index) + 27;
+    index += 1;
+    signatures.push({ r, s, v, guardianIndex });
+  }
+
+  return { signatures, index };
+}
+
+function encodeVM(vm: EncodeVMParams): string {
+  return ethers.utils.solidityPack(
+    ["uint8", "uint32", "bytes", "bytes"],
+    [vm.version ?? VM_VERSION, vm.guardianSetIndex, encodeSignatures(vm.signatures), encodeVMBody(vm)]
+  );
+}
+
+function signAndEncodeVM(
+  body: VMBody,
+  guardianKeys: BigNumberish[],
+  guardianSetIndex: number,
+  guardianIndices?: number[]
+): string {
+  return encodeVM({
+    ...body,
+    guardianSetIndex,
+    signatures: signVMBody(body, guardianKeys, guardianIndices)
+  });
+}
+
+// Decodes the signed part of a VM. `encoded` is kept so callers can hash the exact bytes.
+function parseVMBody(encodedBody: ethers.utils.BytesLike): VMBody & { sequence: BigNumber; encoded: string } {
+  const bytes = ethers.utils.arrayify(encodedBody);
+  let index = 0;
+
+  const timestamp = toUint32(bytes, index);
+  index += 4;
+  const nonce = toUint32(bytes, index);
+  index += 4;
+  const emitterChainId = toUint16(bytes, index);
+  index += 2;
+  const emitterAddress = toBytes32(bytes, index);
+  index += 32;
+  const sequence = toUint64(bytes, index);
+  index += 8;
+  const consistencyLevel = toUint8(bytes, index);
+  index += 1;
+  const payload = ethers.utils.hexlify(slice(bytes, index, bytes.length - index));
+
+  return {
+    timestamp,
+    nonce,
+    emitterChainId,
+    emitterAddress,
+    sequence,
+    consistencyLevel,
+    payload,
+    encoded: ethers.utils.hexlify(bytes)
+  };
+}
+
+// TypeScript port of Messages.parseVM - performs no verification
+function parseVM(encodedVM: ethers.utils.BytesLike): VM {
+  const bytes = ethers.utils.arrayify(encodedVM);
+  let index = 0;
+
+  const version = toUint8(bytes, index);
+  index += 1;
+  if (version !== VM_VERSION) throw new Error("VM version incompatible");
+
+  const guardianSetIndex = toUint32(bytes, index);
+  index += 4;
+
+  const read = readSignatures(bytes, index);
+  const signatures = read.signatures;
+  index = read.index;
+
+  const { encoded, ...body } = parseVMBody(slice(bytes, index, bytes.length - index));
+
+  return {
+    version,
+    ...body,
+    guardianSetIndex,
+    signatures,
+    hash: hashEncodedVMBody(encoded)
+  };
+}
+
+export {
+  Signature,
+  VMBody,
+  VM,
+  EncodeVMParams,
+  VM_VERSION,
+  guardianPrivateKey,
+  encodeVMBody,
+  hashVMBody,
+  hashEncodedVMBody,
+  signHash,
+  signVMBody,
+  encodeSignatures,
+  readSignatures,
+  encodeVM,
+  signAndEncodeVM,
+  parseVM,
+  parseVMBody
+};
@@ -0,0 +1,275 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as yaml from "js-yaml";
+import { ethers, BigNumber } from "ethers";
+import { Signature, VMBody, encodeVM, hashVMBody, signHash } from "./VAA";
+import { DEV_GUARDIAN_KEY } from "./GuardianSigner";
+import * as TokenBridge from "./TokenBridgePayloads";
+import * as NFTBridge from "./NFTBridgePayloads";
+import * as Governance from "./GovernancePayloads";
+
+// One signature of a fixture. A bare string is shorthand for { guardian: <alias> }.
+interface FixtureSignature {
+  guardian: string;
+  // Guardian index written into the VAA, defaults to the signature's position
+  index?: number;
+  // Sign this digest instead of the VM hash (a signature over the wrong message)
+  digest?: string;
+  // Flip the last byte of r or s after signing
+  flip?: "r" | "s";
+  // Replace s with n - s and flip v: the malleated twin of a valid signature
+  highS?: boolean;
+  // Raw recovery byte to write into the VAA instead of the real one (normally 0 or 1)
+  v?: number;
+}
+
+// Amounts and token IDs may be given as decimal strings, past what a JSON number holds
+type FixtureUint = number | string;
+
+// Payload fields are the codec struct fields; bytes32 values may be given as shorter hex
+// (left-padded) and token names/symbols as plain text.
+type FixturePayload =
+  | { type: "Raw"; bytes?: string }
+  | { type: "TokenBridge.Transfer"; amount: FixtureUint; tokenAddress: string; tokenChain: number; to: string; toChain: number; fee?: FixtureUint }
+  | { type: "TokenBridge.AssetMeta"; tokenAddress: string; tokenChain: number; decimals: number; symbol: string; name: string }
+  | {
+      type: "TokenBridge.TransferWithPayload";
+      amount: FixtureUint;
+      tokenAddress: string;
+      tokenChain: number;
+      to: string;
+      toChain: number;
+      fromAddress: string;
+      payload?: string;
+    }
+  | {
+      type: "NFTBridge.Transfer";
+      tokenAddress: string;
+      tokenChain: number;
+      symbol: string;
+      name: string;
+      tokenID: FixtureUint;
+      uri?: string;
+      to: string;
+      toChain: number;
+    }
+  | ({ type: "CoreGovernance.ContractUpgrade" } & Governance.ContractUpgradeParams)
+  | ({ type: "CoreGovernance.GuardianSetUpgrade" } & Governance.GuardianSetUpgradeParams)
+  | ({ type: "CoreGovernance.SetMessageFee" } & Governance.SetMessageFeeParams)
+  | ({ type: "CoreGovernance.TransferFees" } & Governance.TransferFeesParams)
+  | ({ type: "CoreGovernance.RecoverChainId" } & Governance.RecoverChainIdParams)
+  | ({ type: "TokenBridgeGovernance.RegisterChain" | "NFTBridgeGovernance.RegisterChain" } & Governance.RegisterChainParams)
+  | ({ type: "TokenBridgeGovernance.UpgradeContract" | "NFTBridgeGovernance.UpgradeContract" } & Governance.UpgradeContractParams)
+  | ({ type: "TokenBridgeGovernance.RecoverChainId" | "NFTBridgeGovernance.RecoverChainId" } & Omit<Governance.RecoverChainIdParams, "module">);
+
+interface VAAFixture {
+  description?: string;
+  version?: number;
+  guardianSetIndex?: number;
+  signatures: (string | FixtureSignature)[];
+  body: Omit<VMBody, "payload">;
+  payload: FixturePayload;
+  // What Messages.parseAndVerifyVM should make of the VAA, used by data-driven tests
+  expect?: { valid?: boolean; reason?: string; revert?: string };
+}
+
+interface FixtureFile {
+  // Guardian key aliases, decimal or hex private keys
+  keys?: { [alias: string]: string };
+  fixtures: { [name: string]: VAAFixture };
+}
+
+interface LoadedFixture extends VAAFixture {
+  name: string;
+  file: string;
+  keys: { [alias: string]: string };
+}
+
+// Keys every fixture can use without declaring them
+const DEFAULT_GUARDIAN_KEYS: { [alias: string]: string } = {
+  test: DEV_GUARDIAN_KEY
+};
+
+const DEFAULT_FIXTURE_DIR = path.resolve(__dirname, "../../test/fixtures/vaa");
+
+const SECP256K1_N = BigNumber.from("0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141");
+
+function bytes32(value: string): string {
+  return ethers.utils.hexZeroPad(value, 32);
+}
+
+// Token names and symbols: hex is taken as is, text is right-padded like Solidity bytes32
+function bytes32Text(value: string): string {
+  return ethers.utils.isHexString(value) ? bytes32(value) : ethers.utils.formatBytes32String(value);
+}
+
+function bridgeModule(type: string): string {
+  return type.startsWith("TokenBridge") ? Governance.TOKEN_BRIDGE_MODULE : Governance.NFT_BRIDGE_MODULE;
+}
+
+function encodeFixturePayload(payload: FixturePayload): string {
+  const p = payload;
+  switch (p.type) {
+    case "Raw":
+      return ethers.utils.hexlify(p.bytes ?? "0x");
+    case "TokenBridge.Transfer":
+      return TokenBridge.encodeTransfer({
+        payloadID: TokenBridge.PAYLOAD_ID_TRANSFER,
+        amount: BigNumber.from(p.amount),
+        tokenAddress: bytes32(p.tokenAddress),
+        tokenChain: p.tokenChain,
+        to: bytes32(p.to),
+        toChain: p.toChain,
+        fee: BigNumber.from(p.fee ?? 0)
+      });
+    case "TokenBridge.AssetMeta":
+      return TokenBridge.encodeAssetMeta({
+        payloadID: TokenBridge.PAYLOAD_ID_ASSET_META,
+        tokenAddress: bytes32(p.tokenAddress),
+        tokenChain: p.tokenChain,
+        decimals: p.decimals,
+        symbol: bytes32Text(p.symbol),
+        name: bytes32Text(p.name)
+      });
+    case "TokenBridge.TransferWithPayload":
+      return TokenBridge.encodeTransferWithPayload({
+        payloadID: TokenBridge.PAYLOAD_ID_TRANSFER_WITH_PAYLOAD,
+        amount: BigNumber.from(p.amount),
+        tokenAddress: bytes32(p.tokenAddress),
+        tokenChain: p.tokenChain,
+        to: bytes32(p.to),
+        toChain: p.toChain,
+        fromAddress: bytes32(p.fromAddress),
+        payload: p.payload ?? "0x"
+      });
+    case "NFTBridge.Transfer":
+      return NFTBridge.encodeTransfer({
+        tokenAddress: bytes32(p.tokenAddress),
+        tokenChain: p.tokenChain,
+        symbol: bytes32Text(p.symbol),
+        name: bytes32Text(p.name),
+        tokenID: BigNumber.from(p.tokenID),
+        uri: p.uri ?? "",
+        to: bytes32(p.to),
+        toChain: p.toChain
+      });
+    case "CoreGovernance.ContractUpgrade":
+      return Governance.encodeContractUpgrade({ module: p.module, chain: p.chain, newContract: p.newContract });
+    case "CoreGovernance.GuardianSetUpgrade":
+      return Governance.encodeGuardianSetUpgrade({ module: p.module, chain: p.chain, newGuardianSetIndex: p.newGuardianSetIndex, keys: p.keys });
+    case "CoreGovernance.SetMessageFee":
+      return Governance.encodeSetMessageFee({ module: p.module, chain: p.chain, messageFee: p.messageFee });
+    case "CoreGovernance.TransferFees":
+      return Governance.encodeTransferFees({ module: p.module, chain: p.chain, amount: p.amount, recipient: p.recipient });
+    case "CoreGovernance.RecoverChainId":
+      return Governance.encodeCoreRecoverChainId({ module: p.module, evmChainId: p.evmChainId, newChainId: p.newChainId });
+    case "TokenBridgeGovernance.RegisterChain":
+    case "NFTBridgeGovernance.RegisterChain":
+      return Governance.encodeRegisterChain(bridgeModule(p.type), { chainId: p.chainId, emitterChainID: p.emitterChainID, emitterAddress: p.emitterAddress });
+    case "TokenBridgeGovernance.UpgradeContract":
+    case "NFTBridgeGovernance.UpgradeContract":
+      return Governance.encodeUpgradeContract(bridgeModule(p.type), { chainId: p.chainId, newContract: p.newContract });
+    case "TokenBridgeGovernance.RecoverChainId":
+    case "NFTBridgeGovernance.RecoverChainId":
+      return Governance.encodeBridgeRecoverChainId(bridgeModule(p.type), { evmChainId: p.evmChainId, newChainId: p.newChainId });
+  }
+
+  // Fixtures come from JSON and YAML, so the type is only checked here
+  throw new Error(`unknown payload type ${payload.type}`);
+}
+
+function fixtureSignature(
+  spec: string | FixtureSignature,
+  position: number,
+  hash: string,
+  keys: { [alias: string]: string }
+): Signature {
+  const s = typeof spec === "string" ? { guardian: spec } : spec;
+  const key = keys[s.guardian];
+  if (key === undefined) throw new Error(`unknown guardian key alias ${s.guardian}`);
+
+  const sig = signHash(s.digest ?? hash, [key], [s.index ?? position])[0];
+
+  if (s.highS) {
+    sig.s = bytes32(SECP256K1_N.sub(sig.s).toHexString());
+    sig.v = sig.v === 27 ? 28 : 27;
+  }
+  if (s.flip) {
+    const bytes = ethers.utils.arrayify(sig[s.flip]);
+    bytes[31] ^= 0xff;
+    sig[s.flip] = ethers.utils.hexlify(bytes);
+  }
+  if (s.v !== undefined) sig.v = s.v + 27;
+
+  return sig;
+}
+
+// Turns a fixture into the signed VAA it describes
+function generateVAA(fixture: VAAFixture, keys: { [alias: string]: string } = DEFAULT_GUARDIAN_KEYS): string {
+  const body: VMBody = {
+    ...fixture.body,
+    emitterAddress: bytes32(fixture.body.emitterAddress),
+    payload: encodeFixturePayload(fixture.payload)
+  };
+  const hash = hashVMBody(body);
+
+  return encodeVM({
+    ...body,
+    version: fixture.version,
+    guardianSetIndex: fixture.guardianSetIndex ?? 0,
+    signatures: fixture.signatures.map((spec, i) => fixtureSignature(spec, i, hash, keys))
+  });
+}
+
+function parseFixtureFile(file: string): FixtureFile {
+  const contents = fs.readFileSync(file, "utf8");
+  return (file.endsWith(".json") ? JSON.parse(contents) : yaml.load(contents)) as FixtureFile;
+}
+
+// Loads every .json/.yaml/.yml fixture file in `dir`. Fixture names must be unique across files.
+function loadVAAFixtures(dir: string = DEFAULT_FIXTURE_DIR): Map<string, LoadedFixture> {
+  const fixtures = new Map<string, LoadedFixture>();
+
+  const files = fs.readdirSync(dir).filter(f => /\.(json|ya?ml)$/.test(f)).sort();
+  for (const f of files) {
+    const file = path.join(dir, f);
+    const parsed = parseFixtureFile(file);
+    const keys = { ...DEFAULT_GUARDIAN_KEYS, ...(parsed.keys ?? {}) };
+
+    for (const [name, fixture] of Object.entries(parsed.fixtures ?? {})) {
+      if (fixtures.has(name)) throw new Error(`duplicate VAA fixture ${name} in ${f}`);
+      fixtures.set(name, { ...fixture, name, file, keys });
+    }
+  }
+
+  return fixtures;
+}
+
+const cache = new Map<string, Map<string, LoadedFixture>>();
+
+// Signed hex of the fixture called `name`
+function vaaFixture(name: string, dir: string = DEFAULT_FIXTURE_DIR): string {
+  let fixtures = cache.get(dir);
+  if (!fixtures) {
+    fixtures = loadVAAFixtures(dir);
+    cache.set(dir, fixtures);
+  }
+
+  const fixture = fixtures.get(name);
+  if (!fixture) throw new Error(`unknown VAA fixture ${name}`);
+  return generateVAA(fixture, fixture.keys);
+}
+
+export {
+  FixtureSignature,
+  FixturePayload,
+  VAAFixture,
+  FixtureFile,
+  LoadedFixture,
+  DEFAULT_GUARDIAN_KEYS,
+  DEFAULT_FIXTURE_DIR,
+  encodeFixturePayload,
+  generateVAA,
+  loadVAAFixtures,
+  vaaFixture
+};
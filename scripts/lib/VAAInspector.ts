@@ -0,0 +1,184 @@
+import { ethers, BigNumber } from "ethers";
+import { VM, parseVM } from "./VAA";
+import * as TokenBridge from "./TokenBridgePayloads";
+import * as NFTBridge from "./NFTBridgePayloads";
+import * as Governance from "./GovernancePayloads";
+
+interface InspectedSignature {
+  guardianIndex: number;
+  r: string;
+  s: string;
+  v: number;
+  recoveredAddress: string | null;
+  // Key at guardianIndex in the on-chain guardian set, null when no set was available
+  expectedAddress: string | null;
+  matchesGuardianSet: boolean | null;
+}
+
+// What a decoded payload becomes: JSON-ready values, BigNumbers as decimal strings
+type PlainValue = string | number | boolean | null | undefined | PlainValue[] | { [field: string]: PlainValue };
+
+interface InspectedPayload {
+  type: string;
+  raw: string;
+  decoded?: PlainValue;
+  error?: string;
+}
+
+interface InspectedVAA {
+  version: number;
+  guardianSetIndex: number;
+  guardianSet: string[] | null;
+  signatures: InspectedSignature[];
+  timestamp: number;
+  nonce: number;
+  emitterChainId: number;
+  emitterAddress: string;
+  sequence: string;
+  consistencyLevel: number;
+  digest: string;
+  payload: InspectedPayload;
+}
+
+// Accepts 0x-prefixed hex, bare hex or base64 (what guardian REST APIs return)
+function decodeVAAInput(input: string): Uint8Array {
+  const trimmed = input.trim();
+  if (ethers.utils.isHexString(trimmed)) return ethers.utils.arrayify(trimmed);
+  if (/^([0-9a-fA-F]{2})+$/.test(trimmed)) return ethers.utils.arrayify("0x" + trimmed);
+  if (/^[A-Za-z0-9+/]+={0,2}$/.test(trimmed)) return ethers.utils.base64.decode(trimmed);
+  throw new Error("VAA must be hex or base64");
+}
+
+// BigNumbers as decimal strings so the result survives JSON.stringify readably
+function plain(value: unknown): PlainValue {
+  if (BigNumber.isBigNumber(value)) return value.toString();
+  if (Array.isArray(value)) return value.map(plain);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, plain(v)]));
+  }
+  if (value === null || value === undefined || ["string", "number", "boolean"].includes(typeof value)) {
+    return value as PlainValue;
+  }
+  return String(value);
+}
+
+function tryDecode(type: string, raw: string, decode: () => unknown): InspectedPayload {
+  try {
+    return { type, raw, decoded: plain(decode()) };
+  } catch (error: any) {
+    return { type, raw, error: error.message };
+  }
+}
+
+function governancePayload(module: string, raw: string): InspectedPayload {
+  const action = ethers.utils.arrayify(raw)[32];
+
+  if (module === Governance.CORE_MODULE) {
+    switch (action) {
+      case Governance.CORE_ACTION_CONTRACT_UPGRADE:
+        return tryDecode("CoreGovernance.ContractUpgrade", raw, () => Governance.parseContractUpgrade(raw));
+      case Governance.CORE_ACTION_GUARDIAN_SET_UPGRADE:
+        return tryDecode("CoreGovernance.GuardianSetUpgrade", raw, () => Governance.parseGuardianSetUpgrade(raw));
+      case Governance.CORE_ACTION_SET_MESSAGE_FEE:
+        return tryDecode("CoreGovernance.SetMessageFee", raw, () => Governance.parseSetMessageFee(raw));
+      case Governance.CORE_ACTION_TRANSFER_FEES:
+        return tryDecode("CoreGovernance.TransferFees", raw, () => Governance.parseTransferFees(raw));
+      case Governance.CORE_ACTION_RECOVER_CHAIN_ID:
+        return tryDecode("CoreGovernance.RecoverChainId", raw, () => Governance.parseCoreRecoverChainId(raw));
+    }
+    return { type: "CoreGovernance", raw, error: `unknown action ${action}` };
+  }
+
+  const prefix = module === Governance.TOKEN_BRIDGE_MODULE ? "TokenBridgeGovernance" : "NFTBridgeGovernance";
+  switch (action) {
+    case Governance.BRIDGE_ACTION_REGISTER_CHAIN:
+      return tryDecode(`${prefix}.RegisterChain`, raw, () => Governance.parseRegisterChain(module, raw));
+    case Governance.BRIDGE_ACTION_UPGRADE_CONTRACT:
+      return tryDecode(`${prefix}.UpgradeContract`, raw, () => Governance.parseUpgrade(module, raw));
+    case Governance.BRIDGE_ACTION_RECOVER_CHAIN_ID:
+      return tryDecode(`${prefix}.RecoverChainId`, raw, () => Governance.parseBridgeRecoverChainId(module, raw));
+  }
+  return { type: prefix, raw, error: `unknown action ${action}` };
+}
+
+// Governance payloads are recognised by their module, everything else by payload id and
+// length. Token bridge transfers are exactly 133 bytes, which NFT transfers never are.
+function detectPayload(payload: ethers.utils.BytesLike): InspectedPayload {
+  const bytes = ethers.utils.arrayify(payload);
+  const raw = ethers.utils.hexlify(bytes);
+
+  if (bytes.length >= 33) {
+    const module = ethers.utils.hexlify(bytes.slice(0, 32));
+    if ([Governance.CORE_MODULE, Governance.TOKEN_BRIDGE_MODULE, Governance.NFT_BRIDGE_MODULE].includes(module)) {
+      return governancePayload(module, raw);
+    }
+  }
+
+  switch (bytes[0]) {
+    case TokenBridge.PAYLOAD_ID_TRANSFER:
+      if (bytes.length === 133) return tryDecode("TokenBridge.Transfer", raw, () => TokenBridge.parseTransfer(raw));
+      return tryDecode("NFTBridge.Transfer", raw, () => NFTBridge.parseTransfer(raw));
+    case TokenBridge.PAYLOAD_ID_ASSET_META:
+      return tryDecode("TokenBridge.AssetMeta", raw, () => {
+        const meta = TokenBridge.parseAssetMeta(raw);
+        return { ...meta, symbolString: TokenBridge.bytes32ToString(meta.symbol), nameString: TokenBridge.bytes32ToString(meta.name) };
+      });
+    case TokenBridge.PAYLOAD_ID_TRANSFER_WITH_PAYLOAD:
+      return tryDecode("TokenBridge.TransferWithPayload", raw, () => TokenBridge.parseTransferWithPayload(raw));
+  }
+
+  return { type: "Raw", raw };
+}
+
+function recoverSigner(digest: string, sig: { r: string; s: string; v: number }): string | null {
+  try {
+    return ethers.utils.recoverAddress(digest, { r: sig.r, s: sig.s, v: sig.v });
+  } catch {
+    return null;
+  }
+}
+
+// Decodes a VAA and annotates it. `guardianSet` is getGuardianSet(vm.guardianSetIndex).keys,
+// or undefined when no node is available to compare against.
+function inspectVAA(encoded: ethers.utils.BytesLike, guardianSet?: string[]): InspectedVAA {
+  const vm: VM = parseVM(encoded);
+
+  const signatures = vm.signatures.map(sig => {
+    const recoveredAddress = recoverSigner(vm.hash, sig);
+    const expectedAddress = guardianSet ? guardianSet[sig.guardianIndex] ?? null : null;
+    return {
+      guardianIndex: sig.guardianIndex,
+      r: sig.r,
+      s: sig.s,
+      v: sig.v,
+      recoveredAddress,
+      expectedAddress,
+      matchesGuardianSet: guardianSet ? expectedAddress !== null && recoveredAddress === expectedAddress : null
+    };
+  });
+
+  return {
+    version: vm.version,
+    guardianSetIndex: vm.guardianSetIndex,
+    guardianSet: guardianSet ?? null,
+    signatures,
+    timestamp: vm.timestamp,
+    nonce: vm.nonce,
+    emitterChainId: vm.emitterChainId,
+    emitterAddress: vm.emitterAddress,
+    sequence: vm.sequence.toString(),
+    consistencyLevel: vm.consistencyLevel,
+    digest: vm.hash,
+    payload: detectPayload(vm.payload)
+  };
+}
+
+export {
+  PlainValue,
+  InspectedSignature,
+  InspectedPayload,
+  InspectedVAA,
+  decodeVAAInput,
+  detectPayload,
+  inspectVAA
+};
@@ -0,0 +1,77 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ethers } from "ethers";
+import { parseVM } from "./VAA";
+import { RegisterChain, parseRegisterChain } from "./GovernancePayloads";
+import { decodeVAAInput } from "./VAAInspector";
+
+// Splits a file or env var into individual VAAs: one per line, or separated by commas/whitespace
+function splitVAAs(text: string): string[] {
+  return text.split(/[\s,]+/).filter(s => s.length > 0);
+}
+
+// Whether `source` names a file rather than a literal VAA. Hex has no dots or slashes; base64
+// has no dots, comes in groups of 4 characters and, starting with the version byte, never
+// begins with a slash.
+function isPathLike(source: string): boolean {
+  if (source.includes(".") || source.startsWith("/")) return true;
+  return source.includes("/") && !(source.length % 4 === 0 && /^[A-Za-z0-9+/]+={0,2}$/.test(source));
+}
+
+// Resolves each source to 0x-prefixed hex VAAs. A source is a directory (every non-hidden
+// file in it, sorted by name), a file (one or more VAAs) or a literal hex/base64 VAA. A
+// path-like source that does not exist is an error rather than a VAA to decode.
+function readVAASources(sources: string[]): string[] {
+  const vaas: string[] = [];
+
+  for (const source of sources) {
+    if (fs.existsSync(source) && fs.statSync(source).isDirectory()) {
+      const files = fs.readdirSync(source).filter(f => !f.startsWith(".")).sort();
+      for (const f of files) {
+        const file = path.join(source, f);
+        if (fs.statSync(file).isFile()) vaas.push(...readVAASources([file]));
+      }
+    } else if (fs.existsSync(source)) {
+      for (const vaa of splitVAAs(fs.readFileSync(source, "utf8"))) {
+        vaas.push(toHex(vaa, source));
+      }
+    } else if (isPathLike(source)) {
+      throw new Error(`${source}: no such file or directory`);
+    } else {
+      vaas.push(toHex(source, "argument"));
+    }
+  }
+
+  return vaas;
+}
+
+function toHex(vaa: string, origin: string): string {
+  try {
+    return ethers.utils.hexlify(decodeVAAInput(vaa));
+  } catch (error: any) {
+    throw new Error(`${origin}: ${error.message}`);
+  }
+}
+
+// VAA sources from an env var, e.g. REGISTRATION_VAAS="./vaas,0x01..."
+function vaaSourcesFromEnv(name: string): string[] {
+  const value = process.env[name];
+  return value ? splitVAAs(value) : [];
+}
+
+// Decodes `vaa` and checks it carries a RegisterChain for `module` (TOKEN_BRIDGE_MODULE or
+// NFT_BRIDGE_MODULE), so a wrong VAA fails here instead of with an opaque revert
+function checkRegisterChainVAA(vaa: string, module: string): RegisterChain {
+  const vm = parseVM(vaa);
+  try {
+    return parseRegisterChain(module, vm.payload);
+  } catch (error: any) {
+    throw new Error(`not a RegisterChain VAA for module ${module} (${error.message}), emitter ${vm.emitterChainId}/${vm.emitterAddress} sequence ${vm.sequence}`);
+  }
+}
+
+export {
+  readVAASources,
+  vaaSourcesFromEnv,
+  checkRegisterChainVAA
+};
@@ -0,0 +1,113 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ethers, BigNumberish } from "ethers";
+
+// A VAA signed by the mock guardian, with where its message was published
+interface SignedVAA {
+  emitterChain: number;
+  // 32-byte emitter address, 0x-prefixed lowercase hex
+  emitterAddress: string;
+  // Decimal string, sequences are uint64
+  sequence: string;
+  transactionHash: string;
+  blockNumber: number;
+  vaa: string;
+}
+
+interface VAAStore {
+  // Stores `signed`, replacing an earlier VAA for the same message
+  put(signed: SignedVAA): void;
+  get(emitterChain: number, emitterAddress: string, sequence: BigNumberish): SignedVAA | undefined;
+  // VAAs of every message published in a transaction, in sequence order
+  byTransaction(transactionHash: string): SignedVAA[];
+  all(): SignedVAA[];
+  // Calls `listener` with every VAA put from now on; returns the unsubscribe function
+  subscribe(listener: (signed: SignedVAA) => void): () => void;
+}
+
+// The id the Wormhole guardian API uses: <chain>/<emitter as 64 hex chars>/<sequence>
+function vaaId(emitterChain: number, emitterAddress: string, sequence: BigNumberish): string {
+  const emitter = ethers.utils.hexZeroPad(emitterAddress, 32).slice(2).toLowerCase();
+  return `${emitterChain}/${emitter}/${ethers.BigNumber.from(sequence).toString()}`;
+}
+
+// In-memory store. With `file`, VAAs already in it are loaded and new ones are appended
+// to it as JSON lines, so a restarted guardian keeps serving what it signed before.
+function createVAAStore(file?: string): VAAStore {
+  const vaas = new Map<string, SignedVAA>();
+  const listeners = new Set<(signed: SignedVAA) => void>();
+
+  const add = (signed: SignedVAA) => {
+    vaas.set(vaaId(signed.emitterChain, signed.emitterAddress, signed.sequence), signed);
+  };
+
+  if (file && fs.existsSync(file)) {
+    const lines = fs.readFileSync(file, "utf8").split("\n").filter(l => l.trim().length > 0);
+    lines.forEach((line, i) => {
+      try {
+        add(JSON.parse(line));
+      } catch (error: any) {
+        throw new Error(`${file}:${i + 1}: ${error.message}`);
+      }
+    });
+  }
+
+  return {
+    put(signed) {
+      const normalized = {
+        ...signed,
+        emitterAddress: ethers.utils.hexZeroPad(signed.emitterAddress, 32).toLowerCase(),
+        transactionHash: signed.transactionHash.toLowerCase()
+      };
+      add(normalized);
+      if (file) {
+        fs.mkdirSync(path.dirname(file), { recursive: true });
+        fs.appendFileSync(file, JSON.stringify(normalized) + "\n");
+      }
+      for (const listener of [...listeners]) listener(normalized);
+    },
+    get(emitterChain, emitterAddress, sequence) {
+      return vaas.get(vaaId(emitterChain, emitterAddress, sequence));
+    },
+    byTransaction(transactionHash) {
+      return [...vaas.values()]
+        .filter(v => v.transactionHash === transactionHash.toLowerCase())
+        .sort((a, b) => (ethers.BigNumber.from(a.sequence).lt(b.sequence) ? -1 : 1));
+    },
+    all() {
+      return [...vaas.values()];
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    }
+  };
+}
+
+// Resolves with the first non-undefined result of `lookup`, re-running it whenever a VAA
+// is put, or with undefined after `timeout` milliseconds
+function waitFor<T>(store: VAAStore, lookup: () => T | undefined, timeout: number): Promise<T | undefined> {
+  const found = lookup();
+  if (found !== undefined || timeout <= 0) return Promise.resolve(found);
+
+  return new Promise(resolve => {
+    const done = (result: T | undefined) => {
+      clearTimeout(timer);
+      unsubscribe();
+      resolve(result);
+    };
+    const timer = setTimeout(() => done(undefined), timeout);
+    const unsubscribe = store.subscribe(() => {
+      const result = lookup();
+      if (result !== undefined) done(result);
+    });
+  });
+}
+
+export {
+  SignedVAA,
+  VAAStore,
+  vaaId,
+  createVAAStore,
+  waitFor
+};
@@ -0,0 +1,174 @@
+import * as http from "http";
+import { ethers, BigNumber } from "ethers";
+import { SignedVAA, VAAStore } from "./VAAStore";
+
+// Mirrors the spy's EmitterFilter, plus the sequence to replay stored VAAs from
+interface EmitterFilter {
+  chainId: number;
+  // 32-byte emitter address, 0x-prefixed lowercase hex
+  emitterAddress: string;
+  // Stored VAAs of the emitter from this sequence on are sent before live ones
+  fromSequence?: BigNumber;
+}
+
+// One line of the stream, like the spy's SubscribeSignedVAAResponse
+interface StreamedVAA {
+  vaaBytes: string;
+}
+
+interface SubscribeOptions {
+  // Lines that are not a VAA; the subscription carries on. Defaults to logging them.
+  onError?: (error: Error) => void;
+  // The server ended the stream or the connection failed after it opened, with the error if
+  // there was one. Not called after the subscription is closed. Defaults to logging it.
+  onEnd?: (error?: Error) => void;
+}
+
+const STREAM_PATH = /^\/v1\/subscribe_signed_vaa\/?$/;
+
+// Parses "<chain>/<emitter>[/<fromSequence>]", the format of ?filter= on the stream
+function parseEmitterFilter(filter: string): EmitterFilter {
+  const match = filter.match(/^(\d+)\/(?:0x)?([0-9a-fA-F]{1,64})(?:\/(\d+))?$/);
+  if (!match) throw new Error(`invalid filter ${filter}, expected <chain>/<emitter>[/<fromSequence>]`);
+
+  const [, chain, emitter, fromSequence] = match;
+  return {
+    chainId: Number(chain),
+    emitterAddress: ethers.utils.hexZeroPad("0x" + (emitter.length % 2 ? "0" + emitter : emitter), 32).toLowerCase(),
+    fromSequence: fromSequence !== undefined ? BigNumber.from(fromSequence) : undefined
+  };
+}
+
+function formatEmitterFilter(filter: EmitterFilter): string {
+  const base = `${filter.chainId}/${filter.emitterAddress.slice(2)}`;
+  return filter.fromSequence !== undefined ? `${base}/${filter.fromSequence.toString()}` : base;
+}
+
+// No filters matches every VAA, like a spy subscription without filters
+function matchesFilters(signed: SignedVAA, filters: EmitterFilter[]): boolean {
+  return filters.length === 0 || filters.some(f =>
+    f.chainId === signed.emitterChain && f.emitterAddress === signed.emitterAddress.toLowerCase()
+  );
+}
+
+// Stored VAAs of every filter with a fromSequence, oldest first per emitter
+function replayVAAs(store: VAAStore, filters: EmitterFilter[]): SignedVAA[] {
+  const replayed: SignedVAA[] = [];
+  for (const f of filters) {
+    if (f.fromSequence === undefined) continue;
+    const fromSequence = f.fromSequence;
+    replayed.push(
+      ...store.all()
+        .filter(v => matchesFilters(v, [f]) && fromSequence.lte(v.sequence))
+        .sort((a, b) => (BigNumber.from(a.sequence).lt(b.sequence) ? -1 : 1))
+    );
+  }
+  return replayed;
+}
+
+// Streams VAAs matching `filters` to `res` as newline-delimited JSON until the client
+// disconnects: first the replayed ones, then each new VAA as it is stored.
+function streamVAAs(store: VAAStore, filters: EmitterFilter[], res: http.ServerResponse) {
+  res.writeHead(200, { "Content-Type": "application/x-ndjson", "Cache-Control": "no-cache" });
+  // Subscribers learn the stream is open before the first VAA
+  res.flushHeaders();
+  const send = (signed: SignedVAA) => {
+    const line: StreamedVAA = { vaaBytes: ethers.utils.base64.encode(signed.vaa) };
+    res.write(JSON.stringify(line) + "\n");
+  };
+
+  // The store is synchronous, so nothing can be put between the replay and subscribing
+  replayVAAs(store, filters).forEach(send);
+  const unsubscribe = store.subscribe(signed => {
+    if (matchesFilters(signed, filters)) send(signed);
+  });
+  res.on("close", unsubscribe);
+}
+
+// Handles GET /v1/subscribe_signed_vaa?filter=<chain>/<emitter>[/<fromSequence>]&filter=...
+// Returns false when the request is for another path.
+function handleVAAStreamRequest(store: VAAStore, req: http.IncomingMessage, res: http.ServerResponse): boolean {
+  const url = new URL(req.url ?? "/", "http://localhost");
+  if (!STREAM_PATH.test(url.pathname)) return false;
+
+  let filters: EmitterFilter[];
+  try {
+    filters = url.searchParams.getAll("filter").map(parseEmitterFilter);
+  } catch (error: any) {
+    res.writeHead(400, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ code: 3, message: error.message, details: [] }));
+    return true;
+  }
+
+  streamVAAs(store, filters, res);
+  return true;
+}
+
+// Subscribes to a stream served at `baseURL`, calling `onVAA` with each VAA (0x hex).
+// Resolves with a function that closes the subscription once the stream is open.
+function subscribeSignedVAAs(
+  baseURL: string,
+  filters: EmitterFilter[],
+  onVAA: (vaa: string) => void,
+  options: SubscribeOptions = {}
+): Promise<() => void> {
+  const url = new URL("/v1/subscribe_signed_vaa", baseURL);
+  filters.forEach(f => url.searchParams.append("filter", formatEmitterFilter(f)));
+  const onError = options.onError ?? (error => console.error(error));
+  const onEnd = options.onEnd ?? (error => console.error(`signed VAA stream ${baseURL} ended${error ? `: ${error.message}` : ""}`));
+
+  return new Promise((resolve, reject) => {
+    let opened = false;
+    let closed = false;
+    const end = (error?: Error) => {
+      if (closed) return;
+      closed = true;
+      onEnd(error);
+    };
+
+    const req = http.get(url, res => {
+      if (res.statusCode !== 200) {
+        reject(new Error(`subscription failed with status ${res.statusCode}`));
+        res.resume();
+        return;
+      }
+
+      let buffered = "";
+      res.setEncoding("utf8");
+      res.on("data", (chunk: string) => {
+        buffered += chunk;
+        const lines = buffered.split("\n");
+        buffered = lines.pop()!;
+        for (const line of lines.filter(l => l.length > 0)) {
+          try {
+            onVAA(ethers.utils.hexlify(ethers.utils.base64.decode((JSON.parse(line) as StreamedVAA).vaaBytes)));
+          } catch (error: any) {
+            onError(error);
+          }
+        }
+      });
+      // "error" comes before "close" when the connection drops
+      res.on("error", end);
+      res.on("close", () => end());
+      opened = true;
+      resolve(() => {
+        closed = true;
+        req.destroy();
+      });
+    });
+    req.on("error", error => (opened ? end(error) : reject(error)));
+  });
+}
+
+export {
+  EmitterFilter,
+  StreamedVAA,
+  SubscribeOptions,
+  parseEmitterFilter,
+  formatEmitterFilter,
+  matchesFilters,
+  replayVAAs,
+  streamVAAs,
+  handleVAAStreamRequest,
+  subscribeSignedVAAs
+};
@@ -0,0 +1,331 @@
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { ethers } from "ethers";
+import {
+  CORE_MODULE,
+  NFT_BRIDGE_MODULE,
+  TOKEN_BRIDGE_MODULE,
+  encodeContractUpgrade,
+  encodeUpgradeContract,
+  parseContractUpgrade,
+  parseUpgrade
+} from "../scripts/lib/GovernancePayloads";
+import { ParamSpecs, loadScriptParams } from "../scripts/lib/ScriptParams";
+import { parseVM } from "../scripts/lib/VAA";
+import { decodeVAAInput } from "../scripts/lib/VAAInspector";
+
+// The scripts import "hardhat" at the top, which the config cannot do while it is being loaded,
+// so every action imports the script it runs. Each task prints its result as JSON on stdout and
+// returns it for `hre.run`; the scripts' progress logs go to stderr.
+
+type Module = "core" | "token-bridge" | "nft-bridge";
+
+const MODULES: { [module in Module]: string } = {
+  "core": CORE_MODULE,
+  "token-bridge": TOKEN_BRIDGE_MODULE,
+  "nft-bridge": NFT_BRIDGE_MODULE
+};
+
+// keccak256("eip1967.proxy.implementation") - 1, where the proxies keep their implementation
+const IMPLEMENTATION_SLOT = "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc";
+
+interface UpgradeResult {
+  module: Module;
+  contract: string;
+  newContract: string;
+  // The proxy's implementation once the upgrade is mined
+  implementation: string;
+  transactionHash: string;
+}
+
+interface ImplementationResult {
+  module: Module;
+  deployedAddress: string;
+  // ContractUpgrade / UpgradeContract payload for guardians to sign, when --chain-id is given
+  upgradePayload?: string;
+}
+
+function checkModule(module: string): Module {
+  if (!(module in MODULES)) throw new Error(`--module must be one of ${Object.keys(MODULES).join(", ")}, got ${JSON.stringify(module)}`);
+  return module as Module;
+}
+
+// Turns the task arguments that were given into --flags, so loadScriptParams validates them
+// like the scripts do and falls back to the same env vars, CONFIG file and defaults
+function paramsFromArgs<T>(specs: ParamSpecs<T>, args: { [name: string]: unknown }, defaults: Partial<T> = {}): T {
+  const argv: string[] = [];
+  for (const name of Object.keys(specs)) {
+    if (args[name] === undefined) continue;
+    argv.push(`--${name.replace(/([a-z0-9])([A-Z])/g, "$1-$2").toLowerCase()}`, String(args[name]));
+  }
+  if (args.paramsFile !== undefined) argv.push("--config", String(args.paramsFile));
+
+  const withDefaults = { ...specs };
+  for (const [name, value] of Object.entries(defaults)) {
+    withDefaults[name as keyof T] = { ...specs[name as keyof T], default: value };
+  }
+  return loadScriptParams(withDefaults, { argv });
+}
+
+async function loadSigner(hre: HardhatRuntimeEnvironment): Promise<ethers.Signer> {
+  const { describeNetwork, loadDeployer } = await import("../scripts/lib/Keystore");
+  return loadDeployer(hre.ethers.provider, await describeNetwork(hre.ethers.provider, hre.network.name, hre.network.config));
+}
+
+async function evmChainIdOf(hre: HardhatRuntimeEnvironment): Promise<number> {
+  return (await hre.ethers.provider.getNetwork()).chainId;
+}
+
+// Runs `action` with console.log sent to stderr, then prints its result as JSON on stdout
+async function printResult<T>(action: () => Promise<T>): Promise<T> {
+  const log = console.log;
+  console.log = console.error;
+  let result: T;
+  try {
+    result = await action();
+  } finally {
+    console.log = log;
+  }
+  process.stdout.write(JSON.stringify(result, null, 2) + "\n");
+  return result;
+}
+
+function upgradePayload(module: Module, chainId: number, newContract: string): string {
+  return module === "core"
+    ? encodeContractUpgrade({ chain: chainId, newContract })
+    : encodeUpgradeContract(MODULES[module], { chainId, newContract });
+}
+
+// Deploys whatever implementation `deploy` picks for `module`; with a chain ID, also encodes the
+// governance payload that upgrades that chain's proxy to it
+async function deployImplementation(
+  hre: HardhatRuntimeEnvironment,
+  args: { module: string; chainId?: string },
+  deploy: (module: Module, signer: ethers.Signer) => Promise<{ deployedAddress: string }>
+): Promise<ImplementationResult> {
+  const module = checkModule(args.module);
+  const { chainId } = paramsFromArgs<{ chainId?: number }>({ chainId: { type: "chainId", optional: true, env: "UPGRADE_CHAIN_ID" } }, args);
+  const { deployedAddress } = await deploy(module, await loadSigner(hre));
+
+  const result: ImplementationResult = { module, deployedAddress };
+  if (chainId !== undefined) result.upgradePayload = upgradePayload(module, chainId, deployedAddress);
+  return result;
+}
+
+// Sends a signed ContractUpgrade (core) or UpgradeContract (bridges) VAA to the proxy the
+// payload's module names. The payload is decoded first, so a VAA for another module or action
+// fails here instead of with a revert.
+async function submitUpgrade(hre: HardhatRuntimeEnvironment, contract: string, vaa: string): Promise<UpgradeResult> {
+  const encoded = ethers.utils.hexlify(decodeVAAInput(vaa));
+  const { payload } = parseVM(encoded);
+  const payloadModule = ethers.utils.hexlify(ethers.utils.arrayify(payload).slice(0, 32));
+  const module = (Object.keys(MODULES) as Module[]).find(m => MODULES[m] === payloadModule);
+  if (!module) throw new Error(`VAA payload has module ${payloadModule}, not Core, TokenBridge or NFTBridge`);
+
+  const signer = await loadSigner(hre);
+  let newContract: string;
+  let tx: ethers.ContractTransaction;
+  if (module === "core") {
+    newContract = parseContractUpgrade(payload).newContract;
+    const wormhole = await hre.ethers.getContractAt("IWormhole", contract, signer);
+    tx = await wormhole.submitContractUpgrade(encoded);
+  } else {
+    newContract = ethers.utils.getAddress(ethers.utils.hexDataSlice(parseUpgrade(MODULES[module], payload).newContract, 12));
+    const bridge = await hre.ethers.getContractAt(module === "token-bridge" ? "ITokenBridge" : "INFTBridge", contract, signer);
+    tx = await bridge.upgrade(encoded);
+  }
+  const receipt = await tx.wait();
+
+  const slot = await hre.ethers.provider.getStorageAt(contract, IMPLEMENTATION_SLOT);
+  return {
+    module,
+    contract,
+    newContract,
+    implementation: ethers.utils.getAddress(ethers.utils.hexDataSlice(slot, 12)),
+    transactionHash: receipt.transactionHash
+  };
+}
+
+task("wormhole:deploy-core", "Deploys the core bridge (Implementation, Setup and the Wormhole proxy)")
+  .addOptionalParam("initialSigners", "Comma separated guardian addresses (GUARDIANS)")
+  .addOptionalParam("chainId", "Wormhole chain ID (CHAIN_ID)")
+  .addOptionalParam("governanceChainId", "Chain ID of the governance emitter, default 1")
+  .addOptionalParam("governanceContract", "Governance emitter address as bytes32, default 0x...04")
+  .addOptionalParam("evmChainId", "EIP-155 chain ID, default the node's")
+  .addOptionalParam("paramsFile", "JSON/YAML file of parameters (CONFIG)", undefined, types.inputFile)
+  .setAction(async (args, hre) => {
+    const { DEPLOY_PARAM_SPECS, deployCore } = await import("../scripts/DeployCore");
+    const { describeNetwork, loadDeployer, refuseTestAddresses } = await import("../scripts/lib/Keystore");
+    const params = paramsFromArgs(DEPLOY_PARAM_SPECS, args, { evmChainId: await evmChainIdOf(hre) });
+
+    const target = await describeNetwork(hre.ethers.provider, hre.network.name, hre.network.config);
+    const signer = await loadDeployer(hre.ethers.provider, target);
+    // A guardian set of test keys would let anyone sign VAAs
+    refuseTestAddresses(params.initialSigners, target);
+    return printResult(() => deployCore(params, signer));
+  });
+
+task("wormhole:deploy-token-bridge", "Deploys the token bridge pointed at a core bridge")
+  .addOptionalParam("wormhole", "Core bridge address (WORMHOLE)")
+  .addOptionalParam("weth", "WETH the bridge unwraps (WETH)")
+  .addOptionalParam("chainId", "Wormhole chain ID (CHAIN_ID)")
+  .addOptionalParam("governanceChainId", "Chain ID of the governance emitter, default 1")
+  .addOptionalParam("governanceContract", "Governance emitter address as bytes32, default 0x...04")
+  .addOptionalParam("finality", "Consistency level of transfer messages, default 15")
+  .addOptionalParam("evmChainId", "EIP-155 chain ID, default the node's")
+  .addOptionalParam("paramsFile", "JSON/YAML file of parameters (CONFIG)", undefined, types.inputFile)
+  .setAction(async (args, hre) => {
+    const { DEPLOY_PARAM_SPECS, deployTokenBridge } = await import("../scripts/DeployTokenBridge");
+    const params = paramsFromArgs(DEPLOY_PARAM_SPECS, args, { evmChainId: await evmChainIdOf(hre) });
+    const signer = await loadSigner(hre);
+    return printResult(() => deployTokenBridge(params, signer));
+  });
+
+task("wormhole:deploy-nft-bridge", "Deploys the NFT bridge pointed at a core bridge")
+  .addOptionalParam("wormhole", "Core bridge address (WORMHOLE)")
+  .addOptionalParam("chainId", "Wormhole chain ID (CHAIN_ID)")
+  .addOptionalParam("governanceChainId", "Chain ID of the governance emitter, default 1")
+  .addOptionalParam("governanceContract", "Governance emitter address as bytes32, default 0x...04")
+  .addOptionalParam("finality", "Consistency level of transfer messages, default 15")
+  .addOptionalParam("evmChainId", "EIP-155 chain ID, default the node's")
+  .addOptionalParam("paramsFile", "JSON/YAML file of parameters (CONFIG)", undefined, types.inputFile)
+  .setAction(async (args, hre) => {
+    const { DEPLOY_PARAM_SPECS, deployNFTBridge } = await import("../scripts/DeployNFTBridge");
+    const params = paramsFromArgs(DEPLOY_PARAM_SPECS, args, { evmChainId: await evmChainIdOf(hre) });
+    const signer = await loadSigner(hre);
+    return printResult(() => deployNFTBridge(params, signer));
+  });
+
+task("wormhole:deploy-all", "Deploys core, the token bridge and the NFT bridge and writes a deployment manifest")
+  .addOptionalParam("initialSigners", "Comma separated guardian addresses (GUARDIANS)")
+  .addOptionalParam("chainId", "Wormhole chain ID (CHAIN_ID)")
+  .addOptionalParam("governanceChainId", "Chain ID of the governance emitter, default 1")
+  .addOptionalParam("governanceContract", "Governance emitter address as bytes32, default 0x...04")
+  .addOptionalParam("finality", "Consistency level of bridge messages, default 15")
+  .addOptionalParam("evmChainId", "EIP-155 chain ID, default the node's")
+  .addOptionalParam("weth", "WETH for the token bridge; test tokens are deployed when omitted")
+  .addOptionalParam("manifest", "Where to write the manifest, default deployments/<network>.json")
+  .addOptionalParam("paramsFile", "JSON/YAML file of parameters (CONFIG)", undefined, types.inputFile)
+  .setAction(async (args, hre) => {
+    const { DEPLOY_ALL_PARAM_SPECS, defaultManifestFile, deployAll } = await import("../scripts/DeployAll");
+    const { describeNetwork, loadDeployer, refuseTestAddresses } = await import("../scripts/lib/Keystore");
+    const params = paramsFromArgs(DEPLOY_ALL_PARAM_SPECS, args, { evmChainId: await evmChainIdOf(hre) });
+
+    const target = await describeNetwork(hre.ethers.provider, hre.network.name, hre.network.config);
+    const signer = await loadDeployer(hre.ethers.provider, target);
+    refuseTestAddresses(params.initialSigners, target);
+    return printResult(() => deployAll(params, args.manifest ?? defaultManifestFile(hre.network.name), signer));
+  });
+
+task("wormhole:register-chains", "Submits RegisterChain VAAs to a token or NFT bridge")
+  .addParam("bridge", "token or nft", "token")
+  .addOptionalParam("address", "Bridge address (TOKEN_BRIDGE or NFT_BRIDGE)")
+  .addOptionalParam("vaas", "Comma separated hex/base64 VAAs, files or directories (REGISTRATION_VAAS)")
+  .addOptionalParam("paramsFile", "JSON/YAML file of parameters (CONFIG)", undefined, types.inputFile)
+  .setAction(async (args, hre) => {
+    const signer = await loadSigner(hre);
+    let result: { registeredChains: number; success: boolean };
+    if (args.bridge === "token") {
+      const { REGISTER_PARAM_SPECS, registerChainsTokenBridge } = await import("../scripts/RegisterChainsTokenBridge");
+      const params = paramsFromArgs(REGISTER_PARAM_SPECS, { tokenBridge: args.address, registrationVaas: args.vaas, paramsFile: args.paramsFile });
+      result = await printResult(() => registerChainsTokenBridge(params, signer));
+    } else if (args.bridge === "nft") {
+      const { REGISTER_PARAM_SPECS, registerChainsNFTBridge } = await import("../scripts/RegisterChainsNFTBridge");
+      const params = paramsFromArgs(REGISTER_PARAM_SPECS, { nftBridge: args.address, registrationVaas: args.vaas, paramsFile: args.paramsFile });
+      result = await printResult(() => registerChainsNFTBridge(params, signer));
+    } else {
+      throw new Error(`--bridge must be token or nft, got ${JSON.stringify(args.bridge)}`);
+    }
+    // Some registrations failed; the JSON says how many went through
+    if (!result.success) process.exitCode = 1;
+    return result;
+  });
+
+task("wormhole:deploy-implementation", "Deploys a new implementation of core, the token bridge or the NFT bridge")
+  .addParam("module", "core, token-bridge or nft-bridge")
+  .addOptionalParam("chainId", "Also encode the upgrade payload for this Wormhole chain")
+  .setAction(async (args, hre) => printResult(() => deployImplementation(hre, args, async (module, signer) => {
+    switch (module) {
+      case "core":
+        return (await import("../scripts/DeployCoreImplementationOnly")).deployCoreImplementationOnly(signer);
+      case "token-bridge":
+        return (await import("../scripts/DeployTokenBridgeImplementationOnly")).deployTokenBridgeImplementationOnly(signer);
+      case "nft-bridge":
+        return (await import("../scripts/DeployNFTBridgeImplementationOnly")).deployNFTBridgeImplementationOnly(signer);
+    }
+  })));
+
+task("wormhole:shutdown", "Deploys the shutdown implementation of core, the token bridge or the NFT bridge; upgrade to it with wormhole:upgrade")
+  .addParam("module", "core, token-bridge or nft-bridge")
+  .addOptionalParam("chainId", "Also encode the upgrade payload for this Wormhole chain")
+  .setAction(async (args, hre) => printResult(() => deployImplementation(hre, args, async (module, signer) => {
+    switch (module) {
+      case "core":
+        return (await import("../scripts/DeployCoreShutdown")).deployCoreShutdown(signer);
+      case "token-bridge":
+        return (await import("../scripts/DeployTokenBridgeShutdown")).deployTokenBridgeShutdown(signer);
+      case "nft-bridge":
+        return (await import("../scripts/DeployNFTBridgeShutdown")).deployNFTBridgeShutdown(signer);
+    }
+  })));
+
+task("wormhole:upgrade", "Submits a signed contract upgrade VAA to the core, token bridge or NFT bridge proxy")
+  .addParam("contract", "Proxy to upgrade")
+  .addParam("vaa", "Signed ContractUpgrade (core) or UpgradeContract (bridges) VAA, hex or base64")
+  .setAction(async (args, hre) => {
+    const { contract } = paramsFromArgs<{ contract: string }>({ contract: { type: "address" } }, args);
+    return printResult(() => submitUpgrade(hre, contract, args.vaa));
+  });
+
+task("wormhole:rotate-guardian-set", "Upgrades the core bridge to a new guardian set signed by the current one")
+  .addParam("wormhole", "Core bridge address")
+  .addOptionalParam("newGuardianCount", "Size of a generated new set (dev networks only)", undefined, types.int)
+  .addOptionalParam("seed", "Seed for generated keys")
+  .addOptionalParam("keysFile", "Where to write the new private keys as JSON")
+  .addOptionalParam("keystoreDir", "Where to write the new private keys as keystores (NEW_KEYSTORE_PASSPHRASE)")
+  .addParam("expiry", "skip, advance or wait for the old set's expiry", "skip")
+  .setAction(async (args, hre) => {
+    const { rotateGuardianSet } = await import("../scripts/RotateGuardianSet");
+    const { describeNetwork, isDevNetwork, loadDeployer, loadGuardianKeys, passphraseFromEnv, readGuardianKeys, refuseTestKeys } = await import("../scripts/lib/Keystore");
+    const { DEV_GUARDIAN_KEY } = await import("../scripts/lib/GuardianSigner");
+    if (!["skip", "advance", "wait"].includes(args.expiry)) throw new Error(`--expiry must be skip, advance or wait, got ${JSON.stringify(args.expiry)}`);
+
+    // Current keys from GUARDIAN_KEYSTORE / GUARDIAN_KEYS, new ones from NEW_GUARDIAN_KEYSTORE /
+    // NEW_GUARDIAN_KEYS, as in scripts/RotateGuardianSet.ts
+    const target = await describeNetwork(hre.ethers.provider, hre.network.name, hre.network.config);
+    const currentKeys = await loadGuardianKeys(target, [DEV_GUARDIAN_KEY]);
+    const newKeys = await readGuardianKeys("NEW_GUARDIAN");
+    if (newKeys.length > 0) {
+      refuseTestKeys(newKeys, target);
+    } else if (!isDevNetwork(target)) {
+      throw new Error(`refusing to generate guardian keys on network ${target.name}; set NEW_GUARDIAN_KEYSTORE or NEW_GUARDIAN_KEYS`);
+    }
+    const keystorePassphrase = args.keystoreDir ? await passphraseFromEnv("NEW_KEYSTORE_PASSPHRASE")(args.keystoreDir) : undefined;
+
+    const signer = await loadDeployer(hre.ethers.provider, target);
+    return printResult(async () => {
+      // Private keys only go to --keys-file or --keystore-dir, never to stdout
+      const { newKeys: generated, ...summary } = await rotateGuardianSet({
+        wormhole: args.wormhole,
+        currentKeys,
+        newKeys,
+        newGuardianCount: args.newGuardianCount,
+        seed: args.seed,
+        keysFile: args.keysFile,
+        keystoreDir: args.keystoreDir,
+        keystorePassphrase,
+        expiry: args.expiry
+      }, signer);
+      return summary;
+    });
+  });
+
+task("wormhole:inspect-vaa", "Decodes a VAA, its payload and its signatures")
+  .addParam("vaa", "VAA as hex or base64")
+  .addOptionalParam("wormhole", "Core bridge to check the signatures against its guardian set")
+  .setAction(async (args) => {
+    const { inspect } = await import("../scripts/InspectVAA");
+    return printResult(() => inspect({ vaa: args.vaa, wormhole: args.wormhole }));
+  });
+
+export { Module, UpgradeResult, ImplementationResult, IMPLEMENTATION_SLOT };
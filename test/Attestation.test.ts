@@ -0,0 +1,60 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Contract, Signer } from "ethers";
+import { TwoChainEnvironment, deployTwoChainEnvironment } from "../scripts/TwoChainEnvironment";
+import { AttestationDestination, AttestationSource, attestAndWrap, publishAttestation, submitAttestation } from "../scripts/lib/Attestation";
+
+describe("Attestation", function () {
+  let env: TwoChainEnvironment;
+  let token: Contract;
+  let owner: Signer;
+  let source: AttestationSource;
+  let destination: AttestationDestination;
+
+  before(async function () {
+    this.timeout(300000);
+    [owner] = await ethers.getSigners();
+    env = await deployTwoChainEnvironment({}, owner);
+
+    // A TokenImplementation we own can be renamed, which is what re-attestations are for
+    const TokenImplementation = await ethers.getContractFactory("TokenImplementation", owner);
+    token = await TokenImplementation.deploy();
+    await token.deployed();
+    await (await token.initialize("Original Name", "ORIG", 18, 0, await owner.getAddress(), env.chainA.chainId, ethers.constants.HashZero)).wait();
+
+    source = { tokenBridge: env.chainA.tokenBridge.address, signer: owner, guardianKeys: env.guardianKeys };
+    destination = { tokenBridge: env.chainB.tokenBridge.address, signer: owner };
+  });
+
+  it("should create the wrapped token from the AssetMeta the source bridge publishes", async function () {
+    this.timeout(60000);
+    const { attestation, wrapped } = await attestAndWrap(source, destination, token.address);
+
+    expect(attestation.emitterChainId).to.equal(env.chainA.chainId);
+    expect(attestation.meta).to.deep.include({ tokenChain: env.chainA.chainId, decimals: 18 });
+    expect(attestation.meta.tokenAddress.toLowerCase()).to.equal(ethers.utils.hexZeroPad(token.address, 32).toLowerCase());
+    expect(wrapped).to.include({ action: "created", name: "Original Name", symbol: "ORIG", decimals: 18 });
+
+    expect(await env.chainB.tokenBridge.wrappedAsset(env.chainA.chainId, attestation.meta.tokenAddress)).to.equal(wrapped.wrapped);
+    expect(await env.chainB.tokenBridge.isWrappedAsset(wrapped.wrapped)).to.equal(true);
+  });
+
+  it("should update the wrapped token on re-attestation and refuse stale AssetMeta", async function () {
+    this.timeout(60000);
+    const stale = await publishAttestation(source, token.address);
+
+    await (await token.updateDetails("Renamed", "NEW", 1)).wait();
+    const { attestation, wrapped } = await attestAndWrap(source, destination, token.address);
+
+    expect(attestation.sequence.gt(stale.sequence)).to.equal(true);
+    expect(wrapped).to.include({ action: "updated", name: "Renamed", symbol: "NEW" });
+
+    // Older metadata, though never applied, must not overwrite the newer one
+    try {
+      await submitAttestation(destination, stale);
+      throw new Error("Should have reverted");
+    } catch (error: any) {
+      expect(error.message).to.include("current metadata is up to date");
+    }
+  });
+});
@@ -0,0 +1,148 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Contract, Signer } from "ethers";
+import { hashVMBody } from "../scripts/lib/VAA";
+import {
+  BATCH_VM_VERSION,
+  batchObservations,
+  encodeBatchVM,
+  groupMessageBatches,
+  parseBatchVM,
+  parseMessagePublications,
+  signBatchVM,
+  verifyBatchObservation
+} from "../scripts/lib/BatchVAA";
+
+describe("Batch VAA", function () {
+  let wormhole: Contract;
+  let sender: Contract;
+  let owner: Signer;
+
+  const governanceContract = "0x0000000000000000000000000000000000000000000000000000000000000004";
+  const testChainId = 2;
+  const testGuardian = "93941733246223705020089879371323733820373732307041878556247502674739205313440";
+  const testGuardianPub = "0xbeFA429d57cD18b7F8A4d91A2da9AB4AF05d0FBe";
+
+  before(async function () {
+    this.timeout(60000);
+    const signers = await ethers.getSigners();
+    owner = signers[0];
+
+    const SetupFactory = await ethers.getContractFactory("Setup", owner);
+    const setup = await SetupFactory.deploy();
+    await setup.deployed();
+
+    const ImplementationFactory = await ethers.getContractFactory("Implementation", owner);
+    const impl = await ImplementationFactory.deploy();
+    await impl.deployed();
+
+    const WormholeFactory = await ethers.getContractFactory("Wormhole", owner);
+    const proxy = await WormholeFactory.deploy(setup.address, "0x");
+    await proxy.deployed();
+
+    const network = await ethers.provider.getNetwork();
+    const proxiedSetup = await ethers.getContractAt("Setup", proxy.address, owner);
+    await proxiedSetup.setup(impl.address, [testGuardianPub], testChainId, 1, governanceContract, network.chainId);
+
+    wormhole = await ethers.getContractAt("Implementation", proxy.address, owner);
+
+    const MockBatchedVAASenderFactory = await ethers.getContractFactory("MockBatchedVAASender", owner);
+    sender = await MockBatchedVAASenderFactory.deploy();
+    await sender.deployed();
+    await sender.setup(wormhole.address);
+  });
+
+  // Sends three messages with a shared nonce and returns the batch the tooling groups them into
+  async function sendBatch(nonce: number, payload: string) {
+    const tx = await sender.sendMultipleMessages(nonce, payload, 15);
+    const receipt = await tx.wait();
+    const block = await ethers.provider.getBlock(receipt.blockNumber);
+
+    const batches = groupMessageBatches(parseMessagePublications(receipt.logs, wormhole.address));
+    expect(batches.length).to.equal(1);
+    return { batch: batches[0], observations: batchObservations(batches[0], testChainId, block.timestamp) };
+  }
+
+  it("should group the messages of one sendMultipleMessages call into a batch", async function () {
+    const { batch, observations } = await sendBatch(42, "0xdeadbeef");
+
+    expect(batch.nonce).to.equal(42);
+    expect(batch.messages.length).to.equal(3);
+    for (let i = 0; i < 3; i++) {
+      expect(batch.messages[i].sender).to.equal(sender.address);
+      expect(batch.messages[i].payload).to.equal("0xdeadbeef");
+      expect(observations[i].emitterAddress).to.equal(ethers.utils.hexZeroPad(sender.address, 32).toLowerCase());
+    }
+    // Sequences are consecutive in log order
+    expect(batch.messages[1].sequence.sub(batch.messages[0].sequence).toNumber()).to.equal(1);
+    expect(batch.messages[2].sequence.sub(batch.messages[1].sequence).toNumber()).to.equal(1);
+
+    // Messages from separate transactions never share a batch
+    const other = await sendBatch(42, "0xdeadbeef");
+    expect(other.batch.transactionHash).to.not.equal(batch.transactionHash);
+    const merged = groupMessageBatches([...batch.messages, ...other.batch.messages]);
+    expect(merged.length).to.equal(2);
+  });
+
+  it("should encode and decode a batch VM with one signature set", async function () {
+    const { observations } = await sendBatch(7, "0x0102");
+    const encoded = signBatchVM(observations, [testGuardian], 0);
+
+    const vm = parseBatchVM(encoded);
+    expect(vm.version).to.equal(BATCH_VM_VERSION);
+    expect(vm.guardianSetIndex).to.equal(0);
+    expect(vm.signatures.length).to.equal(1);
+    expect(vm.hashes).to.deep.equal(observations.map(hashVMBody));
+    expect(vm.observations.length).to.equal(3);
+    for (let i = 0; i < 3; i++) {
+      expect(vm.observations[i].index).to.equal(i);
+      expect(vm.observations[i].body.sequence.eq(observations[i].sequence)).to.equal(true);
+      expect(vm.observations[i].body.payload).to.equal("0x0102");
+    }
+    expect(encodeBatchVM(vm)).to.equal(encoded);
+
+    // The single signature set covers the batch hash and verifies against the guardian set
+    const guardianSet = await wormhole.getGuardianSet(0);
+    const [valid, reason] = await wormhole.verifySignatures(vm.hash, vm.signatures, guardianSet);
+    expect(valid).to.equal(true);
+    expect(reason).to.equal("");
+  });
+
+  it("should verify each observation independently of the others", async function () {
+    const { observations } = await sendBatch(8, "0xaaaa");
+    const vm = parseBatchVM(signBatchVM(observations, [testGuardian], 0));
+
+    // Any single observation, delivered alone, is still covered by the signed hash list
+    for (let i = 0; i < vm.observations.length; i++) {
+      const alone = parseBatchVM(encodeBatchVM({ ...vm, observations: [vm.observations[i]] }));
+      expect(alone.hash).to.equal(vm.hash);
+      expect(verifyBatchObservation(alone, 0)).to.deep.equal({ valid: true, reason: "" });
+    }
+
+    // Tampering with one observation only invalidates that observation
+    const tampered = vm.observations.map((o, i) =>
+      i === 1 ? { ...o, observation: o.observation.slice(0, -4) + "bbbb" } : o
+    );
+    const tamperedVM = parseBatchVM(encodeBatchVM({ ...vm, observations: tampered }));
+    expect(verifyBatchObservation(tamperedVM, 0).valid).to.equal(true);
+    expect(verifyBatchObservation(tamperedVM, 1)).to.deep.equal({ valid: false, reason: "observation hash mismatch" });
+    expect(verifyBatchObservation(tamperedVM, 2).valid).to.equal(true);
+
+    // The batch hash is unchanged, so the signatures still verify for the untouched observations
+    const guardianSet = await wormhole.getGuardianSet(0);
+    const [valid] = await wormhole.verifySignatures(tamperedVM.hash, tamperedVM.signatures, guardianSet);
+    expect(valid).to.equal(true);
+
+    // An observation pointing past the hash list is rejected
+    const outOfRange = parseBatchVM(encodeBatchVM({ ...vm, observations: [{ ...vm.observations[0], index: 3 }] }));
+    expect(verifyBatchObservation(outOfRange, 0)).to.deep.equal({ valid: false, reason: "invalid observation index" });
+  });
+
+  it("should reject single-message VMs and trailing bytes", async function () {
+    const { observations } = await sendBatch(9, "0x");
+    const encoded = signBatchVM(observations, [testGuardian], 0);
+
+    expect(() => parseBatchVM("0x01" + encoded.slice(4))).to.throw("VM version incompatible");
+    expect(() => parseBatchVM(encoded + "00")).to.throw("invalid batch VM");
+  });
+});
@@ -1,6 +1,9 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
 import { Contract, Signer } from "ethers";
+import { signAndEncodeVM } from "../scripts/lib/VAA";
+import { encodeAssetMeta, encodeTransfer } from "../scripts/lib/TokenBridgePayloads";
+import { TOKEN_BRIDGE_MODULE, encodeRegisterChain, encodeUpgradeContract } from "../scripts/lib/GovernancePayloads";
 
 // @dev ensure some internal methods are public for testing
 const ExportedBridgeABI = [
@@ -25,12 +28,6 @@ describe("Bridge", function () {
   const governanceContract = "0x0000000000000000000000000000000000000000000000000000000000000004";
   const finality = 15;
 
-  // "TokenBridge" (left padded)
-  const tokenBridgeModule = "0x000000000000000000000000000000000000000000546f6b656e427269646765";
-  const actionRegisterChain = 1;
-  const actionContractUpgrade = 2;
-  const actionRecoverChainId = 3;
-
   const fakeChainId = 1337;
   const fakeEvmChainId = 10001;
 
@@ -87,53 +84,6 @@ describe("Bridge", function () {
     return ethers.utils.hexZeroPad(address, 32);
   }
 
-  function uint256Array(member: string): string[] {
-    return [member];
-  }
-
-  async function signAndEncodeVM(
-    timestamp: number, nonce: number, emitterChainId: number,
-    emitterAddress: string, sequence: number, data: string,
-    signers: string[], guardianSetIndex: number, consistencyLevel: number
-  ): Promise<string> {
-    // Create body exactly like Foundry version
-    const body = ethers.utils.solidityPack(
-      ["uint32", "uint32", "uint16", "bytes32", "uint64", "uint8", "bytes"],
-      [timestamp, nonce, emitterChainId, emitterAddress, sequence, consistencyLevel, data]
-    );
-
-    const bodyHash = ethers.utils.keccak256(ethers.utils.keccak256(body));
-
-    // Start with header: version (1), guardianSetIndex, signers count
-    let signedMessage = ethers.utils.solidityPack(
-      ["uint8", "uint32", "uint8"],
-      [1, guardianSetIndex, signers.length]
-    );
-
-    // Add signatures - each signature has: guardianIndex(1), r(32), s(32), v(1)
-    for (let i = 0; i < signers.length; i++) {
-      const wallet = new ethers.Wallet(ethers.BigNumber.from(signers[i]).toHexString().padStart(64, '0'));
-      const signature = await wallet.signMessage(ethers.utils.arrayify(bodyHash));
-      const sig = ethers.utils.splitSignature(signature);
-      
-      const guardianIndex = 0; // Single guardian setup
-      const recoveryId = sig.v - 27; // Convert to recovery format
-      
-      signedMessage = ethers.utils.solidityPack(
-        ["bytes", "uint8", "bytes32", "bytes32", "uint8"],
-        [signedMessage, guardianIndex, sig.r, sig.s, recoveryId]
-      );
-    }
-
-    // Append the body
-    signedMessage = ethers.utils.solidityPack(
-      ["bytes", "bytes"],
-      [signedMessage, body]
-    );
-
-    return signedMessage;
-  }
-
   it("should handle address truncation correctly (testTruncate)", async function () {
     const validAddress = "0x000000000000000000000000b7a2211e8165943192ad04f5dd21bedc29ff003e";
     const truncated = await bridge._truncateAddressPub(validAddress);
@@ -237,22 +187,24 @@ describe("Bridge", function () {
     await runRegisterChain();
     await runAttestToken();
 
-    const data = ethers.utils.solidityPack(
-      ["uint8", "bytes32", "uint16", "uint8", "bytes32", "bytes32"],
-      [
-        2, // attestation type
-        testBridgedAssetAddress,
-        testBridgedAssetChain,
-        18, // decimals
-        "0x5454000000000000000000000000000000000000000000000000000000000000", // symbol "TT"
-        "0x54657374546f6b656e0000000000000000000000000000000000000000000000"  // name "TestToken"
-      ]
-    );
-
-    const vaa = await signAndEncodeVM(
-      0, 0, testForeignChainId, testForeignBridgeContract, 0, data,
-      uint256Array(testGuardian), 0, 0
-    );
+    const data = encodeAssetMeta({
+      payloadID: 2, // attestation type
+      tokenAddress: testBridgedAssetAddress,
+      tokenChain: testBridgedAssetChain,
+      decimals: 18,
+      symbol: "0x5454000000000000000000000000000000000000000000000000000000000000", // "TT"
+      name: "0x54657374546f6b656e0000000000000000000000000000000000000000000000" // "TestToken"
+    });
+
+    const vaa = signAndEncodeVM({
+      timestamp: 0,
+      nonce: 0,
+      emitterChainId: testForeignChainId,
+      emitterAddress: testForeignBridgeContract,
+      sequence: 0,
+      consistencyLevel: 0,
+      payload: data
+    }, [testGuardian], 0);
 
     await bridge.createWrapped(vaa);
     
@@ -271,23 +223,25 @@ describe("Bridge", function () {
     // Prerequisites
     await runCreateWrapped();
 
-    const data = ethers.utils.solidityPack(
-      ["uint8", "bytes32", "uint16", "uint8", "bytes32", "bytes32"],
-      [
-        2, // attestation type
-        testBridgedAssetAddress,
-        testBridgedAssetChain,
-        18, // decimals
-        "0x5555000000000000000000000000000000000000000000000000000000000000", // symbol "UU"
-        "0x5472656500000000000000000000000000000000000000000000000000000000"  // name "Tree"
-      ]
-    );
+    const data = encodeAssetMeta({
+      payloadID: 2, // attestation type
+      tokenAddress: testBridgedAssetAddress,
+      tokenChain: testBridgedAssetChain,
+      decimals: 18,
+      symbol: "0x5555000000000000000000000000000000000000000000000000000000000000", // "UU"
+      name: "0x5472656500000000000000000000000000000000000000000000000000000000" // "Tree"
+    });
 
     // Try same sequence - should fail
-    let vaa = await signAndEncodeVM(
-      0, 0, testForeignChainId, testForeignBridgeContract, 0, data,
-      uint256Array(testGuardian), 0, 0
-    );
+    let vaa = signAndEncodeVM({
+      timestamp: 0,
+      nonce: 0,
+      emitterChainId: testForeignChainId,
+      emitterAddress: testForeignBridgeContract,
+      sequence: 0,
+      consistencyLevel: 0,
+      payload: data
+    }, [testGuardian], 0);
 
     try {
       await bridge.updateWrapped(vaa);
@@ -297,10 +251,15 @@ describe("Bridge", function () {
     }
 
     // Higher sequence should work
-    vaa = await signAndEncodeVM(
-      0, 0, testForeignChainId, testForeignBridgeContract, 1, data,
-      uint256Array(testGuardian), 0, 0
-    );
+    vaa = signAndEncodeVM({
+      timestamp: 0,
+      nonce: 0,
+      emitterChainId: testForeignChainId,
+      emitterAddress: testForeignBridgeContract,
+      sequence: 1,
+      consistencyLevel: 0,
+      payload: data
+    }, [testGuardian], 0);
 
     await bridge.updateWrapped(vaa);
 
@@ -329,18 +288,15 @@ describe("Bridge", function () {
     const toChain = testForeignChainId;
     const toAddress = testForeignBridgeContract;
 
-    const transferPayload = ethers.utils.solidityPack(
-      ["uint8", "uint256", "bytes32", "uint16", "bytes32", "uint16", "uint256"],
-      [
-        1, // transfer type
-        amount.div(ethers.BigNumber.from("10000000000")),
-        addressToBytes32(tokenImpl.address),
-        testChainId,
-        toAddress,
-        toChain,
-        fee.div(ethers.BigNumber.from("10000000000"))
-      ]
-    );
+    const transferPayload = encodeTransfer({
+      payloadID: 1, // transfer type
+      amount: amount.div(ethers.BigNumber.from("10000000000")),
+      tokenAddress: addressToBytes32(tokenImpl.address),
+      tokenChain: testChainId,
+      to: toAddress,
+      toChain,
+      fee: fee.div(ethers.BigNumber.from("10000000000"))
+    });
 
     const tx = await bridge.transferTokens(
       tokenImpl.address,
@@ -385,18 +341,15 @@ describe("Bridge", function () {
 
     const feeAmount = amount.mul(9).div(10);
 
-    const transferPayload = ethers.utils.solidityPack(
-      ["uint8", "uint256", "bytes32", "uint16", "bytes32", "uint16", "uint256"],
-      [
-        1, // transfer type
-        feeAmount.div(ethers.BigNumber.from("10000000000")),
-        addressToBytes32(feeToken.address),
-        testChainId,
-        toAddress,
-        toChain,
-        fee.div(ethers.BigNumber.from("10000000000"))
-      ]
-    );
+    const transferPayload = encodeTransfer({
+      payloadID: 1, // transfer type
+      amount: feeAmount.div(ethers.BigNumber.from("10000000000")),
+      tokenAddress: addressToBytes32(feeToken.address),
+      tokenChain: testChainId,
+      to: toAddress,
+      toChain,
+      fee: fee.div(ethers.BigNumber.from("10000000000"))
+    });
 
     const tx = await bridge.transferTokens(
       feeToken.address,
@@ -427,23 +380,25 @@ describe("Bridge", function () {
     expect(accountBalanceBefore).to.equal(0);
     expect(bridgeBalanceBefore).to.equal(amount);
 
-    const transferPayload = ethers.utils.solidityPack(
-      ["uint8", "uint256", "bytes32", "uint16", "bytes32", "uint16", "uint256"],
-      [
-        1, // transfer type
-        amount.div(ethers.BigNumber.from("10000000000")),
-        addressToBytes32(tokenImpl.address),
-        testChainId,
-        addressToBytes32(await owner.getAddress()),
-        testChainId,
-        0 // no fee
-      ]
-    );
-
-    const vaa = await signAndEncodeVM(
-      0, 0, testForeignChainId, testForeignBridgeContract, sequence, transferPayload,
-      uint256Array(testGuardian), 0, 0
-    );
+    const transferPayload = encodeTransfer({
+      payloadID: 1, // transfer type
+      amount: amount.div(ethers.BigNumber.from("10000000000")),
+      tokenAddress: addressToBytes32(tokenImpl.address),
+      tokenChain: testChainId,
+      to: addressToBytes32(await owner.getAddress()),
+      toChain: testChainId,
+      fee: ethers.BigNumber.from(0) // no fee
+    });
+
+    const vaa = signAndEncodeVM({
+      timestamp: 0,
+      nonce: 0,
+      emitterChainId: testForeignChainId,
+      emitterAddress: testForeignBridgeContract,
+      sequence,
+      consistencyLevel: 0,
+      payload: transferPayload
+    }, [testGuardian], 0);
 
     const tx = await bridge.completeTransfer(vaa);
     const receipt = await tx.wait();
@@ -592,15 +547,17 @@ describe("Bridge", function () {
     const mock = await MockBridgeImplementationFactory.deploy();
     await mock.deployed();
 
-    const data = ethers.utils.solidityPack(
-      ["bytes32", "uint8", "uint16", "bytes32"],
-      [tokenBridgeModule, actionContractUpgrade, testChainId, addressToBytes32(mock.address)]
-    );
+    const data = encodeUpgradeContract(TOKEN_BRIDGE_MODULE, { chainId: testChainId, newContract: mock.address });
 
-    let vaa = await signAndEncodeVM(
-      timestamp, nonce, governanceChainId, governanceContract, 0, data,
-      uint256Array(testGuardian), 0, 2
-    );
+    let vaa = signAndEncodeVM({
+      timestamp,
+      nonce,
+      emitterChainId: governanceChainId,
+      emitterAddress: governanceContract,
+      sequence: 0,
+      consistencyLevel: 2,
+      payload: data
+    }, [testGuardian], 0);
 
     await bridge.upgrade(vaa);
 
@@ -613,10 +570,15 @@ describe("Bridge", function () {
     expect(await bridge.evmChainId()).to.equal(fakeEvmChainId);
 
     // Try upgrade on fork - should fail
-    vaa = await signAndEncodeVM(
-      timestamp, nonce, governanceChainId, governanceContract, 0, data,
-      uint256Array(testGuardian), 0, 2
-    );
+    vaa = signAndEncodeVM({
+      timestamp,
+      nonce,
+      emitterChainId: governanceChainId,
+      emitterAddress: governanceContract,
+      sequence: 0,
+      consistencyLevel: 2,
+      payload: data
+    }, [testGuardian], 0);
 
     try {
       await bridge.upgrade(vaa);
@@ -629,15 +591,21 @@ describe("Bridge", function () {
 
   // Helper functions for test dependencies
   async function runRegisterChain() {
-    const data = ethers.utils.solidityPack(
-      ["bytes32", "uint8", "uint16", "uint16", "bytes32"],
-      [tokenBridgeModule, actionRegisterChain, 0, testForeignChainId, testForeignBridgeContract]
-    );
-
-    const vaa = await signAndEncodeVM(
-      1, 1, governanceChainId, governanceContract, 0, data,
-      uint256Array(testGuardian), 0, 0
-    );
+    const data = encodeRegisterChain(TOKEN_BRIDGE_MODULE, {
+      chainId: 0,
+      emitterChainID: testForeignChainId,
+      emitterAddress: testForeignBridgeContract
+    });
+
+    const vaa = signAndEncodeVM({
+      timestamp: 1,
+      nonce: 1,
+      emitterChainId: governanceChainId,
+      emitterAddress: governanceContract,
+      sequence: 0,
+      consistencyLevel: 0,
+      payload: data
+    }, [testGuardian], 0);
 
     await bridge.registerChain(vaa);
   }
@@ -651,12 +619,24 @@ describe("Bridge", function () {
     await runRegisterChain();
     await runAttestToken();
     
-    const data = ethers.utils.solidityPack(
-      ["uint8", "bytes32", "uint16", "uint8", "bytes32", "bytes32"],
-      [2, testBridgedAssetAddress, testBridgedAssetChain, 18, "0x5454000000000000000000000000000000000000000000000000000000000000", "0x54657374546f6b656e0000000000000000000000000000000000000000000000"]
-    );
-
-    const vaa = await signAndEncodeVM(0, 0, testForeignChainId, testForeignBridgeContract, 0, data, uint256Array(testGuardian), 0, 0);
+    const data = encodeAssetMeta({
+      payloadID: 2,
+      tokenAddress: testBridgedAssetAddress,
+      tokenChain: testBridgedAssetChain,
+      decimals: 18,
+      symbol: "0x5454000000000000000000000000000000000000000000000000000000000000",
+      name: "0x54657374546f6b656e0000000000000000000000000000000000000000000000"
+    });
+
+    const vaa = signAndEncodeVM({
+      timestamp: 0,
+      nonce: 0,
+      emitterChainId: testForeignChainId,
+      emitterAddress: testForeignBridgeContract,
+      sequence: 0,
+      consistencyLevel: 0,
+      payload: data
+    }, [testGuardian], 0);
     await bridge.createWrapped(vaa);
   }
 
@@ -0,0 +1,114 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Contract, Signer } from "ethers";
+import {
+  CONFIG_TYPE_ADDITIONAL_BLOCKS,
+  decodeConfig,
+  encodeAdditionalBlocksConfig,
+  encodeConfig,
+  readEmitterConfig,
+  registerConfigType
+} from "../scripts/lib/ConsistencyLevelConfig";
+
+describe("Consistency level config", function () {
+  let customConsistencyLevel: Contract;
+  let testCustomConsistencyLevel: Contract;
+  let owner: Signer;
+  let deployBlock: number;
+
+  const wormholeAddr = "0x0000000000000000000000000000000000123456";
+  const runs = Number(process.env.DIFFERENTIAL_RUNS ?? 8);
+
+  before(async function () {
+    this.timeout(60000);
+    const signers = await ethers.getSigners();
+    owner = signers[0];
+
+    const CustomConsistencyLevelFactory = await ethers.getContractFactory("CustomConsistencyLevel", owner);
+    customConsistencyLevel = await CustomConsistencyLevelFactory.deploy();
+    await customConsistencyLevel.deployed();
+    deployBlock = (await customConsistencyLevel.deployTransaction.wait()).blockNumber;
+
+    const TestCustomConsistencyLevelFactory = await ethers.getContractFactory("TestCustomConsistencyLevel", owner);
+    testCustomConsistencyLevel = await TestCustomConsistencyLevelFactory.deploy(
+      wormholeAddr,
+      customConsistencyLevel.address,
+      201,
+      5
+    );
+    await testCustomConsistencyLevel.deployed();
+  });
+
+  it("should encode like ConfigMakers.makeAdditionalBlocksConfig", async function () {
+    this.timeout(120000);
+    const cases = [[0, 0], [255, 65535], [201, 42]];
+    for (let i = 0; i < runs; i++) {
+      cases.push([Math.floor(Math.random() * 256), Math.floor(Math.random() * 65536)]);
+    }
+
+    for (const [consistencyLevel, blocksToWait] of cases) {
+      await (await testCustomConsistencyLevel.configure(consistencyLevel, blocksToWait)).wait();
+      const onChain = await customConsistencyLevel.getConfiguration(testCustomConsistencyLevel.address);
+
+      expect(encodeAdditionalBlocksConfig(consistencyLevel, blocksToWait)).to.equal(onChain);
+      expect(decodeConfig(onChain)).to.deep.equal({ type: CONFIG_TYPE_ADDITIONAL_BLOCKS, consistencyLevel, blocksToWait });
+    }
+  });
+
+  it("should reject out of range fields", function () {
+    expect(() => encodeAdditionalBlocksConfig(256, 0)).to.throw("consistencyLevel must be a uint8");
+    expect(() => encodeAdditionalBlocksConfig(-1, 0)).to.throw("consistencyLevel must be a uint8");
+    expect(() => encodeAdditionalBlocksConfig(1, 65536)).to.throw("blocksToWait must be a uint16");
+    expect(() => encodeAdditionalBlocksConfig(1, 1.5)).to.throw("blocksToWait must be a uint16");
+  });
+
+  it("should decode unconfigured emitters as null and reject malformed configs", function () {
+    expect(decodeConfig(ethers.constants.HashZero)).to.equal(null);
+
+    const valid = encodeAdditionalBlocksConfig(201, 5);
+    expect(() => decodeConfig("0x02" + valid.slice(4))).to.throw("unknown config type 2");
+    expect(() => decodeConfig(valid.slice(0, -2) + "01")).to.throw("invalid AdditionalBlocks config: nonzero padding");
+    expect(() => decodeConfig(valid.slice(0, -2))).to.throw("config must be 32 bytes");
+    expect(() => encodeConfig({ type: 0xfe })).to.throw("unknown config type 254");
+  });
+
+  it("should accept new config types without touching existing ones", function () {
+    expect(() => registerConfigType(CONFIG_TYPE_ADDITIONAL_BLOCKS, { name: "Again", encode: () => "0x", decode: () => ({ type: 1 }) }))
+      .to.throw("config type 1 already registered");
+
+    registerConfigType(0xff, {
+      name: "Test",
+      encode: config => ethers.utils.hexZeroPad(ethers.utils.hexlify(config.value), 4),
+      decode: bytes => ({ type: 0xff, value: ethers.BigNumber.from(bytes.subarray(0, 4)).toNumber() })
+    });
+
+    const encoded = encodeConfig({ type: 0xff, value: 0x1234 });
+    expect(encoded).to.equal("0xff00001234" + "00".repeat(27));
+    expect(decodeConfig(encoded)).to.deep.equal({ type: 0xff, value: 0x1234 });
+  });
+
+  it("should read the current config and ConfigSet history of an emitter", async function () {
+    this.timeout(60000);
+    const ownerAddress = await owner.getAddress();
+    await (await customConsistencyLevel.configure(encodeAdditionalBlocksConfig(1, 10))).wait();
+    await (await customConsistencyLevel.configure("0x03" + "00".repeat(31))).wait();
+    await (await customConsistencyLevel.configure(encodeAdditionalBlocksConfig(200, 3))).wait();
+
+    const read = await readEmitterConfig(ethers.provider, customConsistencyLevel.address, ownerAddress, deployBlock);
+    expect(read.emitter).to.equal(ownerAddress);
+    expect(read.current.config).to.deep.equal({ type: CONFIG_TYPE_ADDITIONAL_BLOCKS, consistencyLevel: 200, blocksToWait: 3 });
+
+    // Only the owner's events, oldest first, with undecodable configs kept and flagged
+    expect(read.history.map(e => e.raw)).to.deep.equal([
+      encodeAdditionalBlocksConfig(1, 10),
+      "0x03" + "00".repeat(31),
+      encodeAdditionalBlocksConfig(200, 3)
+    ]);
+    expect(read.history[1].config).to.equal(null);
+    expect(read.history[1].error).to.equal("unknown config type 3");
+
+    const unconfigured = await readEmitterConfig(ethers.provider, customConsistencyLevel.address, wormholeAddr, deployBlock);
+    expect(unconfigured.current).to.deep.equal({ raw: ethers.constants.HashZero, config: null });
+    expect(unconfigured.history).to.deep.equal([]);
+  });
+});
@@ -1,6 +1,7 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
 import { Contract, Signer } from "ethers";
+import { encodeAdditionalBlocksConfig } from "../scripts/lib/ConsistencyLevelConfig";
 
 describe("CustomConsistencyLevel", function () {
   let customConsistencyLevel: Contract;
@@ -28,16 +29,8 @@ describe("CustomConsistencyLevel", function () {
   it("should make additional blocks config correctly (test_makeAdditionalBlocksConfig)", async function () {
     const expected = "0x01c9002a00000000000000000000000000000000000000000000000000000000";
     
-    // Since ConfigMakers is a library, we test the expected encoded value
-    const TYPE_ADDITIONAL_BLOCKS = 1;
-    const consistencyLevel = 201; // 0xc9
-    const blocksToWait = 42; // 0x002a
-    
-    // Pack like Foundry: TYPE_ADDITIONAL_BLOCKS (1 byte) + consistencyLevel (1 byte) + blocksToWait (2 bytes) + padding (28 bytes)
-    const encoded = ethers.utils.solidityPack(
-      ["uint8", "uint8", "uint16"],
-      [TYPE_ADDITIONAL_BLOCKS, consistencyLevel, blocksToWait]
-    ) + "0".repeat(56); // Add 28 bytes of padding
+    // Since ConfigMakers is a library, we test the TypeScript port against the expected encoded value
+    const encoded = encodeAdditionalBlocksConfig(201, 42);
     
     expect(encoded).to.equal(expected);
   });
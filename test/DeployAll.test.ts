@@ -0,0 +1,60 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ethers } from "hardhat";
+import { DeployAllParams, deployAll, readDeploymentManifest } from "../scripts/DeployAll";
+
+describe("DeployAll", function () {
+  let dir: string;
+  let params: DeployAllParams;
+
+  before(async function () {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "deploy-all-"));
+    params = {
+      initialSigners: ["0xbeFA429d57cD18b7F8A4d91A2da9AB4AF05d0FBe"],
+      chainId: 2,
+      governanceChainId: 1,
+      governanceContract: "0x0000000000000000000000000000000000000000000000000000000000000004",
+      evmChainId: (await ethers.provider.getNetwork()).chainId,
+      finality: 15
+    };
+  });
+
+  after(function () {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should wire core and WETH into both bridges and record them in the manifest", async function () {
+    this.timeout(300000);
+    const file = path.join(dir, "manifest.json");
+    const manifest = await deployAll(params, file);
+
+    expect(readDeploymentManifest(file)).to.deep.equal(manifest);
+    expect(manifest.params).to.deep.equal(params);
+    expect(manifest.weth).to.equal(manifest.testTokens!.deployedWETHaddress);
+
+    const core = await ethers.getContractAt("Implementation", manifest.core.deployedAddress);
+    expect(await core.chainId()).to.equal(2);
+    expect(await core.getGuardianSet(0).then((set: any) => set.keys)).to.deep.equal(params.initialSigners);
+
+    const tokenBridge = await ethers.getContractAt("ITokenBridge", manifest.tokenBridge.deployedAddress);
+    expect(await tokenBridge.wormhole()).to.equal(manifest.core.deployedAddress);
+    expect(await tokenBridge.WETH()).to.equal(manifest.weth);
+    expect(await tokenBridge.tokenImplementation()).to.equal(manifest.tokenBridge.tokenImplementationAddress);
+
+    const nftBridge = await ethers.getContractAt("INFTBridge", manifest.nftBridge.deployedAddress);
+    expect(await nftBridge.wormhole()).to.equal(manifest.core.deployedAddress);
+    expect(await nftBridge.tokenImplementation()).to.equal(manifest.nftBridge.nftImplementationAddress);
+  });
+
+  it("should use the given WETH instead of deploying test tokens", async function () {
+    this.timeout(300000);
+    const weth = "0x000000000000000000000000000000000000dEaD";
+    const manifest = await deployAll({ ...params, weth });
+
+    expect(manifest.testTokens).to.equal(undefined);
+    const tokenBridge = await ethers.getContractAt("ITokenBridge", manifest.tokenBridge.deployedAddress);
+    expect(await tokenBridge.WETH()).to.equal(weth);
+  });
+});
@@ -1,7 +1,15 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
 import { Contract, Signer } from "ethers";
-import { SigningKey } from "ethers/lib/utils";
+import { hashVMBody, signAndEncodeVM } from "../scripts/lib/VAA";
+import {
+  CORE_MODULE,
+  encodeContractUpgrade,
+  encodeCoreRecoverChainId,
+  encodeGuardianSetUpgrade,
+  encodeSetMessageFee,
+  encodeTransferFees
+} from "../scripts/lib/GovernancePayloads";
 
 describe("Governance", function () {
   this.timeout(60000);
@@ -14,7 +22,7 @@ describe("Governance", function () {
 
   const CHAINID = 2;
   let EVMCHAINID: number; // Will be dynamically set from network
-  const MODULE = "0x00000000000000000000000000000000000000000000000000000000436f7265";
+  const MODULE = CORE_MODULE;
   const governanceContract = "0x0000000000000000000000000000000000000000000000000000000000000004";
   
   // Storage slots
@@ -99,60 +107,10 @@ describe("Governance", function () {
     consistencyLevel: number,
     payload: string
   ): string {
-    const body = ethers.utils.solidityPack(
-      ["uint32", "uint32", "uint16", "bytes32", "uint64", "uint8", "bytes"],
-      [timestamp, nonce, emitterChainId, emitterAddress, sequence, consistencyLevel, payload]
-    );
-
-    const bodyHash = ethers.utils.keccak256(ethers.utils.keccak256(body));
-
-    // Create signature
-    const signingKey = new SigningKey(testGuardianPrivateKey);
-    const signature = signingKey.signDigest(bodyHash);
-    const formattedSignature = ethers.utils.solidityPack(
-      ["uint8", "bytes32", "bytes32", "uint8"],
-      [0, signature.r, signature.s, signature.recoveryParam]
-    );
-
-    return ethers.utils.solidityPack(
-      ["uint8", "uint32", "uint8", "bytes", "bytes"],
-      [1, guardianSetIndex, 1, formattedSignature, body]
-    );
-  }
-
-  function payloadSubmitContract(module: string, chainId: number, implementation: string): string {
-    return ethers.utils.solidityPack(
-      ["bytes32", "uint8", "uint16", "bytes32"],
-      [module, 1, chainId, ethers.utils.hexZeroPad(implementation, 32)]
-    );
-  }
-
-  function payloadSetMessageFee(module: string, chainId: number, fee: string): string {
-    return ethers.utils.solidityPack(
-      ["bytes32", "uint8", "uint16", "uint256"],
-      [module, 3, chainId, fee]
-    );
-  }
-
-  function payloadNewGuardianSet(module: string, chainId: number, guardianSetIndex: number, guardians: string[]): string {
-    const guardianData = guardians.map(g => ethers.utils.hexZeroPad(g, 20).slice(2)).join('');
-    return ethers.utils.solidityPack(
-      ["bytes32", "uint8", "uint16", "uint32", "uint8", "bytes"],
-      [module, 2, chainId, guardianSetIndex, guardians.length, "0x" + guardianData]
-    );
-  }
-
-  function payloadTransferFees(module: string, chainId: number, recipient: string, amount: string): string {
-    return ethers.utils.solidityPack(
-      ["bytes32", "uint8", "uint16", "bytes32", "uint256"],
-      [module, 4, chainId, ethers.utils.hexZeroPad(recipient, 32), amount]
-    );
-  }
-
-  function payloadRecoverChainId(module: string, evmChainId: number, newChainId: number): string {
-    return ethers.utils.solidityPack(
-      ["bytes32", "uint8", "uint256", "uint16"],
-      [module, 5, evmChainId, newChainId]
+    return signAndEncodeVM(
+      { timestamp, nonce, emitterChainId, emitterAddress, sequence, consistencyLevel, payload },
+      [testGuardianPrivateKey],
+      guardianSetIndex
     );
   }
 
@@ -185,7 +143,7 @@ describe("Governance", function () {
       const newImpl = await NewImplFactory.deploy(EVMCHAINID, CHAINID);
       await newImpl.deployed();
       
-      const payload = payloadSubmitContract(MODULE, CHAINID, newImpl.address);
+      const payload = encodeContractUpgrade({ module: MODULE, chain: CHAINID, newContract: newImpl.address });
       const vm = createValidVm(0, timestamp, nonce, 1, governanceContract, sequence, 15, payload);
       
       await proxied.submitContractUpgrade(vm);
@@ -196,14 +154,15 @@ describe("Governance", function () {
       expect(await proxied.isInitialized(newImpl.address)).to.be.true;
       
       // Verify action was consumed
-      const bodyHash = ethers.utils.keccak256(
-        ethers.utils.keccak256(
-          ethers.utils.solidityPack(
-            ["uint32", "uint32", "uint16", "bytes32", "uint64", "uint8", "bytes"],
-            [timestamp, nonce, 1, governanceContract, sequence, 15, payload]
-          )
-        )
-      );
+      const bodyHash = hashVMBody({
+        timestamp,
+        nonce,
+        emitterChainId: 1,
+        emitterAddress: governanceContract,
+        sequence,
+        consistencyLevel: 15,
+        payload
+      });
       expect(await proxied.governanceActionIsConsumed(bodyHash)).to.be.true;
     });
 
@@ -217,7 +176,7 @@ describe("Governance", function () {
       const newImpl = await NewImplFactory.deploy(EVMCHAINID, CHAINID);
       await newImpl.deployed();
       
-      const payload = payloadSubmitContract(MODULE, CHAINID, newImpl.address);
+      const payload = encodeContractUpgrade({ module: MODULE, chain: CHAINID, newContract: newImpl.address });
       const vm = createValidVm(0, timestamp, nonce, 1, governanceContract, sequence, 15, payload);
       
       // Submit upgrade and verify event emission
@@ -238,7 +197,7 @@ describe("Governance", function () {
       const newImpl = await NewImplFactory.deploy(EVMCHAINID, CHAINID);
       await newImpl.deployed();
       
-      const payload = payloadSubmitContract(MODULE, CHAINID, newImpl.address);
+      const payload = encodeContractUpgrade({ module: MODULE, chain: CHAINID, newContract: newImpl.address });
       const vm = createValidVm(0, 1000, 1003, 1, governanceContract, 3, 15, payload);
       
       await proxied.submitContractUpgrade(vm);
@@ -262,7 +221,7 @@ describe("Governance", function () {
       const newImpl = await NewImplFactory.deploy(EVMCHAINID, CHAINID);
       await newImpl.deployed();
       
-      const payload = payloadSubmitContract(MODULE, CHAINID, newImpl.address);
+      const payload = encodeContractUpgrade({ module: MODULE, chain: CHAINID, newContract: newImpl.address });
       const vm = createValidVm(0, timestamp, nonce, 1, governanceContract, sequence, 15, payload);
       
       // Change EVM chain ID to simulate fork
@@ -291,7 +250,7 @@ describe("Governance", function () {
       await newImpl.deployed();
       
       const invalidModule = "0x0000000000000000000000000000000000000000000000000000000000000000";
-      const payload = payloadSubmitContract(invalidModule, CHAINID, newImpl.address);
+      const payload = encodeContractUpgrade({ module: invalidModule, chain: CHAINID, newContract: newImpl.address });
       const vm = createValidVm(0, timestamp, nonce, 1, governanceContract, sequence, 15, payload);
       
       try {
@@ -312,7 +271,7 @@ describe("Governance", function () {
       const newImpl = await NewImplFactory.deploy(EVMCHAINID, CHAINID);
       await newImpl.deployed();
       
-      const payload = payloadSubmitContract(MODULE, 999, newImpl.address); // Invalid chain
+      const payload = encodeContractUpgrade({ module: MODULE, chain: 999, newContract: newImpl.address }); // Invalid chain
       const vm = createValidVm(0, timestamp, nonce, 1, governanceContract, sequence, 15, payload);
       
       try {
@@ -333,7 +292,7 @@ describe("Governance", function () {
       const newImpl = await NewImplFactory.deploy(EVMCHAINID, CHAINID);
       await newImpl.deployed();
       
-      const payload = payloadSubmitContract(MODULE, CHAINID, newImpl.address);
+      const payload = encodeContractUpgrade({ module: MODULE, chain: CHAINID, newContract: newImpl.address });
       const vm = createValidVm(999, timestamp, nonce, 1, governanceContract, sequence, 15, payload); // Invalid guardian set
       
       try {
@@ -354,7 +313,7 @@ describe("Governance", function () {
       const newImpl = await NewImplFactory.deploy(EVMCHAINID, CHAINID);
       await newImpl.deployed();
       
-      const payload = payloadSubmitContract(MODULE, CHAINID, newImpl.address);
+      const payload = encodeContractUpgrade({ module: MODULE, chain: CHAINID, newContract: newImpl.address });
       const vm = createValidVm(0, timestamp, nonce, 999, governanceContract, sequence, 15, payload); // Wrong chain
       
       try {
@@ -376,7 +335,7 @@ describe("Governance", function () {
       await newImpl.deployed();
       
       const wrongGovernanceContract = "0x0000000000000000000000000000000000000000000000000000000000000999";
-      const payload = payloadSubmitContract(MODULE, CHAINID, newImpl.address);
+      const payload = encodeContractUpgrade({ module: MODULE, chain: CHAINID, newContract: newImpl.address });
       const vm = createValidVm(0, timestamp, nonce, 1, wrongGovernanceContract, sequence, 15, payload);
       
       try {
@@ -397,7 +356,7 @@ describe("Governance", function () {
       const newImpl = await NewImplFactory.deploy(EVMCHAINID, CHAINID);
       await newImpl.deployed();
       
-      const payload = payloadSubmitContract(MODULE, CHAINID, newImpl.address);
+      const payload = encodeContractUpgrade({ module: MODULE, chain: CHAINID, newContract: newImpl.address });
       const vm = createValidVm(0, timestamp, nonce, 1, governanceContract, sequence, 15, payload);
       
       // First upgrade should succeed
@@ -420,7 +379,7 @@ describe("Governance", function () {
       const sequence = 20;
       const newFee = ethers.utils.parseEther("0.01");
       
-      const payload = payloadSetMessageFee(MODULE, CHAINID, newFee.toString());
+      const payload = encodeSetMessageFee({ module: MODULE, chain: CHAINID, messageFee: newFee });
       const vm = createValidVm(0, timestamp, nonce, 1, governanceContract, sequence, 15, payload);
       
       await proxied.submitSetMessageFee(vm);
@@ -429,14 +388,15 @@ describe("Governance", function () {
       expect((await proxied.messageFee()).toString()).to.equal(newFee.toString());
       
       // Verify action was consumed
-      const bodyHash = ethers.utils.keccak256(
-        ethers.utils.keccak256(
-          ethers.utils.solidityPack(
-            ["uint32", "uint32", "uint16", "bytes32", "uint64", "uint8", "bytes"],
-            [timestamp, nonce, 1, governanceContract, sequence, 15, payload]
-          )
-        )
-      );
+      const bodyHash = hashVMBody({
+        timestamp,
+        nonce,
+        emitterChainId: 1,
+        emitterAddress: governanceContract,
+        sequence,
+        consistencyLevel: 15,
+        payload
+      });
       expect(await proxied.governanceActionIsConsumed(bodyHash)).to.be.true;
     });
 
@@ -447,7 +407,7 @@ describe("Governance", function () {
       const newFee = ethers.utils.parseEther("0.01");
       
       const invalidModule = "0x0000000000000000000000000000000000000000000000000000000000000000";
-      const payload = payloadSetMessageFee(invalidModule, CHAINID, newFee.toString());
+      const payload = encodeSetMessageFee({ module: invalidModule, chain: CHAINID, messageFee: newFee });
       const vm = createValidVm(0, timestamp, nonce, 1, governanceContract, sequence, 15, payload);
       
       try {
@@ -464,7 +424,7 @@ describe("Governance", function () {
       const sequence = 22;
       const newFee = ethers.utils.parseEther("0.01");
       
-      const payload = payloadSetMessageFee(MODULE, 999, newFee.toString()); // Invalid chain
+      const payload = encodeSetMessageFee({ module: MODULE, chain: 999, messageFee: newFee }); // Invalid chain
       const vm = createValidVm(0, timestamp, nonce, 1, governanceContract, sequence, 15, payload);
       
       try {
@@ -481,7 +441,7 @@ describe("Governance", function () {
       const sequence = 23;
       const newFee = ethers.utils.parseEther("0.01");
       
-      const payload = payloadSetMessageFee(MODULE, 999, newFee.toString()); // Invalid chain in payload
+      const payload = encodeSetMessageFee({ module: MODULE, chain: 999, messageFee: newFee }); // Invalid chain in payload
       const vm = createValidVm(0, timestamp, nonce, 1, governanceContract, sequence, 15, payload);
       
       try {
@@ -498,7 +458,7 @@ describe("Governance", function () {
       const sequence = 24;
       const newFee = ethers.utils.parseEther("0.01");
       
-      const payload = payloadSetMessageFee(MODULE, CHAINID, newFee.toString());
+      const payload = encodeSetMessageFee({ module: MODULE, chain: CHAINID, messageFee: newFee });
       const vm = createValidVm(999, timestamp, nonce, 1, governanceContract, sequence, 15, payload); // Invalid guardian set
       
       try {
@@ -515,7 +475,7 @@ describe("Governance", function () {
       const sequence = 25;
       const newFee = ethers.utils.parseEther("0.01");
       
-      const payload = payloadSetMessageFee(MODULE, CHAINID, newFee.toString());
+      const payload = encodeSetMessageFee({ module: MODULE, chain: CHAINID, messageFee: newFee });
       const vm = createValidVm(0, timestamp, nonce, 999, governanceContract, sequence, 15, payload); // Wrong chain
       
       try {
@@ -533,7 +493,7 @@ describe("Governance", function () {
       const newFee = ethers.utils.parseEther("0.01");
       
       const wrongGovernanceContract = "0x0000000000000000000000000000000000000000000000000000000000000999";
-      const payload = payloadSetMessageFee(MODULE, CHAINID, newFee.toString());
+      const payload = encodeSetMessageFee({ module: MODULE, chain: CHAINID, messageFee: newFee });
       const vm = createValidVm(0, timestamp, nonce, 1, wrongGovernanceContract, sequence, 15, payload);
       
       try {
@@ -550,7 +510,7 @@ describe("Governance", function () {
       const sequence = 27;
       const newFee = ethers.utils.parseEther("0.01");
       
-      const payload = payloadSetMessageFee(MODULE, CHAINID, newFee.toString());
+      const payload = encodeSetMessageFee({ module: MODULE, chain: CHAINID, messageFee: newFee });
       const vm = createValidVm(0, timestamp, nonce, 1, governanceContract, sequence, 15, payload);
       
       // First submission should succeed
@@ -574,20 +534,21 @@ describe("Governance", function () {
       const newGuardianSetIndex = 1;
       const newGuardians = ["0x1234567890123456789012345678901234567890"];
       
-      const payload = payloadNewGuardianSet(MODULE, CHAINID, newGuardianSetIndex, newGuardians);
+      const payload = encodeGuardianSetUpgrade({ module: MODULE, chain: CHAINID, newGuardianSetIndex, keys: newGuardians });
       const vm = createValidVm(0, timestamp, nonce, 1, governanceContract, sequence, 15, payload);
       
       await proxied.submitNewGuardianSet(vm);
       
       // Verify action was consumed
-      const bodyHash = ethers.utils.keccak256(
-        ethers.utils.keccak256(
-          ethers.utils.solidityPack(
-            ["uint32", "uint32", "uint16", "bytes32", "uint64", "uint8", "bytes"],
-            [timestamp, nonce, 1, governanceContract, sequence, 15, payload]
-          )
-        )
-      );
+      const bodyHash = hashVMBody({
+        timestamp,
+        nonce,
+        emitterChainId: 1,
+        emitterAddress: governanceContract,
+        sequence,
+        consistencyLevel: 15,
+        payload
+      });
       expect(await proxied.governanceActionIsConsumed(bodyHash)).to.be.true;
       
       // Verify new guardian set was set
@@ -610,7 +571,7 @@ describe("Governance", function () {
       const newGuardians = ["0x1234567890123456789012345678901234567890"];
       
       const invalidModule = "0x0000000000000000000000000000000000000000000000000000000000000000";
-      const payload = payloadNewGuardianSet(invalidModule, CHAINID, newGuardianSetIndex, newGuardians);
+      const payload = encodeGuardianSetUpgrade({ module: invalidModule, chain: CHAINID, newGuardianSetIndex, keys: newGuardians });
       const vm = createValidVm(0, timestamp, nonce, 1, governanceContract, sequence, 15, payload);
       
       try {
@@ -628,7 +589,7 @@ describe("Governance", function () {
       const newGuardianSetIndex = 1;
       const newGuardians = ["0x1234567890123456789012345678901234567890"];
       
-      const payload = payloadNewGuardianSet(MODULE, 999, newGuardianSetIndex, newGuardians); // Invalid chain
+      const payload = encodeGuardianSetUpgrade({ module: MODULE, chain: 999, newGuardianSetIndex, keys: newGuardians }); // Invalid chain
       const vm = createValidVm(0, timestamp, nonce, 1, governanceContract, sequence, 15, payload);
       
       try {
@@ -653,7 +614,7 @@ describe("Governance", function () {
         ethers.utils.hexZeroPad("0x2", 32) // Different EVM chain ID
       ]);
       
-      const payload = payloadNewGuardianSet(MODULE, CHAINID, newGuardianSetIndex, newGuardians);
+      const payload = encodeGuardianSetUpgrade({ module: MODULE, chain: CHAINID, newGuardianSetIndex, keys: newGuardians });
       const vm = createValidVm(0, timestamp, nonce, 1, governanceContract, sequence, 15, payload);
       
       try {
@@ -671,7 +632,7 @@ describe("Governance", function () {
       const newGuardianSetIndex = 1;
       const emptyGuardians: string[] = []; // Empty guardian set
       
-      const payload = payloadNewGuardianSet(MODULE, CHAINID, newGuardianSetIndex, emptyGuardians);
+      const payload = encodeGuardianSetUpgrade({ module: MODULE, chain: CHAINID, newGuardianSetIndex, keys: emptyGuardians });
       const vm = createValidVm(0, timestamp, nonce, 1, governanceContract, sequence, 15, payload);
       
       try {
@@ -689,7 +650,7 @@ describe("Governance", function () {
       const wrongGuardianSetIndex = 999; // Wrong index
       const newGuardians = [ethers.Wallet.createRandom().address];
       
-      const payload = payloadNewGuardianSet(MODULE, CHAINID, wrongGuardianSetIndex, newGuardians);
+      const payload = encodeGuardianSetUpgrade({ module: MODULE, chain: CHAINID, newGuardianSetIndex: wrongGuardianSetIndex, keys: newGuardians });
       const vm = createValidVm(0, timestamp, nonce, 1, governanceContract, sequence, 15, payload);
       
       try {
@@ -707,7 +668,7 @@ describe("Governance", function () {
       const newGuardianSetIndex = 1;
       const newGuardians = ["0x1234567890123456789012345678901234567890"];
       
-      const payload = payloadNewGuardianSet(MODULE, CHAINID, newGuardianSetIndex, newGuardians);
+      const payload = encodeGuardianSetUpgrade({ module: MODULE, chain: CHAINID, newGuardianSetIndex, keys: newGuardians });
       const vm = createValidVm(999, timestamp, nonce, 1, governanceContract, sequence, 15, payload); // Invalid guardian set index
       
       try {
@@ -725,7 +686,7 @@ describe("Governance", function () {
       const newGuardianSetIndex = 1;
       const newGuardians = ["0x1234567890123456789012345678901234567890"];
       
-      const payload = payloadNewGuardianSet(MODULE, CHAINID, newGuardianSetIndex, newGuardians);
+      const payload = encodeGuardianSetUpgrade({ module: MODULE, chain: CHAINID, newGuardianSetIndex, keys: newGuardians });
       const vm = createValidVm(0, timestamp, nonce, 999, governanceContract, sequence, 15, payload); // Wrong chain
       
       try {
@@ -744,7 +705,7 @@ describe("Governance", function () {
       const newGuardians = ["0x1234567890123456789012345678901234567890"];
       
       const wrongGovernanceContract = "0x0000000000000000000000000000000000000000000000000000000000000999";
-      const payload = payloadNewGuardianSet(MODULE, CHAINID, newGuardianSetIndex, newGuardians);
+      const payload = encodeGuardianSetUpgrade({ module: MODULE, chain: CHAINID, newGuardianSetIndex, keys: newGuardians });
       const vm = createValidVm(0, timestamp, nonce, 1, wrongGovernanceContract, sequence, 15, payload);
       
       try {
@@ -762,7 +723,7 @@ describe("Governance", function () {
       const newGuardianSetIndex = 1;
       const newGuardians = ["0x1234567890123456789012345678901234567890"];
       
-      const payload = payloadNewGuardianSet(MODULE, CHAINID, newGuardianSetIndex, newGuardians);
+      const payload = encodeGuardianSetUpgrade({ module: MODULE, chain: CHAINID, newGuardianSetIndex, keys: newGuardians });
       const vm = createValidVm(0, timestamp, nonce, 1, governanceContract, sequence, 15, payload);
       
       // First submission should succeed
@@ -799,7 +760,7 @@ describe("Governance", function () {
       ]);
       
       // Use chain ID 0 for global operation as per Governance.sol line 131
-      const payload = payloadTransferFees(MODULE, 0, recipient, amount.toString());
+      const payload = encodeTransferFees({ module: MODULE, chain: 0, amount, recipient });
       const vm = createValidVm(0, timestamp, nonce, 1, governanceContract, sequence, 15, payload);
       
       const recipientBalanceBefore = await ethers.provider.getBalance(recipient);
@@ -814,14 +775,15 @@ describe("Governance", function () {
       expect(await ethers.provider.getBalance(proxied.address)).to.equal(amount.mul(9));
       
       // Verify action was consumed
-      const bodyHash = ethers.utils.keccak256(
-        ethers.utils.keccak256(
-          ethers.utils.solidityPack(
-            ["uint32", "uint32", "uint16", "bytes32", "uint64", "uint8", "bytes"],
-            [timestamp, nonce, 1, governanceContract, sequence, 15, payload]
-          )
-        )
-      );
+      const bodyHash = hashVMBody({
+        timestamp,
+        nonce,
+        emitterChainId: 1,
+        emitterAddress: governanceContract,
+        sequence,
+        consistencyLevel: 15,
+        payload
+      });
       expect(await proxied.governanceActionIsConsumed(bodyHash)).to.be.true;
     });
 
@@ -833,7 +795,7 @@ describe("Governance", function () {
       const amount = ethers.utils.parseEther("1");
       
       const invalidModule = "0x0000000000000000000000000000000000000000000000000000000000000000";
-      const payload = payloadTransferFees(invalidModule, 0, recipient, amount.toString());
+      const payload = encodeTransferFees({ module: invalidModule, chain: 0, amount, recipient });
       const vm = createValidVm(0, timestamp, nonce, 1, governanceContract, sequence, 15, payload);
       
       try {
@@ -851,7 +813,7 @@ describe("Governance", function () {
       const recipient = ethers.Wallet.createRandom().address;
       const amount = ethers.utils.parseEther("1");
       
-      const payload = payloadTransferFees(MODULE, 999, recipient, amount.toString()); // Invalid chain
+      const payload = encodeTransferFees({ module: MODULE, chain: 999, amount, recipient }); // Invalid chain
       const vm = createValidVm(0, timestamp, nonce, 1, governanceContract, sequence, 15, payload);
       
       try {
@@ -869,7 +831,7 @@ describe("Governance", function () {
       const recipient = ethers.Wallet.createRandom().address;
       const amount = ethers.utils.parseEther("1");
       
-      const payload = payloadTransferFees(MODULE, CHAINID, recipient, amount.toString()); // Use specific chain ID to test fork validation
+      const payload = encodeTransferFees({ module: MODULE, chain: CHAINID, amount, recipient }); // Use specific chain ID to test fork validation
       const vm = createValidVm(0, timestamp, nonce, 1, governanceContract, sequence, 15, payload);
       
       // Change EVM chain ID to simulate invalid EVM chain
@@ -895,7 +857,7 @@ describe("Governance", function () {
       const recipient = ethers.Wallet.createRandom().address;
       const amount = ethers.utils.parseEther("1");
       
-      const payload = payloadTransferFees(MODULE, 0, recipient, amount.toString());
+      const payload = encodeTransferFees({ module: MODULE, chain: 0, amount, recipient });
       const vm = createValidVm(999, timestamp, nonce, 1, governanceContract, sequence, 15, payload); // Invalid guardian set
       
       try {
@@ -913,7 +875,7 @@ describe("Governance", function () {
       const recipient = ethers.Wallet.createRandom().address;
       const amount = ethers.utils.parseEther("1");
       
-      const payload = payloadTransferFees(MODULE, 0, recipient, amount.toString());
+      const payload = encodeTransferFees({ module: MODULE, chain: 0, amount, recipient });
       const vm = createValidVm(0, timestamp, nonce, 999, governanceContract, sequence, 15, payload); // Wrong chain
       
       try {
@@ -932,7 +894,7 @@ describe("Governance", function () {
       const amount = ethers.utils.parseEther("1");
       
       const wrongGovernanceContract = "0x0000000000000000000000000000000000000000000000000000000000000999";
-      const payload = payloadTransferFees(MODULE, 0, recipient, amount.toString());
+      const payload = encodeTransferFees({ module: MODULE, chain: 0, amount, recipient });
       const vm = createValidVm(0, timestamp, nonce, 1, wrongGovernanceContract, sequence, 15, payload);
       
       try {
@@ -963,7 +925,7 @@ describe("Governance", function () {
       ]);
       
       // Use chain ID 0 for global operation as per Governance.sol line 131
-      const payload = payloadTransferFees(MODULE, 0, recipient, amount.toString());
+      const payload = encodeTransferFees({ module: MODULE, chain: 0, amount, recipient });
       const vm = createValidVm(0, timestamp, nonce, 1, governanceContract, sequence, 15, payload);
       
       // First submission should succeed
@@ -992,7 +954,7 @@ describe("Governance", function () {
       const network = await ethers.provider.getNetwork();
       const currentChainId = network.chainId;
       
-      const payload = payloadRecoverChainId(MODULE, currentChainId, newChainId);
+      const payload = encodeCoreRecoverChainId({ module: MODULE, evmChainId: currentChainId, newChainId });
       const vm = createValidVm(0, timestamp, nonce, 1, governanceContract, sequence, 15, payload);
       
       // Simulate being on a fork by changing the EVM chain ID to be different than block.chainid
@@ -1005,14 +967,15 @@ describe("Governance", function () {
       await proxied.submitRecoverChainId(vm);
       
       // Verify action was consumed
-      const bodyHash = ethers.utils.keccak256(
-        ethers.utils.keccak256(
-          ethers.utils.solidityPack(
-            ["uint32", "uint32", "uint16", "bytes32", "uint64", "uint8", "bytes"],
-            [timestamp, nonce, 1, governanceContract, sequence, 15, payload]
-          )
-        )
-      );
+      const bodyHash = hashVMBody({
+        timestamp,
+        nonce,
+        emitterChainId: 1,
+        emitterAddress: governanceContract,
+        sequence,
+        consistencyLevel: 15,
+        payload
+      });
       expect(await proxied.governanceActionIsConsumed(bodyHash)).to.be.true;
       
       // Verify chain IDs were updated
@@ -1026,7 +989,7 @@ describe("Governance", function () {
       const sequence = 51;
       const newChainId = 3;
       
-      const payload = payloadRecoverChainId(MODULE, EVMCHAINID, newChainId); // Same as current EVM chain ID
+      const payload = encodeCoreRecoverChainId({ module: MODULE, evmChainId: EVMCHAINID, newChainId }); // Same as current EVM chain ID
       const vm = createValidVm(0, timestamp, nonce, 1, governanceContract, sequence, 15, payload);
       
       try {
@@ -1049,7 +1012,7 @@ describe("Governance", function () {
       const currentChainId = network.chainId;
       
       const invalidModule = "0x0000000000000000000000000000000000000000000000000000000000000000";
-      const payload = payloadRecoverChainId(invalidModule, currentChainId, newChainId);
+      const payload = encodeCoreRecoverChainId({ module: invalidModule, evmChainId: currentChainId, newChainId });
       const vm = createValidVm(0, timestamp, nonce, 1, governanceContract, sequence, 15, payload);
       
       // Make sure contract is in fork state
@@ -1076,7 +1039,7 @@ describe("Governance", function () {
       const forkEvmChainId = 999;
       const wrongEvmChainId = 888; // Different from both current chain and fork chain
       
-      const payload = payloadRecoverChainId(MODULE, wrongEvmChainId, newChainId);
+      const payload = encodeCoreRecoverChainId({ module: MODULE, evmChainId: wrongEvmChainId, newChainId });
       const vm = createValidVm(0, timestamp, nonce, 1, governanceContract, sequence, 15, payload);
       
       // Make sure contract is in fork state 
@@ -1106,7 +1069,7 @@ describe("Governance", function () {
       const network = await ethers.provider.getNetwork();
       const currentChainId = network.chainId;
       
-      const payload = payloadRecoverChainId(MODULE, currentChainId, newChainId);
+      const payload = encodeCoreRecoverChainId({ module: MODULE, evmChainId: currentChainId, newChainId });
       const vm = createValidVm(999, timestamp, nonce, 1, governanceContract, sequence, 15, payload); // Invalid guardian set
       
       // Make sure contract is in fork state
@@ -1136,7 +1099,7 @@ describe("Governance", function () {
       const network = await ethers.provider.getNetwork();
       const currentChainId = network.chainId;
       
-      const payload = payloadRecoverChainId(MODULE, currentChainId, newChainId);
+      const payload = encodeCoreRecoverChainId({ module: MODULE, evmChainId: currentChainId, newChainId });
       const vm = createValidVm(0, timestamp, nonce, 999, governanceContract, sequence, 15, payload); // Wrong chain
       
       // Make sure contract is in fork state
@@ -1166,7 +1129,7 @@ describe("Governance", function () {
       const currentChainId = network.chainId;
       
       const wrongGovernanceContract = "0x0000000000000000000000000000000000000000000000000000000000000999";
-      const payload = payloadRecoverChainId(MODULE, currentChainId, newChainId);
+      const payload = encodeCoreRecoverChainId({ module: MODULE, evmChainId: currentChainId, newChainId });
       const vm = createValidVm(0, timestamp, nonce, 1, wrongGovernanceContract, sequence, 15, payload);
       
       // Make sure contract is in fork state
@@ -1196,7 +1159,7 @@ describe("Governance", function () {
       const network = await ethers.provider.getNetwork();
       const currentChainId = network.chainId;
       
-      const payload = payloadRecoverChainId(MODULE, currentChainId, newChainId);
+      const payload = encodeCoreRecoverChainId({ module: MODULE, evmChainId: currentChainId, newChainId });
       const vm = createValidVm(0, timestamp, nonce, 1, governanceContract, sequence, 15, payload);
       
       // Simulate being on a fork by changing the EVM chain ID
@@ -1246,26 +1209,26 @@ describe("Governance", function () {
             const NewImplFactory = await ethers.getContractFactory("MyImplementation", owner);
             const newImpl = await NewImplFactory.deploy(EVMCHAINID, CHAINID);
             await newImpl.deployed();
-            payload = payloadSubmitContract(MODULE, CHAINID, newImpl.address);
+            payload = encodeContractUpgrade({ module: MODULE, chain: CHAINID, newContract: newImpl.address });
             break;
           case 2:
-            payload = payloadNewGuardianSet(MODULE, CHAINID, 1, [ethers.Wallet.createRandom().address]);
+            payload = encodeGuardianSetUpgrade({ module: MODULE, chain: CHAINID, newGuardianSetIndex: 1, keys: [ethers.Wallet.createRandom().address] });
             break;
           case 3:
-            payload = payloadSetMessageFee(MODULE, CHAINID, ethers.utils.parseEther("0.01").toString());
+            payload = encodeSetMessageFee({ module: MODULE, chain: CHAINID, messageFee: ethers.utils.parseEther("0.01").toString() });
             break;
           case 4:
-            payload = payloadTransferFees(MODULE, 0, ethers.Wallet.createRandom().address, ethers.utils.parseEther("1").toString());
+            payload = encodeTransferFees({ module: MODULE, chain: 0, amount: ethers.utils.parseEther("1").toString(), recipient: ethers.Wallet.createRandom().address });
             break;
           case 5:
             const network = await ethers.provider.getNetwork();
-            payload = payloadRecoverChainId(MODULE, network.chainId, 3);
+            payload = encodeCoreRecoverChainId({ module: MODULE, evmChainId: network.chainId, newChainId: 3 });
             break;
           default:
             const DefaultImplFactory = await ethers.getContractFactory("MyImplementation", owner);
             const defaultImpl = await DefaultImplFactory.deploy(EVMCHAINID, CHAINID);
             await defaultImpl.deployed();
-            payload = payloadSubmitContract(MODULE, CHAINID, defaultImpl.address);
+            payload = encodeContractUpgrade({ module: MODULE, chain: CHAINID, newContract: defaultImpl.address });
         }
 
         const vm = createValidVm(0, timestamp, nonce, 1, governanceContract, sequence, 15, payload);
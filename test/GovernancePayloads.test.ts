@@ -0,0 +1,200 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Contract, Signer } from "ethers";
+import {
+  CORE_MODULE,
+  TOKEN_BRIDGE_MODULE,
+  NFT_BRIDGE_MODULE,
+  encodeContractUpgrade,
+  encodeGuardianSetUpgrade,
+  encodeSetMessageFee,
+  encodeTransferFees,
+  encodeCoreRecoverChainId,
+  encodeRegisterChain,
+  encodeUpgradeContract,
+  encodeBridgeRecoverChainId,
+  parseContractUpgrade,
+  parseGuardianSetUpgrade,
+  parseSetMessageFee,
+  parseTransferFees,
+  parseCoreRecoverChainId,
+  parseRegisterChain,
+  parseUpgrade,
+  parseBridgeRecoverChainId
+} from "../scripts/lib/GovernancePayloads";
+import { randomAddress, randomBytes32, randomUint } from "./helpers/Random";
+import { expectRevert } from "./helpers/Revert";
+
+describe("Governance payload codec", function () {
+  let core: Contract;
+  let tokenBridge: Contract;
+  let nftBridge: Contract;
+  let owner: Signer;
+
+  // Random governance payloads per test, for every action of the core and both bridges, each
+  // built by the TS codec and parsed by the deployed contracts; DIFFERENTIAL_RUNS=<n> for soak runs
+  const differentialRuns = Number(process.env.DIFFERENTIAL_RUNS ?? 5);
+
+  before(async function () {
+    this.timeout(60000);
+    const signers = await ethers.getSigners();
+    owner = signers[0];
+
+    const ImplementationFactory = await ethers.getContractFactory("Implementation", owner);
+    core = await ImplementationFactory.deploy();
+    await core.deployed();
+
+    const ExportedBridgeFactory = await ethers.getContractFactory("contracts/test/ExportedBridge.sol:ExportedBridge", owner);
+    tokenBridge = await ExportedBridgeFactory.deploy();
+    await tokenBridge.deployed();
+
+    const NFTBridgeImplementationFactory = await ethers.getContractFactory("NFTBridgeImplementation", owner);
+    nftBridge = await NFTBridgeImplementationFactory.deploy();
+    await nftBridge.deployed();
+  });
+
+  it("should build core payloads that Governance parses identically", async function () {
+    this.timeout(120000);
+
+    for (let i = 0; i < differentialRuns; i++) {
+      const chain = randomUint(2).toNumber();
+
+      const upgrade = encodeContractUpgrade({ chain, newContract: randomAddress() });
+      const localUpgrade = parseContractUpgrade(upgrade);
+      const onChainUpgrade = await core.parseContractUpgrade(upgrade);
+      expect(localUpgrade.module).to.equal(onChainUpgrade.module);
+      expect(localUpgrade.action).to.equal(onChainUpgrade.action);
+      expect(localUpgrade.chain).to.equal(onChainUpgrade.chain);
+      expect(localUpgrade.newContract).to.equal(onChainUpgrade.newContract);
+
+      const keys = Array.from({ length: i * 4 }, () => randomAddress());
+      const guardianSet = encodeGuardianSetUpgrade({ chain, newGuardianSetIndex: randomUint(4).toNumber(), keys });
+      const localGuardianSet = parseGuardianSetUpgrade(guardianSet);
+      const onChainGuardianSet = await core.parseGuardianSetUpgrade(guardianSet);
+      expect(localGuardianSet.module).to.equal(onChainGuardianSet.module);
+      expect(localGuardianSet.action).to.equal(onChainGuardianSet.action);
+      expect(localGuardianSet.chain).to.equal(onChainGuardianSet.chain);
+      expect(localGuardianSet.newGuardianSetIndex).to.equal(onChainGuardianSet.newGuardianSetIndex);
+      expect(localGuardianSet.newGuardianSet.keys).to.deep.equal(onChainGuardianSet.newGuardianSet.keys);
+      expect(localGuardianSet.newGuardianSet.keys).to.deep.equal(keys);
+
+      const messageFee = encodeSetMessageFee({ chain, messageFee: randomUint(32) });
+      const localMessageFee = parseSetMessageFee(messageFee);
+      const onChainMessageFee = await core.parseSetMessageFee(messageFee);
+      expect(localMessageFee.action).to.equal(onChainMessageFee.action);
+      expect(localMessageFee.chain).to.equal(onChainMessageFee.chain);
+      expect(localMessageFee.messageFee.eq(onChainMessageFee.messageFee)).to.equal(true);
+
+      const transferFees = encodeTransferFees({ chain, amount: randomUint(32), recipient: randomAddress() });
+      const localTransferFees = parseTransferFees(transferFees);
+      const onChainTransferFees = await core.parseTransferFees(transferFees);
+      expect(localTransferFees.action).to.equal(onChainTransferFees.action);
+      expect(localTransferFees.chain).to.equal(onChainTransferFees.chain);
+      expect(localTransferFees.amount.eq(onChainTransferFees.amount)).to.equal(true);
+      expect(localTransferFees.recipient).to.equal(onChainTransferFees.recipient);
+
+      const recover = encodeCoreRecoverChainId({ evmChainId: randomUint(32), newChainId: chain });
+      const localRecover = parseCoreRecoverChainId(recover);
+      const onChainRecover = await core.parseRecoverChainId(recover);
+      expect(localRecover.action).to.equal(onChainRecover.action);
+      expect(localRecover.evmChainId.eq(onChainRecover.evmChainId)).to.equal(true);
+      expect(localRecover.newChainId).to.equal(onChainRecover.newChainId);
+
+      await new Promise(resolve => setTimeout(resolve, 50));
+    }
+  });
+
+  for (const [name, module, bridge] of [
+    ["TokenBridge", TOKEN_BRIDGE_MODULE, () => tokenBridge],
+    ["NFTBridge", NFT_BRIDGE_MODULE, () => nftBridge]
+  ] as [string, string, () => Contract][]) {
+    it(`should build ${name} payloads that the bridge parses identically`, async function () {
+      this.timeout(120000);
+
+      for (let i = 0; i < differentialRuns; i++) {
+        const chainId = randomUint(2).toNumber();
+
+        const register = encodeRegisterChain(module, { chainId, emitterChainID: randomUint(2).toNumber(), emitterAddress: randomBytes32() });
+        const localRegister = parseRegisterChain(module, register);
+        const onChainRegister = await bridge().parseRegisterChain(register);
+        expect(localRegister.module).to.equal(onChainRegister.module);
+        expect(localRegister.action).to.equal(onChainRegister.action);
+        expect(localRegister.chainId).to.equal(onChainRegister.chainId);
+        expect(localRegister.emitterChainID).to.equal(onChainRegister.emitterChainID);
+        expect(localRegister.emitterAddress).to.equal(onChainRegister.emitterAddress);
+
+        const upgrade = encodeUpgradeContract(module, { chainId, newContract: randomAddress() });
+        const localUpgrade = parseUpgrade(module, upgrade);
+        const onChainUpgrade = await bridge().parseUpgrade(upgrade);
+        expect(localUpgrade.action).to.equal(onChainUpgrade.action);
+        expect(localUpgrade.chainId).to.equal(onChainUpgrade.chainId);
+        expect(localUpgrade.newContract).to.equal(onChainUpgrade.newContract);
+
+        const recover = encodeBridgeRecoverChainId(module, { evmChainId: randomUint(32), newChainId: chainId });
+        const localRecover = parseBridgeRecoverChainId(module, recover);
+        const onChainRecover = await bridge().parseRecoverChainId(recover);
+        expect(localRecover.action).to.equal(onChainRecover.action);
+        expect(localRecover.evmChainId.eq(onChainRecover.evmChainId)).to.equal(true);
+        expect(localRecover.newChainId).to.equal(onChainRecover.newChainId);
+
+        await new Promise(resolve => setTimeout(resolve, 50));
+      }
+    });
+
+    it(`should reject the same malformed ${name} payloads as the bridge`, async function () {
+      const otherModule = module === TOKEN_BRIDGE_MODULE ? NFT_BRIDGE_MODULE : TOKEN_BRIDGE_MODULE;
+      const register = encodeRegisterChain(module, { chainId: 0, emitterChainID: 1, emitterAddress: randomBytes32() });
+      const upgrade = encodeUpgradeContract(module, { chainId: 2, newContract: randomAddress() });
+      const recover = encodeBridgeRecoverChainId(module, { evmChainId: 1, newChainId: 2 });
+
+      const cases: [(encoded: string) => any, string, string][] = [
+        [encoded => parseRegisterChain(module, encoded), "parseRegisterChain", encodeRegisterChain(otherModule, { chainId: 0, emitterChainID: 1, emitterAddress: randomBytes32() })],
+        [encoded => parseRegisterChain(module, encoded), "parseRegisterChain", upgrade],
+        [encoded => parseRegisterChain(module, encoded), "parseRegisterChain", register + "00"],
+        [encoded => parseUpgrade(module, encoded), "parseUpgrade", register],
+        [encoded => parseUpgrade(module, encoded), "parseUpgrade", upgrade + "00"],
+        [encoded => parseBridgeRecoverChainId(module, encoded), "parseRecoverChainId", upgrade],
+        [encoded => parseBridgeRecoverChainId(module, encoded), "parseRecoverChainId", recover + "00"]
+      ];
+
+      for (const [parse, method, encoded] of cases) {
+        let reason = "";
+        expect(() => {
+          try {
+            parse(encoded);
+          } catch (error: any) {
+            reason = error.message;
+            throw error;
+          }
+        }).to.throw();
+        await expectRevert(bridge()[method](encoded), reason);
+      }
+    });
+  }
+
+  it("should reject the same malformed core payloads as Governance", async function () {
+    const upgrade = encodeContractUpgrade({ chain: 2, newContract: randomAddress() });
+    const messageFee = encodeSetMessageFee({ chain: 2, messageFee: 1 });
+
+    expect(() => parseContractUpgrade(messageFee)).to.throw("invalid ContractUpgrade");
+    await expectRevert(core.parseContractUpgrade(messageFee), "invalid ContractUpgrade");
+    expect(() => parseContractUpgrade(upgrade + "00")).to.throw("invalid ContractUpgrade");
+    await expectRevert(core.parseContractUpgrade(upgrade + "00"), "invalid ContractUpgrade");
+    expect(() => parseSetMessageFee(upgrade)).to.throw("invalid SetMessageFee");
+    await expectRevert(core.parseSetMessageFee(upgrade), "invalid SetMessageFee");
+    expect(() => parseTransferFees(messageFee)).to.throw("invalid TransferFees");
+    await expectRevert(core.parseTransferFees(messageFee), "invalid TransferFees");
+    expect(() => parseCoreRecoverChainId(messageFee)).to.throw("invalid RecoverChainId");
+    await expectRevert(core.parseRecoverChainId(messageFee), "invalid RecoverChainId");
+
+    // The guardian count byte must match the number of keys that follow
+    const guardianSet = encodeGuardianSetUpgrade({ chain: 2, newGuardianSetIndex: 1, keys: [randomAddress()] });
+    expect(() => parseGuardianSetUpgrade(guardianSet + "00")).to.throw("invalid GuardianSetUpgrade");
+    await expectRevert(core.parseGuardianSetUpgrade(guardianSet + "00"), "invalid GuardianSetUpgrade");
+
+    // The core parsers leave module checks to Governance.sol
+    expect(parseContractUpgrade(encodeContractUpgrade({ module: TOKEN_BRIDGE_MODULE, chain: 2, newContract: randomAddress() })).module)
+      .to.equal(TOKEN_BRIDGE_MODULE);
+    expect(parseSetMessageFee(messageFee).module).to.equal(CORE_MODULE);
+  });
+});
@@ -0,0 +1,107 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Contract, Signer } from "ethers";
+import { parseVM } from "../scripts/lib/VAA";
+import { parseGuardianSetUpgrade } from "../scripts/lib/GovernancePayloads";
+import { generateGuardianKeys, guardianSetFromKeys } from "../scripts/lib/GuardianSigner";
+import { GUARDIAN_SET_EXPIRY, expectedOldSetOutcome, signGuardianSetUpgrade } from "../scripts/lib/GuardianSetRotation";
+import { rotateGuardianSet } from "../scripts/RotateGuardianSet";
+
+describe("Guardian set rotation", function () {
+  let wormhole: Contract;
+  let owner: Signer;
+
+  const governanceContract = "0x0000000000000000000000000000000000000000000000000000000000000004";
+  const testChainId = 2;
+  const testGuardian = "93941733246223705020089879371323733820373732307041878556247502674739205313440";
+  const testGuardianPub = "0xbeFA429d57cD18b7F8A4d91A2da9AB4AF05d0FBe";
+
+  before(async function () {
+    this.timeout(60000);
+    const signers = await ethers.getSigners();
+    owner = signers[0];
+
+    const SetupFactory = await ethers.getContractFactory("Setup", owner);
+    const setup = await SetupFactory.deploy();
+    await setup.deployed();
+
+    const ImplementationFactory = await ethers.getContractFactory("Implementation", owner);
+    const impl = await ImplementationFactory.deploy();
+    await impl.deployed();
+
+    const WormholeFactory = await ethers.getContractFactory("Wormhole", owner);
+    const proxy = await WormholeFactory.deploy(setup.address, "0x");
+    await proxy.deployed();
+
+    const network = await ethers.provider.getNetwork();
+    const proxiedSetup = await ethers.getContractAt("Setup", proxy.address, owner);
+    await proxiedSetup.setup(impl.address, [testGuardianPub], testChainId, 1, governanceContract, network.chainId);
+
+    wormhole = await ethers.getContractAt("Implementation", proxy.address, owner);
+  });
+
+  it("should sign a GuardianSetUpgrade to the next index", function () {
+    const newKeys = generateGuardianKeys(3, "rotation test");
+    const upgrade = signGuardianSetUpgrade({
+      currentKeys: [testGuardian],
+      currentGuardianSetIndex: 4,
+      newKeys,
+      chain: testChainId,
+      governanceChainId: 1,
+      governanceContract,
+      timestamp: 1000,
+      sequence: 1
+    });
+
+    const vm = parseVM(upgrade.vaa);
+    expect(vm.guardianSetIndex).to.equal(4);
+    expect(vm.emitterChainId).to.equal(1);
+    expect(vm.emitterAddress).to.equal(governanceContract);
+
+    const payload = parseGuardianSetUpgrade(vm.payload);
+    expect(payload.chain).to.equal(testChainId);
+    expect(payload.newGuardianSetIndex).to.equal(5);
+    expect(payload.newGuardianSet.keys).to.deep.equal(guardianSetFromKeys(newKeys).keys);
+  });
+
+  it("should predict old guardian sets expire strictly after their expiration time", function () {
+    expect(expectedOldSetOutcome(5000, 5000)).to.deep.equal({ valid: true, reason: "" });
+    expect(expectedOldSetOutcome(5000, 5001)).to.deep.equal({ valid: false, reason: "guardian set has expired" });
+  });
+
+  it("should rotate to a 19 guardian set and keep the old set valid until expiry", async function () {
+    this.timeout(120000);
+    const result = await rotateGuardianSet({
+      wormhole: wormhole.address,
+      currentKeys: [testGuardian],
+      newGuardianCount: 19,
+      expiry: "skip"
+    });
+
+    expect(result.oldGuardianSetIndex).to.equal(0);
+    expect(result.newGuardianSetIndex).to.equal(1);
+    expect(await wormhole.getCurrentGuardianSetIndex()).to.equal(1);
+    expect((await wormhole.getGuardianSet(1)).keys).to.deep.equal(result.newGuardians);
+
+    const rotatedAt = (await ethers.provider.getBlock((await ethers.provider.getTransactionReceipt(result.transactionHash)).blockNumber)).timestamp;
+    expect(result.oldSetExpirationTime).to.equal(rotatedAt + GUARDIAN_SET_EXPIRY);
+    expect(result.checks.map(c => c.actual.valid)).to.deep.equal([true, true]);
+  });
+
+  it("should reject VAAs from the old set once it expired", async function () {
+    this.timeout(120000);
+    const current = generateGuardianKeys(19, "guardian set 1");
+
+    let result;
+    try {
+      result = await rotateGuardianSet({ wormhole: wormhole.address, currentKeys: current, newGuardianCount: 5, expiry: "advance" });
+    } catch (error: any) {
+      // The revive dev node may not let the clock be moved
+      if (error.message.includes("node cannot advance time")) this.skip();
+      throw error;
+    }
+
+    expect(result.checks.map(c => [c.guardianSetIndex, c.actual.valid])).to.deep.equal([[2, true], [1, true], [1, false], [2, true]]);
+    expect(result.checks[2].actual.reason).to.equal("guardian set has expired");
+  });
+});
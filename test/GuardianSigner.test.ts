@@ -0,0 +1,129 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Contract, Signer } from "ethers";
+import { VMBody } from "../scripts/lib/VAA";
+import {
+  PRODUCTION_GUARDIAN_COUNT,
+  SigningPlan,
+  VerificationOutcome,
+  generateGuardianKeys,
+  guardianSetFromKeys,
+  quorum,
+  signGuardianVM
+} from "../scripts/lib/GuardianSigner";
+
+describe("Guardian signer", function () {
+  let messages: Contract;
+  let owner: Signer;
+
+  const keys = generateGuardianKeys(PRODUCTION_GUARDIAN_COUNT);
+  const guardianSet = guardianSetFromKeys(keys);
+  const q = quorum(PRODUCTION_GUARDIAN_COUNT);
+
+  const body: VMBody = {
+    timestamp: 1000,
+    nonce: 7,
+    emitterChainId: 2,
+    emitterAddress: ethers.utils.hexZeroPad("0xeee", 32),
+    sequence: 42,
+    consistencyLevel: 1,
+    payload: "0xfeed"
+  };
+
+  // Production topology: 19 guardians, quorum 13
+  const scenarios: { name: string; plan: SigningPlan }[] = [
+    { name: "exactly quorum", plan: {} },
+    { name: "all guardians", plan: { signers: [...Array(PRODUCTION_GUARDIAN_COUNT).keys()] } },
+    { name: "quorum of the last guardians", plan: { signers: [...Array(q).keys()].map(i => i + PRODUCTION_GUARDIAN_COUNT - q) } },
+    { name: "one short of quorum", plan: { signers: [...Array(q - 1).keys()] } },
+    { name: "out of order indices", plan: { faults: [{ kind: "outOfOrder", position: 4 }] } },
+    { name: "duplicate index", plan: { faults: [{ kind: "duplicate", position: 0 }] } },
+    { name: "duplicate padding a short set to quorum", plan: { signers: [...Array(q - 1).keys()], faults: [{ kind: "duplicate", position: 3 }] } },
+    { name: "high-s signature", plan: { faults: [{ kind: "highS", position: 2 }] } },
+    { name: "wrong key", plan: { faults: [{ kind: "wrongKey", position: 5 }] } },
+    { name: "wrong key below quorum", plan: { signers: [0, 1], faults: [{ kind: "wrongKey", position: 1 }] } },
+    { name: "garbage v", plan: { faults: [{ kind: "garbageV", position: 12, v: 9 }] } },
+    { name: "wrong key before garbage v", plan: { faults: [{ kind: "wrongKey", position: 1 }, { kind: "garbageV", position: 2 }] } }
+  ];
+
+  async function outcome(call: () => Promise<any>): Promise<VerificationOutcome> {
+    try {
+      const result = await call();
+      return { valid: result.valid, reason: result.reason };
+    } catch (error: any) {
+      return { revert: error.message };
+    }
+  }
+
+  function expectOutcome(actual: VerificationOutcome, expected: VerificationOutcome, name: string) {
+    if (expected.revert) {
+      expect(actual.revert, name).to.include(expected.revert);
+    } else {
+      expect(actual, name).to.deep.equal(expected);
+    }
+  }
+
+  before(async function () {
+    this.timeout(60000);
+    const signers = await ethers.getSigners();
+    owner = signers[0];
+
+    const ExportedMessagesFactory = await ethers.getContractFactory("ExportedMessages", owner);
+    messages = await ExportedMessagesFactory.deploy();
+    await messages.deployed();
+
+    await messages.storeGuardianSetPub(guardianSet, 0);
+  });
+
+  it("should compute quorum like Messages.quorum", async function () {
+    this.timeout(60000);
+    for (const n of [1, 2, 3, 4, 5, 6, 7, 13, 18, 19, 20, 100, 255]) {
+      expect(quorum(n), `quorum(${n})`).to.equal((await messages.quorum(n)).toNumber());
+    }
+    expect(() => quorum(256)).to.throw("too many guardians");
+  });
+
+  it("should derive the same guardian keys on every run", function () {
+    expect(generateGuardianKeys(PRODUCTION_GUARDIAN_COUNT)).to.deep.equal(keys);
+    expect(new Set(guardianSet.keys).size).to.equal(PRODUCTION_GUARDIAN_COUNT);
+  });
+
+  for (const { name, plan } of scenarios) {
+    it(`should verify as predicted: ${name}`, async function () {
+      this.timeout(60000);
+      const signed = signGuardianVM(body, keys, 0, plan);
+
+      const signatures = await outcome(() => messages.verifySignatures(signed.hash, signed.signatures, guardianSet));
+      expectOutcome(signatures, signed.expected.verifySignatures, `${name}: verifySignatures`);
+
+      const vm = await outcome(async () => {
+        const [, valid, reason] = await messages.parseAndVerifyVM(signed.vaa);
+        return { valid, reason };
+      });
+      expectOutcome(vm, signed.expected.verifyVM, `${name}: parseAndVerifyVM`);
+    });
+  }
+
+  it("should predict the outcomes the rules imply", function () {
+    const expected = (plan: SigningPlan) => signGuardianVM(body, keys, 0, plan).expected;
+
+    expect(expected({}).verifyVM).to.deep.equal({ valid: true, reason: "" });
+    expect(expected({ signers: [0] })).to.deep.equal({
+      verifySignatures: { valid: true, reason: "" },
+      verifyVM: { valid: false, reason: "no quorum" }
+    });
+    expect(expected({ faults: [{ kind: "duplicate", position: 0 }] }).verifyVM).to.deep.equal({ revert: "signature indices must be ascending" });
+    expect(expected({ faults: [{ kind: "highS", position: 0 }] }).verifyVM).to.deep.equal({ valid: true, reason: "" });
+    expect(expected({ faults: [{ kind: "garbageV", position: 0 }] }).verifyVM).to.deep.equal({ revert: "ecrecover failed with signature" });
+    // verifySignatures returns on the first wrong signer, before reaching the garbage v
+    expect(expected({ faults: [{ kind: "wrongKey", position: 1 }, { kind: "garbageV", position: 2 }] }).verifyVM)
+      .to.deep.equal({ valid: false, reason: "VM signature invalid" });
+  });
+
+  it("should reject plans it cannot sign", function () {
+    expect(() => signGuardianVM(body, keys, 0, { signers: [19] })).to.throw("signer 19 is not in the guardian set");
+    expect(() => signGuardianVM(body, keys, 0, { faults: [{ kind: "highS", position: 13 }] })).to.throw("no signature at position 13");
+    expect(() => signGuardianVM(body, keys, 0, { faults: [{ kind: "garbageV", position: 0, v: 1 }] })).to.throw("garbage v must not be 0 or 1");
+    expect(() => signGuardianVM(body, keys, 0, { faults: [{ kind: "garbageV", position: 0, v: 229 }] })).to.throw("garbage v must be at most 228");
+  });
+});
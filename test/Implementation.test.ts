@@ -1,7 +1,7 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
 import { Contract, Signer } from "ethers";
-import { SigningKey } from "ethers/lib/utils";
+import { signAndEncodeVM } from "../scripts/lib/VAA";
 
 
 describe("Implementation", function () {
@@ -346,42 +346,11 @@ describe("Implementation", function () {
     guardianSetIndex: number,
     consistencyLevel: number
   ): string {
-    // Create VM body
-    const body = ethers.utils.solidityPack(
-      ["uint32", "uint32", "uint16", "bytes32", "uint64", "uint8", "bytes"],
-      [timestamp, nonce, emitterChainId, emitterAddress, sequence, consistencyLevel, data]
+    return signAndEncodeVM(
+      { timestamp, nonce, emitterChainId, emitterAddress, sequence, consistencyLevel, payload: data },
+      signers,
+      guardianSetIndex
     );
-
-    const bodyHash = ethers.utils.keccak256(ethers.utils.keccak256(body));
-
-    // Create signatures
-    const signatures: any[] = [];
-    for (let i = 0; i < signers.length; i++) {
-      const signingKey = new SigningKey(signers[i]);
-      const sig = signingKey.signDigest(bodyHash);
-      signatures.push({
-        guardianIndex: 0,
-        r: sig.r,
-        s: sig.s,
-        v: sig.v - 27
-      });
-    }
-
-    // Encode signed message
-    let signedMessage = ethers.utils.solidityPack(
-      ["uint8", "uint32", "uint8"],
-      [1, guardianSetIndex, signatures.length]
-    );
-
-    for (const sig of signatures) {
-      signedMessage += ethers.utils.solidityPack(
-        ["uint8", "bytes32", "bytes32", "uint8"],
-        [sig.guardianIndex, sig.r, sig.s, sig.v]
-      ).slice(2); // Remove 0x prefix
-    }
-
-    signedMessage += body.slice(2); // Remove 0x prefix
-    return signedMessage;
   }
 
   it("should parse VMs correctly", async function () {
@@ -0,0 +1,114 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ethers } from "ethers";
+import { DEFAULT_GUARDIAN_KEYS } from "../scripts/lib/VAAFixtures";
+import { generateGuardianKeys } from "../scripts/lib/GuardianSigner";
+import {
+  NetworkDescription,
+  decryptKeystore,
+  encryptKeystore,
+  isDevNetwork,
+  isWellKnownTestKey,
+  loadGuardianKeys,
+  readKeystores,
+  refuseTestAddresses,
+  refuseTestKeys,
+  writeKeystores
+} from "../scripts/lib/Keystore";
+
+describe("Keystore", function () {
+  let dir: string;
+
+  // Cheap scrypt so the suite stays fast
+  const scryptN = 1024;
+  const passphrase = "correct horse battery staple";
+  const keys = generateGuardianKeys(3, "keystore test");
+
+  const testnet: NetworkDescription = { name: "sepolia", url: "https://rpc.sepolia.org", chainId: 11155111 };
+  const local: NetworkDescription = { name: "ethRpcNode", url: "http://127.0.0.1:8545", chainId: 420420420 };
+
+  before(async function () {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "keystores-"));
+    await writeKeystores(path.join(dir, "guardians"), keys, passphrase, scryptN);
+  });
+
+  after(function () {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should round trip a key through an encrypted keystore", async function () {
+    const json = await encryptKeystore(keys[0], passphrase, scryptN);
+    expect(JSON.parse(json).address).to.equal(ethers.utils.computeAddress(keys[0]).slice(2).toLowerCase());
+    expect(await decryptKeystore(json, passphrase)).to.equal(keys[0]);
+  });
+
+  it("should name the keystore a wrong passphrase was given for", async function () {
+    const file = path.join(dir, "guardians", fs.readdirSync(path.join(dir, "guardians"))[0]);
+    let error: any;
+    try {
+      await readKeystores(file, async () => "wrong");
+    } catch (e) {
+      error = e;
+    }
+    expect(error.message).to.include(file).and.include("invalid password");
+  });
+
+  it("should read a keystore directory in guardian set order with one passphrase", async function () {
+    const asked: string[] = [];
+    const read = await readKeystores(path.join(dir, "guardians"), async source => {
+      asked.push(source);
+      return passphrase;
+    });
+    expect(read).to.deep.equal(keys);
+    expect(asked).to.deep.equal([path.join(dir, "guardians")]);
+  });
+
+  it("should load guardian keys from GUARDIAN_KEYSTORE", async function () {
+    process.env.GUARDIAN_KEYSTORE = path.join(dir, "guardians");
+    process.env.GUARDIAN_KEYSTORE_PASSPHRASE = passphrase;
+    try {
+      expect(await loadGuardianKeys(testnet, [DEFAULT_GUARDIAN_KEYS.test])).to.deep.equal(keys);
+    } finally {
+      delete process.env.GUARDIAN_KEYSTORE;
+      delete process.env.GUARDIAN_KEYSTORE_PASSPHRASE;
+    }
+  });
+
+  it("should know the keys local tooling ships with", function () {
+    expect(isWellKnownTestKey(DEFAULT_GUARDIAN_KEYS.test)).to.equal(true);
+    expect(isWellKnownTestKey(generateGuardianKeys(19)[18])).to.equal(true);
+    // Hardhat account 0
+    expect(isWellKnownTestKey("0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80")).to.equal(true);
+    expect(isWellKnownTestKey(keys[0])).to.equal(false);
+  });
+
+  it("should tell dev networks from real ones", function () {
+    expect(isDevNetwork({ name: "hardhat", chainId: 31337 })).to.equal(true);
+    expect(isDevNetwork(local)).to.equal(true);
+    expect(isDevNetwork(testnet)).to.equal(false);
+    // A local node or tunnel in front of a real chain is not a dev network
+    expect(isDevNetwork({ name: "localhost", url: "http://127.0.0.1:8545", chainId: 1 })).to.equal(false);
+    // Other dev chains are opted in by chain ID
+    expect(isDevNetwork({ name: "devnet", url: "http://10.0.0.2:8545", chainId: 1234 }, { DEV_CHAIN_IDS: "99, 1234" })).to.equal(true);
+    expect(isDevNetwork({ name: "devnet", url: "http://10.0.0.2:8545", chainId: 1234 }, {})).to.equal(false);
+  });
+
+  it("should refuse well-known test keys on networks that are not dev networks", async function () {
+    expect(() => refuseTestKeys([DEFAULT_GUARDIAN_KEYS.test], testnet))
+      .to.throw("refusing to use well-known test key 0xbeFA429d57cD18b7F8A4d91A2da9AB4AF05d0FBe on network sepolia");
+    // Ganache account 0, which DeployTestToken funds
+    expect(() => refuseTestAddresses(["0x90f8bf6a479f320ead074411a4b0e7944ea8c9c1"], testnet)).to.throw("refusing to use well-known test key");
+    expect(() => refuseTestKeys([DEFAULT_GUARDIAN_KEYS.test], local)).not.to.throw();
+    expect(() => refuseTestKeys(keys, testnet)).not.to.throw();
+
+    let error: any;
+    try {
+      await loadGuardianKeys(testnet, [DEFAULT_GUARDIAN_KEYS.test]);
+    } catch (e) {
+      error = e;
+    }
+    expect(error.message).to.include("refusing to use well-known test key");
+  });
+});
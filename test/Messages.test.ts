@@ -1,6 +1,7 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
 import { Contract, Signer } from "ethers";
+import { vaaFixture } from "../scripts/lib/VAAFixtures";
 
 describe("Messages", function () {
   let messages: Contract;
@@ -11,7 +12,7 @@ describe("Messages", function () {
   
   // Test constants from the original Foundry test
   const testGuardianPub = "0xbeFA429d57cD18b7F8A4d91A2da9AB4AF05d0FBe";
-  const validVM = "0x01000000000100867b55fec41778414f0683e80a430b766b78801b7070f9198ded5e62f48ac7a44b379a6cf9920e42dbd06c5ebf5ec07a934a00a572aefc201e9f91c33ba766d900000003e800000001000b0000000000000000000000000000000000000000000000000000000000000eee00000000000005390faaaa";
+  const validVM = vaaFixture("foundry-valid-vm");
   
   // Private key for testGuardianPub (from Foundry test)
   const testGuardianPrivateKey = "0xcfb12303a19cde580bb4dd771639b0d26bc68353645571a8cff516ab2ee113a0";
@@ -1,7 +1,8 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
 import { Contract, Signer } from "ethers";
-import { SigningKey } from "ethers/lib/utils";
+import { Signature, signHash } from "../scripts/lib/VAA";
+import { guardianSetFromKeys } from "../scripts/lib/GuardianSigner";
 
 
 
@@ -11,18 +12,6 @@ interface GuardianSetParams {
   expirationTime: number;
 }
 
-interface GuardianSet {
-  keys: string[];
-  expirationTime: number;
-}
-
-interface Signature {
-  r: string;
-  s: string;
-  v: number;
-  guardianIndex: number;
-}
-
 describe("MessagesRV", function () {
   let messages: Contract;
   let owner: Signer;
@@ -51,67 +40,6 @@ describe("MessagesRV", function () {
            params.guardianCount > 0;
   }
 
-  function generateGuardianSet(params: GuardianSetParams): GuardianSet {
-    // Validate all private keys are in valid range
-    for (let i = 0; i < params.guardianCount; i++) {
-      const pkBN = ethers.BigNumber.from(params.privateKeys[i]);
-      if (pkBN.lte(0) || pkBN.gte(SECP256K1_CURVE_ORDER)) {
-        throw new Error(`Invalid private key at index ${i}`);
-      }
-    }
-
-    const guardians: string[] = [];
-    for (let i = 0; i < params.guardianCount; i++) {
-      const address = ethers.utils.computeAddress(params.privateKeys[i]);
-      guardians.push(address);
-    }
-
-    return {
-      keys: guardians,
-      expirationTime: params.expirationTime
-    };
-  }
-
-  function generateSignature(
-    index: number,
-    privateKey: string, 
-    guardian: string,
-    message: string
-  ): Signature {
-    const signingKey = new SigningKey(privateKey);
-    const messageHash = ethers.utils.arrayify(message);
-    const signature = signingKey.signDigest(messageHash);
-    
-    // Verify signature matches guardian
-    const recoveredAddress = ethers.utils.recoverAddress(messageHash, signature);
-    if (recoveredAddress.toLowerCase() !== guardian.toLowerCase()) {
-      throw new Error("Signature verification failed during generation");
-    }
-
-    return {
-      r: signature.r,
-      s: signature.s, 
-      v: signature.v,
-      guardianIndex: index
-    };
-  }
-
-  function generateSignatures(
-    privateKeys: string[],
-    guardians: string[],
-    message: string
-  ): Signature[] {
-    const signatures: Signature[] = [];
-    
-    for (let i = 0; i < guardians.length; i++) {
-      const sig = generateSignature(i, privateKeys[i], guardians[i], message);
-      signatures.push(sig);
-    }
-
-    return signatures;
-  }
-
-
   // Helper to generate valid private keys
   function generateValidPrivateKeys(count: number): string[] {
     const keys: string[] = [];
@@ -142,8 +70,8 @@ describe("MessagesRV", function () {
       };
 
       const message = ethers.utils.keccak256(testData);
-      const guardianSet = generateGuardianSet(params);
-      const signatures = generateSignatures(params.privateKeys, guardianSet.keys, message);
+      const guardianSet = guardianSetFromKeys(params.privateKeys, params.expirationTime);
+      const signatures = signHash(message, params.privateKeys);
 
       // Make first signature out of bounds
       signatures[0].guardianIndex = guardianCount + 1;
@@ -174,8 +102,8 @@ describe("MessagesRV", function () {
         };
 
         const message = ethers.utils.keccak256(testData);
-        const guardianSet = generateGuardianSet(params);
-        const signatures = generateSignatures(params.privateKeys, guardianSet.keys, message);
+        const guardianSet = guardianSetFromKeys(params.privateKeys, params.expirationTime);
+        const signatures = signHash(message, params.privateKeys);
 
         // Set out of bounds index
         signatures[0].guardianIndex = testCase.outOfBoundsIndex;
@@ -205,8 +133,8 @@ describe("MessagesRV", function () {
       };
 
       const message = ethers.utils.keccak256(testData);
-      const guardianSet = generateGuardianSet(params);
-      const signatures = generateSignatures(params.privateKeys, guardianSet.keys, message);
+      const guardianSet = guardianSetFromKeys(params.privateKeys, params.expirationTime);
+      const signatures = signHash(message, params.privateKeys);
 
       // Create fake signature
       const fakeSignature: Signature = {
@@ -246,8 +174,8 @@ describe("MessagesRV", function () {
         };
 
         const message = ethers.utils.keccak256(testData);
-        const guardianSet = generateGuardianSet(params);
-        const signatures = generateSignatures(params.privateKeys, guardianSet.keys, message);
+        const guardianSet = guardianSetFromKeys(params.privateKeys, params.expirationTime);
+        const signatures = signHash(message, params.privateKeys);
 
         // Replace random signature with fake one
         const fakeIndex = i % guardianCount;
@@ -292,8 +220,8 @@ describe("MessagesRV", function () {
       };
 
       const message = ethers.utils.keccak256(testData);
-      const guardianSet = generateGuardianSet(params);
-      const signatures = generateSignatures(params.privateKeys, guardianSet.keys, message);
+      const guardianSet = guardianSetFromKeys(params.privateKeys, params.expirationTime);
+      const signatures = signHash(message, params.privateKeys);
 
       // Generate signature with different private key for same index
       const fakePrivateKey = generateValidPrivateKeys(1)[0];
@@ -302,12 +230,7 @@ describe("MessagesRV", function () {
       
       // Ensure it's different from original guardian
       if (fakeGuardianAddress.toLowerCase() !== guardianSet.keys[fakeGuardianIndex].toLowerCase()) {
-        const fakeSignature = generateSignature(
-          fakeGuardianIndex,
-          fakePrivateKey,
-          fakeGuardianAddress,
-          message
-        );
+        const fakeSignature = signHash(message, [fakePrivateKey], [fakeGuardianIndex])[0];
 
         signatures[fakeGuardianIndex] = fakeSignature;
 
@@ -330,8 +253,8 @@ describe("MessagesRV", function () {
         };
 
         const message = ethers.utils.keccak256(testData);
-        const guardianSet = generateGuardianSet(params);
-        const signatures = generateSignatures(params.privateKeys, guardianSet.keys, message);
+        const guardianSet = guardianSetFromKeys(params.privateKeys, params.expirationTime);
+        const signatures = signHash(message, params.privateKeys);
 
         // Generate different private key
         const fakePrivateKey = generateValidPrivateKeys(1)[0];
@@ -340,12 +263,7 @@ describe("MessagesRV", function () {
 
         // Ensure different from original
         if (fakeGuardianAddress.toLowerCase() !== guardianSet.keys[fakeGuardianIndex].toLowerCase()) {
-          const fakeSignature = generateSignature(
-            fakeGuardianIndex,
-            fakePrivateKey,
-            fakeGuardianAddress,
-            message
-          );
+          const fakeSignature = signHash(message, [fakePrivateKey], [fakeGuardianIndex])[0];
 
           signatures[fakeGuardianIndex] = fakeSignature;
 
@@ -372,8 +290,8 @@ describe("MessagesRV", function () {
       };
 
       const message = ethers.utils.keccak256(testData);
-      const guardianSet = generateGuardianSet(params);
-      const signatures = generateSignatures(params.privateKeys, guardianSet.keys, message);
+      const guardianSet = guardianSetFromKeys(params.privateKeys, params.expirationTime);
+      const signatures = signHash(message, params.privateKeys);
 
       const result = await messages.verifySignatures(message, signatures, guardianSet);
       expect(result.valid).to.equal(true);
@@ -399,8 +317,8 @@ describe("MessagesRV", function () {
         };
 
         const message = ethers.utils.keccak256(testData);
-        const guardianSet = generateGuardianSet(params);
-        const signatures = generateSignatures(params.privateKeys, guardianSet.keys, message);
+        const guardianSet = guardianSetFromKeys(params.privateKeys, params.expirationTime);
+        const signatures = signHash(message, params.privateKeys);
 
         const result = await messages.verifySignatures(message, signatures, guardianSet);
         expect(result.valid).to.equal(true);
@@ -425,8 +343,8 @@ describe("MessagesRV", function () {
         };
 
         const message = ethers.utils.keccak256(testData);
-        const guardianSet = generateGuardianSet(params);
-        const signatures = generateSignatures(params.privateKeys, guardianSet.keys, message);
+        const guardianSet = guardianSetFromKeys(params.privateKeys, params.expirationTime);
+        const signatures = signHash(message, params.privateKeys);
 
         const result = await messages.verifySignatures(message, signatures, guardianSet);
         expect(result.valid).to.equal(true);
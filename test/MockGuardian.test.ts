@@ -0,0 +1,157 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ethers } from "hardhat";
+import { Contract, Signer } from "ethers";
+import { parseVM } from "../scripts/lib/VAA";
+import { createMockGuardian } from "../scripts/lib/MockGuardian";
+import { createVAAStore } from "../scripts/lib/VAAStore";
+import { generateGuardianKeys } from "../scripts/lib/GuardianSigner";
+import { signGuardianSetUpgrade } from "../scripts/lib/GuardianSetRotation";
+
+describe("Mock guardian", function () {
+  let wormhole: Contract;
+  let owner: Signer;
+  let dir: string;
+
+  const governanceContract = "0x0000000000000000000000000000000000000000000000000000000000000004";
+  const testChainId = 2;
+  const testGuardian = "93941733246223705020089879371323733820373732307041878556247502674739205313440";
+  const testGuardianPub = "0xbeFA429d57cD18b7F8A4d91A2da9AB4AF05d0FBe";
+
+  before(async function () {
+    this.timeout(60000);
+    const signers = await ethers.getSigners();
+    owner = signers[0];
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "mock-guardian-"));
+
+    const SetupFactory = await ethers.getContractFactory("Setup", owner);
+    const setup = await SetupFactory.deploy();
+    await setup.deployed();
+
+    const ImplementationFactory = await ethers.getContractFactory("Implementation", owner);
+    const impl = await ImplementationFactory.deploy();
+    await impl.deployed();
+
+    const WormholeFactory = await ethers.getContractFactory("Wormhole", owner);
+    const proxy = await WormholeFactory.deploy(setup.address, "0x");
+    await proxy.deployed();
+
+    const network = await ethers.provider.getNetwork();
+    const proxiedSetup = await ethers.getContractAt("Setup", proxy.address, owner);
+    await proxiedSetup.setup(impl.address, [testGuardianPub], testChainId, 1, governanceContract, network.chainId);
+
+    wormhole = await ethers.getContractAt("Implementation", proxy.address, owner);
+  });
+
+  after(function () {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should sign published messages into VAAs the core bridge verifies", async function () {
+    this.timeout(60000);
+    const storeFile = path.join(dir, "vaas.jsonl");
+    const guardian = await createMockGuardian({
+      provider: ethers.provider,
+      wormhole: wormhole.address,
+      keys: [testGuardian],
+      store: createVAAStore(storeFile)
+    });
+    expect(guardian.chainId).to.equal(testChainId);
+    expect(guardian.guardianSetIndex).to.equal(0);
+
+    const receipt = await (await wormhole.publishMessage(7, "0xc0ffee", 15)).wait();
+    const block = await ethers.provider.getBlock(receipt.blockNumber);
+
+    const signed = await guardian.poll();
+    expect(signed.length).to.equal(1);
+    expect(await guardian.poll()).to.deep.equal([]);
+
+    const vm = parseVM(signed[0].vaa);
+    expect(vm.timestamp).to.equal(block.timestamp);
+    expect(vm.nonce).to.equal(7);
+    expect(vm.emitterChainId).to.equal(testChainId);
+    expect(vm.emitterAddress).to.equal(ethers.utils.hexZeroPad(await owner.getAddress(), 32).toLowerCase());
+    expect(vm.consistencyLevel).to.equal(15);
+    expect(vm.payload).to.equal("0xc0ffee");
+
+    const [, valid, reason] = await wormhole.parseAndVerifyVM(signed[0].vaa);
+    expect(reason).to.equal("");
+    expect(valid).to.equal(true);
+
+    // Stored by message id and transaction, and still there after a restart
+    const stored = guardian.store.get(testChainId, await owner.getAddress(), vm.sequence);
+    expect(stored?.vaa).to.equal(signed[0].vaa);
+    expect(guardian.store.byTransaction(receipt.transactionHash).map(v => v.vaa)).to.deep.equal([signed[0].vaa]);
+    expect(createVAAStore(storeFile).get(testChainId, vm.emitterAddress, vm.sequence)?.vaa).to.equal(signed[0].vaa);
+  });
+
+  it("should only observe messages published from `fromBlock` on", async function () {
+    this.timeout(60000);
+    const first = await (await wormhole.publishMessage(1, "0x01", 1)).wait();
+    const second = await (await wormhole.publishMessage(2, "0x02", 1)).wait();
+
+    const guardian = await createMockGuardian({
+      provider: ethers.provider,
+      wormhole: wormhole.address,
+      keys: [testGuardian],
+      fromBlock: first.blockNumber,
+      maxBlockRange: 1
+    });
+
+    const signed = await guardian.poll();
+    expect(signed.map(v => v.transactionHash)).to.deep.equal([first.transactionHash, second.transactionHash]);
+    expect(guardian.nextBlock).to.be.greaterThan(second.blockNumber);
+  });
+
+  it("should refuse keys that are not in the current guardian set", async function () {
+    try {
+      await createMockGuardian({ provider: ethers.provider, wormhole: wormhole.address, keys: ["0x01"] });
+      throw new Error("Expected createMockGuardian to throw");
+    } catch (error: any) {
+      expect(error.message).to.include("is not guardian 0 of guardian set 0");
+    }
+  });
+
+  // Rotates the shared core bridge, so it runs last
+  it("should follow a guardian set rotation only with the new set's keys", async function () {
+    this.timeout(60000);
+    const newKeys = generateGuardianKeys(2, "mock guardian rotation");
+    const stale = await createMockGuardian({ provider: ethers.provider, wormhole: wormhole.address, keys: [testGuardian] });
+    const following = await createMockGuardian({
+      provider: ethers.provider,
+      wormhole: wormhole.address,
+      keys: [testGuardian],
+      keysForGuardianSet: index => (index === 1 ? newKeys : undefined)
+    });
+
+    const upgrade = signGuardianSetUpgrade({
+      currentKeys: [testGuardian],
+      currentGuardianSetIndex: 0,
+      newKeys,
+      chain: testChainId,
+      governanceChainId: 1,
+      governanceContract,
+      timestamp: 1000,
+      sequence: 1
+    });
+    await (await wormhole.submitNewGuardianSet(upgrade.vaa)).wait();
+    await (await wormhole.publishMessage(3, "0x03", 1)).wait();
+
+    try {
+      await stale.poll();
+      throw new Error("Expected poll to throw");
+    } catch (error: any) {
+      expect(error.message).to.include("core bridge moved from guardian set 0 to 1");
+    }
+
+    const signed = await following.poll();
+    expect(following.guardianSetIndex).to.equal(1);
+    expect(signed.length).to.equal(1);
+    expect(parseVM(signed[0].vaa).guardianSetIndex).to.equal(1);
+    const [, valid, reason] = await wormhole.parseAndVerifyVM(signed[0].vaa);
+    expect(reason).to.equal("");
+    expect(valid).to.equal(true);
+  });
+});
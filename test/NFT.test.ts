@@ -1,7 +1,14 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
 import { Contract, Signer } from "ethers";
-import { SigningKey } from "ethers/lib/utils";
+import { signAndEncodeVM } from "../scripts/lib/VAA";
+import { encodeTransfer } from "../scripts/lib/NFTBridgePayloads";
+import {
+  NFT_BRIDGE_MODULE,
+  encodeBridgeRecoverChainId,
+  encodeRegisterChain,
+  encodeUpgradeContract
+} from "../scripts/lib/GovernancePayloads";
 
 
 
@@ -20,12 +27,6 @@ describe("NFT Bridge", function () {
   const governanceContract = "0x0000000000000000000000000000000000000000000000000000000000000004";
   const finality = 15;
 
-  // NFT Bridge module identifier
-  const NFTBridgeModule = "0x00000000000000000000000000000000000000000000004e4654427269646765";
-  const actionRegisterChain = 1;
-  const actionContractUpgrade = 2;
-  const actionRecoverChainId = 3;
-
   const testForeignChainId = 1;
   const testForeignBridgeContract = "0x000000000000000000000000000000000000000000000000000000000000ffff";
   const testBridgedAssetChain = 3;
@@ -96,59 +97,38 @@ describe("NFT Bridge", function () {
 
   // Helper functions
   function createNFTGovernanceVAA(timestamp: number, nonce: number, sequence: number, payload: string, guardianSetIndex: number = 0): string {
-    const body = ethers.utils.solidityPack(
-      ["uint32", "uint32", "uint16", "bytes32", "uint64", "uint8", "bytes"],
-      [timestamp, nonce, governanceChainId, governanceContract, sequence, finality, payload]
-    );
-
-    const bodyHash = ethers.utils.keccak256(ethers.utils.keccak256(body));
-
-    // Create signature
-    const signingKey = new SigningKey(testGuardianPrivateKey);
-    const signature = signingKey.signDigest(bodyHash);
-    const formattedSignature = ethers.utils.solidityPack(
-      ["uint8", "bytes32", "bytes32", "uint8"],
-      [0, signature.r, signature.s, signature.recoveryParam]
-    );
-
-    return ethers.utils.solidityPack(
-      ["uint8", "uint32", "uint8", "bytes", "bytes"],
-      [1, guardianSetIndex, 1, formattedSignature, body]
-    );
+    return signAndEncodeVM({
+      timestamp,
+      nonce,
+      emitterChainId: governanceChainId,
+      emitterAddress: governanceContract,
+      sequence,
+      consistencyLevel: finality,
+      payload
+    }, [testGuardianPrivateKey], guardianSetIndex);
   }
 
-  async function createNFTTransferVAA(timestamp: number, nonce: number, sequence: number, tokenChain: number, tokenAddress: string, tokenId: string, to: string, toChain: number, fee: string): Promise<string> {
-    const transferPayload = ethers.utils.solidityPack(
-      ["uint8", "bytes32", "uint16", "bytes32", "bytes32", "uint16", "bytes32", "bytes32"],
-      [
-        1, // NFT transfer payload type
-        addressToBytes32(tokenAddress),
-        tokenChain,
-        ethers.utils.hexZeroPad(tokenId, 32),
-        addressToBytes32(to),
-        toChain,
-        addressToBytes32(await owner.getAddress()), // fee recipient
-        ethers.utils.hexZeroPad(fee, 32)
-      ]
-    );
-
-    const body = ethers.utils.solidityPack(
-      ["uint32", "uint32", "uint16", "bytes32", "uint64", "uint8", "bytes"],
-      [timestamp, nonce, tokenChain, testForeignBridgeContract, sequence, finality, transferPayload]
-    );
-
-    const bodyHash = ethers.utils.keccak256(ethers.utils.keccak256(body));
-    const signingKey = new SigningKey(testGuardianPrivateKey);
-    const signature = signingKey.signDigest(bodyHash);
-    const formattedSignature = ethers.utils.solidityPack(
-      ["uint8", "bytes32", "bytes32", "uint8"],
-      [0, signature.r, signature.s, signature.recoveryParam]
-    );
-
-    return ethers.utils.solidityPack(
-      ["uint8", "uint32", "uint8", "bytes", "bytes"],
-      [1, 0, 1, formattedSignature, body]
-    );
+  async function createNFTTransferVAA(timestamp: number, nonce: number, sequence: number, tokenChain: number, tokenAddress: string, tokenId: string, to: string, toChain: number, symbol: string = "TNFT", name: string = "Test NFT", uri: string = "https://example.com/nft"): Promise<string> {
+    const transferPayload = encodeTransfer({
+      tokenAddress: addressToBytes32(tokenAddress),
+      tokenChain,
+      symbol: ethers.utils.formatBytes32String(symbol),
+      name: ethers.utils.formatBytes32String(name),
+      tokenID: ethers.BigNumber.from(tokenId),
+      uri,
+      to: addressToBytes32(to),
+      toChain
+    });
+
+    return signAndEncodeVM({
+      timestamp,
+      nonce,
+      emitterChainId: tokenChain,
+      emitterAddress: testForeignBridgeContract,
+      sequence,
+      consistencyLevel: finality,
+      payload: transferPayload
+    }, [testGuardianPrivateKey], 0);
   }
 
   function parseVM(vm: string): { invalid: boolean; error?: string } {
@@ -194,15 +174,11 @@ describe("NFT Bridge", function () {
       const sequence = 1;
       
       // Create register chain payload
-      const registerPayload = ethers.utils.solidityPack(
-        ["bytes32", "uint8", "uint16", "bytes32"],
-        [
-          NFTBridgeModule,
-          actionRegisterChain,
-          testForeignChainId,
-          testForeignBridgeContract
-        ]
-      );
+      const registerPayload = encodeRegisterChain(NFT_BRIDGE_MODULE, {
+        chainId: 0,
+        emitterChainID: testForeignChainId,
+        emitterAddress: testForeignBridgeContract
+      });
 
       const vm = createNFTGovernanceVAA(timestamp, nonce, sequence, registerPayload);
       
@@ -230,15 +206,7 @@ describe("NFT Bridge", function () {
       const newImplAddress = ethers.Wallet.createRandom().address;
       
       // Create upgrade payload
-      const upgradePayload = ethers.utils.solidityPack(
-        ["bytes32", "uint8", "uint16", "bytes32"],
-        [
-          NFTBridgeModule,
-          actionContractUpgrade,
-          testChainId,
-          addressToBytes32(newImplAddress)
-        ]
-      );
+      const upgradePayload = encodeUpgradeContract(NFT_BRIDGE_MODULE, { chainId: testChainId, newContract: newImplAddress });
 
       const vm = createNFTGovernanceVAA(timestamp, nonce, sequence, upgradePayload);
       
@@ -353,8 +321,7 @@ describe("NFT Bridge", function () {
         mockNFTAddress,
         tokenId,
         await alice.getAddress(),
-        testForeignChainId,
-        "0"
+        testForeignChainId
       );
       
       await bridge.completeTransfer(vm);
@@ -388,8 +355,7 @@ describe("NFT Bridge", function () {
         testBridgedAssetAddress,
         tokenId,
         await alice.getAddress(),
-        testChainId,
-        ethers.utils.parseEther("0.1").toString()
+        testChainId
       );
       
       await bridge.completeTransfer(vm);
@@ -427,8 +393,7 @@ describe("NFT Bridge", function () {
         solanaTokenAddress,
         tokenId,
         await alice.getAddress(),
-        testChainId,
-        "0"
+        testChainId
       );
       
       await bridge.completeTransfer(vm);
@@ -467,8 +432,7 @@ describe("NFT Bridge", function () {
         solanaTokenAddress,
         tokenId.toString(),
         await alice.getAddress(),
-        testChainId,
-        "0"
+        testChainId
       );
       
       await bridge.completeTransfer(vm1);
@@ -616,10 +580,7 @@ describe("NFT Bridge", function () {
       
       // First perform successful upgrade
       const mockAddress1 = ethers.Wallet.createRandom().address;
-      const upgradeData1 = ethers.utils.solidityPack(
-        ["bytes32", "uint8", "uint16", "bytes32"],
-        [NFTBridgeModule, actionContractUpgrade, testChainId, addressToBytes32(mockAddress1)]
-      );
+      const upgradeData1 = encodeUpgradeContract(NFT_BRIDGE_MODULE, { chainId: testChainId, newContract: mockAddress1 });
       const upgradeVaa1 = createNFTGovernanceVAA(timestamp, nonce, sequence, upgradeData1);
 
       // Simulate fork by overwriting chain ID
@@ -629,10 +590,7 @@ describe("NFT Bridge", function () {
 
       // Try second upgrade - should fail on fork
       const mockAddress2 = ethers.Wallet.createRandom().address;
-      const upgradeData2 = ethers.utils.solidityPack(
-        ["bytes32", "uint8", "uint16", "bytes32"],
-        [NFTBridgeModule, actionContractUpgrade, testChainId, addressToBytes32(mockAddress2)]
-      );
+      const upgradeData2 = encodeUpgradeContract(NFT_BRIDGE_MODULE, { chainId: testChainId, newContract: mockAddress2 });
       const upgradeVaa2 = createNFTGovernanceVAA(timestamp, nonce + 1, sequence + 1, upgradeData2);
 
       bridge.upgrade = async () => {
@@ -669,10 +627,7 @@ describe("NFT Bridge", function () {
       }
 
       // Create recover chain ID payload
-      const recoverData = ethers.utils.solidityPack(
-        ["bytes32", "uint8", "uint16"],
-        [NFTBridgeModule, actionRecoverChainId, testChainId]
-      );
+      const recoverData = encodeBridgeRecoverChainId(NFT_BRIDGE_MODULE, { evmChainId: testEvmChainId, newChainId: testChainId });
 
       const recoverVaa = createNFTGovernanceVAA(timestamp, nonce, sequence, recoverData);
       
@@ -699,20 +654,14 @@ describe("NFT Bridge", function () {
       const sequence = 11;
       
       // First recover chain ID
-      const recoverData = ethers.utils.solidityPack(
-        ["bytes32", "uint8", "uint16"],
-        [NFTBridgeModule, actionRecoverChainId, testChainId]
-      );
+      const recoverData = encodeBridgeRecoverChainId(NFT_BRIDGE_MODULE, { evmChainId: testEvmChainId, newChainId: testChainId });
       const recoverVaa = createNFTGovernanceVAA(timestamp, nonce, sequence, recoverData);
       
       await bridge.submitRecoverChainId(recoverVaa);
       
       // After recovery, upgrades should work
       const mockAddress = ethers.Wallet.createRandom().address;
-      const upgradeData = ethers.utils.solidityPack(
-        ["bytes32", "uint8", "uint16", "bytes32"],
-        [NFTBridgeModule, actionContractUpgrade, testChainId, addressToBytes32(mockAddress)]
-      );
+      const upgradeData = encodeUpgradeContract(NFT_BRIDGE_MODULE, { chainId: testChainId, newContract: mockAddress });
       const upgradeVaa = createNFTGovernanceVAA(timestamp, nonce + 1, sequence + 1, upgradeData);
 
       bridge.upgrade = async () => {
@@ -758,8 +707,7 @@ describe("NFT Bridge", function () {
           ethers.Wallet.createRandom().address,
           scenario.tokenId.toString(),
           await alice.getAddress(),
-          testChainId,
-          "0"
+          testChainId
         );
         
         // Test that VM is properly formatted
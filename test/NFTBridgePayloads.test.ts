@@ -0,0 +1,157 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Contract, Signer } from "ethers";
+import {
+  Transfer,
+  MAX_URI_LENGTH,
+  SOLANA_CHAIN_ID,
+  SPL_WRAPPED_NAME,
+  SPL_WRAPPED_SYMBOL,
+  encodeTransfer,
+  parseTransfer,
+  wrappedMetadata
+} from "../scripts/lib/NFTBridgePayloads";
+import { randomBytes32, randomUint } from "./helpers/Random";
+import { expectRevert } from "./helpers/Revert";
+
+describe("NFTBridge payload codec", function () {
+  let bridge: Contract;
+  let owner: Signer;
+
+  // Random transfers per test, with URIs of up to MAX_URI_LENGTH characters, each encoded by
+  // the TS codec and NFTBridgeImplementation and parsed back by both; DIFFERENTIAL_RUNS=<n>
+  // for soak runs
+  const differentialRuns = Number(process.env.DIFFERENTIAL_RUNS ?? 10);
+
+  before(async function () {
+    this.timeout(60000);
+    const signers = await ethers.getSigners();
+    owner = signers[0];
+
+    const NFTBridgeImplementationFactory = await ethers.getContractFactory("NFTBridgeImplementation", owner);
+    bridge = await NFTBridgeImplementationFactory.deploy();
+    await bridge.deployed();
+  });
+
+  function randomURI(length: number): string {
+    const alphabet = "abcdefghijklmnopqrstuvwxyz0123456789/:.";
+    let uri = "";
+    for (let i = 0; i < length; i++) {
+      uri += alphabet[Math.floor(Math.random() * alphabet.length)];
+    }
+    return uri;
+  }
+
+  function randomTransfer(uriLength: number = Math.floor(Math.random() * (MAX_URI_LENGTH + 1))): Transfer {
+    return {
+      tokenAddress: randomBytes32(),
+      tokenChain: randomUint(2).toNumber(),
+      symbol: randomBytes32(),
+      name: randomBytes32(),
+      tokenID: randomUint(32),
+      uri: randomURI(uriLength),
+      to: randomBytes32(),
+      toChain: randomUint(2).toNumber()
+    };
+  }
+
+  function expectSameTransfer(local: Transfer, onChain: any) {
+    expect(local.tokenAddress).to.equal(onChain.tokenAddress);
+    expect(local.tokenChain).to.equal(onChain.tokenChain);
+    expect(local.symbol).to.equal(onChain.symbol);
+    expect(local.name).to.equal(onChain.name);
+    expect(local.tokenID.eq(onChain.tokenID)).to.equal(true);
+    expect(local.uri).to.equal(onChain.uri);
+    expect(local.to).to.equal(onChain.to);
+    expect(local.toChain).to.equal(onChain.toChain);
+  }
+
+  it("should encode and parse transfers like the bridge", async function () {
+    this.timeout(120000);
+
+    for (let i = 0; i < differentialRuns; i++) {
+      const transfer = randomTransfer();
+      const encoded = encodeTransfer(transfer);
+      expect(await bridge.encodeTransfer(transfer)).to.equal(encoded);
+
+      const local = parseTransfer(encoded);
+      expectSameTransfer(local, await bridge.parseTransfer(encoded));
+      expect(local.uri).to.equal(transfer.uri);
+
+      await new Promise(resolve => setTimeout(resolve, 50));
+    }
+  });
+
+  it("should handle empty and maximum length URIs like the bridge", async function () {
+    for (const length of [0, MAX_URI_LENGTH]) {
+      const transfer = randomTransfer(length);
+      const encoded = encodeTransfer(transfer);
+      expect(await bridge.encodeTransfer(transfer)).to.equal(encoded);
+      expectSameTransfer(parseTransfer(encoded), await bridge.parseTransfer(encoded));
+    }
+
+    const tooLong = randomTransfer(MAX_URI_LENGTH + 1);
+    expect(() => encodeTransfer(tooLong)).to.throw("tokenURI must not exceed 200 bytes");
+    await expectRevert(bridge.encodeTransfer(tooLong), "tokenURI must not exceed 200 bytes");
+  });
+
+  it("should ignore the URI length byte like the bridge", async function () {
+    const transfer = randomTransfer(32);
+    const encoded = ethers.utils.arrayify(encodeTransfer(transfer));
+
+    // The length byte sits right after payload id, tokenAddress, tokenChain, symbol, name and tokenID
+    encoded[1 + 32 + 2 + 32 + 32 + 32] = 0xff;
+
+    const local = parseTransfer(encoded);
+    expectSameTransfer(local, await bridge.parseTransfer(encoded));
+    expect(local.uri).to.equal(transfer.uri);
+  });
+
+  it("should keep URI bytes that are not UTF-8", function () {
+    const transfer: Transfer = { ...randomTransfer(0), uri: "http\ufffd:\ufffd", uriBytes: "0x68747470ff3a80" };
+    const encoded = encodeTransfer(transfer);
+
+    const local = parseTransfer(encoded);
+    expect(local.uriBytes).to.equal("0x68747470ff3a80");
+    expect(local.uri).to.equal("http\ufffd:\ufffd");
+    expect(encodeTransfer(local)).to.equal(encoded);
+  });
+
+  it("should refuse URI bytes that no longer match the URI", function () {
+    const local = parseTransfer(encodeTransfer(randomTransfer(32)));
+    const uri = local.uri + "/changed";
+
+    expect(() => encodeTransfer({ ...local, uri })).to.throw("uriBytes does not decode to uri");
+    expect(parseTransfer(encodeTransfer({ ...local, uri, uriBytes: undefined })).uri).to.equal(uri);
+  });
+
+  it("should reject the same malformed payloads as the bridge", async function () {
+    const encoded = encodeTransfer(randomTransfer());
+
+    // Wrong payload id
+    const wrongID = "0x02" + encoded.slice(4);
+    expect(() => parseTransfer(wrongID)).to.throw("invalid Transfer");
+    await expectRevert(bridge.parseTransfer(wrongID), "invalid Transfer");
+
+    // Too short to hold the trailing to/toChain after the fixed-size header
+    const truncated = encoded.slice(0, 2 + 2 * (1 + 32 + 2 + 32 + 32 + 32 + 1 + 20));
+    expect(() => parseTransfer(truncated)).to.throw("arithmetic underflow");
+    await expectRevert(bridge.parseTransfer(truncated), "");
+  });
+
+  it("should model the Solana wrapped name and SPL cache", async function () {
+    const solana = { ...randomTransfer(), tokenChain: SOLANA_CHAIN_ID };
+    const solanaMetadata = wrappedMetadata(solana);
+    expect(ethers.utils.parseBytes32String(solanaMetadata.name)).to.equal("Wormhole Bridged Solana-NFT");
+    expect(ethers.utils.parseBytes32String(solanaMetadata.symbol)).to.equal("WORMSPLNFT");
+    expect(solanaMetadata.name).to.equal(SPL_WRAPPED_NAME);
+    expect(solanaMetadata.symbol).to.equal(SPL_WRAPPED_SYMBOL);
+    expect(solanaMetadata.splCache).to.deep.equal({ name: solana.name, symbol: solana.symbol });
+
+    const other = { ...randomTransfer(), tokenChain: 3 };
+    const otherMetadata = wrappedMetadata(other);
+    expect(otherMetadata.name).to.equal(other.name);
+    expect(otherMetadata.symbol).to.equal(other.symbol);
+    expect(otherMetadata.splCache).to.equal(undefined);
+  });
+});
@@ -0,0 +1,127 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { BigNumber, Contract, Signer } from "ethers";
+import { VMBody, signAndEncodeVM } from "../scripts/lib/VAA";
+import { NFT_BRIDGE_MODULE, encodeRegisterChain } from "../scripts/lib/GovernancePayloads";
+import { SOLANA_CHAIN_ID, SPL_WRAPPED_NAME, encodeTransfer } from "../scripts/lib/NFTBridgePayloads";
+import { createNFTBridgeRelayer } from "../scripts/lib/NFTBridgeRelayer";
+import { deployNFTBridge } from "../scripts/DeployNFTBridge";
+
+describe("NFT bridge relayer", function () {
+  let nftBridge: Contract;
+  let owner: Signer;
+  let relayerAccount: Signer;
+  let recipient: string;
+  let sequence = 0;
+
+  const governanceContract = "0x0000000000000000000000000000000000000000000000000000000000000004";
+  const testChainId = 2;
+  const testGuardian = "93941733246223705020089879371323733820373732307041878556247502674739205313440";
+  const testGuardianPub = "0xbeFA429d57cD18b7F8A4d91A2da9AB4AF05d0FBe";
+  const foreignChainId = 1;
+  const foreignBridge = "0x000000000000000000000000000000000000000000000000000000000000ffff";
+  const bridgedAssetChain = 3;
+  const bridgedAsset = "0x000000000000000000000000b7a2211e8165943192ad04f5dd21bedc29ff003e";
+  const splMint = "0x0000000000000000000000000000000000000000000000000000000000005010";
+
+  function signVAA(emitterChainId: number, emitterAddress: string, payload: string): string {
+    const body: VMBody = { timestamp: 1, nonce: 0, emitterChainId, emitterAddress, sequence: sequence++, consistencyLevel: 15, payload };
+    return signAndEncodeVM(body, [testGuardian], 0);
+  }
+
+  function transferVAA(fields: { tokenID: number; tokenChain?: number; tokenAddress?: string; toChain?: number }): string {
+    return signVAA(foreignChainId, foreignBridge, encodeTransfer({
+      tokenAddress: fields.tokenAddress ?? bridgedAsset,
+      tokenChain: fields.tokenChain ?? bridgedAssetChain,
+      symbol: ethers.utils.formatBytes32String("ART"),
+      name: ethers.utils.formatBytes32String("Artwork"),
+      tokenID: BigNumber.from(fields.tokenID),
+      uri: `https://example.com/${fields.tokenID}.json`,
+      to: ethers.utils.hexZeroPad(recipient, 32),
+      toChain: fields.toChain ?? testChainId
+    }));
+  }
+
+  before(async function () {
+    this.timeout(120000);
+    const signers = await ethers.getSigners();
+    owner = signers[0];
+    relayerAccount = signers[1];
+    recipient = await signers[2].getAddress();
+
+    const SetupFactory = await ethers.getContractFactory("Setup", owner);
+    const setup = await SetupFactory.deploy();
+    await setup.deployed();
+
+    const ImplementationFactory = await ethers.getContractFactory("Implementation", owner);
+    const impl = await ImplementationFactory.deploy();
+    await impl.deployed();
+
+    const WormholeFactory = await ethers.getContractFactory("Wormhole", owner);
+    const proxy = await WormholeFactory.deploy(setup.address, "0x");
+    await proxy.deployed();
+
+    const network = await ethers.provider.getNetwork();
+    const proxiedSetup = await ethers.getContractAt("Setup", proxy.address, owner);
+    await proxiedSetup.setup(impl.address, [testGuardianPub], testChainId, 1, governanceContract, network.chainId);
+
+    const deployed = await deployNFTBridge({
+      chainId: testChainId,
+      governanceChainId: 1,
+      governanceContract,
+      finality: 15,
+      evmChainId: network.chainId,
+      wormhole: proxy.address
+    }, owner);
+    nftBridge = await ethers.getContractAt("INFTBridge", deployed.deployedAddress, owner);
+
+    const registration = encodeRegisterChain(NFT_BRIDGE_MODULE, { chainId: 0, emitterChainID: foreignChainId, emitterAddress: foreignBridge });
+    await (await nftBridge.registerChain(signVAA(1, governanceContract, registration))).wait();
+  });
+
+  it("should create the wrapped collection on the first transfer and reuse it afterwards", async function () {
+    this.timeout(60000);
+    const relayer = await createNFTBridgeRelayer({ nftBridge: nftBridge.address, signer: relayerAccount });
+    const vaa = transferVAA({ tokenID: 1 });
+
+    expect(await relayer.completion(vaa)).to.deep.equal({ completed: false, token: undefined, tokenID: "1", native: false });
+
+    const first = await relayer.relay(vaa);
+    const wrapped = await nftBridge.wrappedAsset(bridgedAssetChain, bridgedAsset);
+    expect(first).to.include({ status: "relayed", createdCollection: true, token: wrapped, tokenID: "1", owner: recipient, attempts: 1 });
+    expect(first.splCache).to.equal(undefined);
+
+    const second = await relayer.relay(transferVAA({ tokenID: 2 }));
+    expect(second).to.include({ status: "relayed", createdCollection: false, token: wrapped, tokenID: "2", owner: recipient });
+
+    const nft = await ethers.getContractAt("NFTImplementation", wrapped);
+    expect(await nft.tokenURI(2)).to.equal("https://example.com/2.json");
+    expect(await relayer.completion(vaa)).to.include({ completed: true, token: wrapped, owner: recipient });
+  });
+
+  it("should surface the splCache entry of Solana-origin tokens", async function () {
+    this.timeout(60000);
+    const relayer = await createNFTBridgeRelayer({ nftBridge: nftBridge.address, signer: relayerAccount });
+
+    const record = await relayer.relay(transferVAA({ tokenID: 77, tokenChain: SOLANA_CHAIN_ID, tokenAddress: splMint }));
+    expect(record).to.include({ status: "relayed", createdCollection: true, tokenID: "77" });
+    expect(record.splCache).to.deep.equal({
+      name: ethers.utils.formatBytes32String("Artwork"),
+      symbol: ethers.utils.formatBytes32String("ART")
+    });
+
+    // The collection itself carries the unified SPL name
+    const nft = await ethers.getContractAt("NFTImplementation", record.token as string);
+    expect(await nft.name()).to.equal(ethers.utils.parseBytes32String(SPL_WRAPPED_NAME));
+  });
+
+  it("should skip transfers that are redeemed or not for this chain", async function () {
+    this.timeout(60000);
+    const relayer = await createNFTBridgeRelayer({ nftBridge: nftBridge.address, signer: relayerAccount });
+    const vaa = transferVAA({ tokenID: 3 });
+    await (await nftBridge.completeTransfer(vaa)).wait();
+
+    expect(await relayer.relay(vaa)).to.include({ status: "skipped", reason: "transfer already completed", owner: recipient });
+    expect(await relayer.relay(transferVAA({ tokenID: 4, toChain: 4 }))).to.include({ status: "skipped", reason: "transfer is for chain 4" });
+  });
+});
@@ -0,0 +1,210 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Contract, Signer, providers } from "ethers";
+import { parseVM } from "../scripts/lib/VAA";
+import { createMockGuardian } from "../scripts/lib/MockGuardian";
+import { encodeAdditionalBlocksConfig } from "../scripts/lib/ConsistencyLevelConfig";
+import { PublishedMessage } from "../scripts/lib/BatchVAA";
+import { FinalityDepths, createObservationTracker, finalityLevel, observationRule, signableAtBlock } from "../scripts/lib/ObservationDelay";
+
+describe("Observation delays", function () {
+  let wormhole: Contract;
+  let customConsistencyLevel: Contract;
+  let testCustomConsistencyLevel: Contract;
+  let owner: Signer;
+
+  const governanceContract = "0x0000000000000000000000000000000000000000000000000000000000000004";
+  const testChainId = 2;
+  const testGuardian = "93941733246223705020089879371323733820373732307041878556247502674739205313440";
+  const testGuardianPub = "0xbeFA429d57cD18b7F8A4d91A2da9AB4AF05d0FBe";
+  const finality: FinalityDepths = { safe: 2, finalized: 5 };
+
+  // One block per transaction, on Hardhat and on the dev node alike
+  async function mine(blocks: number) {
+    for (let i = 0; i < blocks; i++) {
+      await (await owner.sendTransaction({ to: await owner.getAddress(), value: 0 })).wait();
+    }
+  }
+
+  before(async function () {
+    this.timeout(60000);
+    const signers = await ethers.getSigners();
+    owner = signers[0];
+
+    const SetupFactory = await ethers.getContractFactory("Setup", owner);
+    const setup = await SetupFactory.deploy();
+    await setup.deployed();
+
+    const ImplementationFactory = await ethers.getContractFactory("Implementation", owner);
+    const impl = await ImplementationFactory.deploy();
+    await impl.deployed();
+
+    const WormholeFactory = await ethers.getContractFactory("Wormhole", owner);
+    const proxy = await WormholeFactory.deploy(setup.address, "0x");
+    await proxy.deployed();
+
+    const network = await ethers.provider.getNetwork();
+    const proxiedSetup = await ethers.getContractAt("Setup", proxy.address, owner);
+    await proxiedSetup.setup(impl.address, [testGuardianPub], testChainId, 1, governanceContract, network.chainId);
+
+    wormhole = await ethers.getContractAt("Implementation", proxy.address, owner);
+
+    const CustomConsistencyLevelFactory = await ethers.getContractFactory("CustomConsistencyLevel", owner);
+    customConsistencyLevel = await CustomConsistencyLevelFactory.deploy();
+    await customConsistencyLevel.deployed();
+
+    // Safe, then 3 more blocks
+    const TestCustomConsistencyLevelFactory = await ethers.getContractFactory("TestCustomConsistencyLevel", owner);
+    testCustomConsistencyLevel = await TestCustomConsistencyLevelFactory.deploy(wormhole.address, customConsistencyLevel.address, 201, 3);
+    await testCustomConsistencyLevel.deployed();
+  });
+
+  it("should map consistency levels to the finality guardians wait for", function () {
+    expect(finalityLevel(200)).to.equal("instant");
+    expect(finalityLevel(201)).to.equal("safe");
+    expect([1, 15, 202, 203].map(finalityLevel)).to.deep.equal(["finalized", "finalized", "finalized", "finalized"]);
+
+    const custom = (consistencyLevel: number, blocksToWait: number) => {
+      const raw = encodeAdditionalBlocksConfig(consistencyLevel, blocksToWait);
+      return { raw, config: { type: 1, consistencyLevel, blocksToWait } };
+    };
+    expect(observationRule(203, custom(200, 7))).to.include({ level: "instant", additionalBlocks: 7 });
+    expect(observationRule(203, custom(201, 0))).to.include({ level: "safe", additionalBlocks: 0 });
+    // The config only applies to messages that ask for it
+    expect(observationRule(201, custom(200, 7))).to.deep.equal({ level: "safe", additionalBlocks: 0 });
+    // Unconfigured emitters wait for finality
+    expect(observationRule(203, { raw: ethers.constants.HashZero, config: null })).to.include({ level: "finalized", additionalBlocks: 0 });
+
+    expect(signableAtBlock({ level: "safe", additionalBlocks: 3 }, 100, finality)).to.equal(105);
+    expect(signableAtBlock({ level: "finalized", additionalBlocks: 0 }, 100)).to.equal(100);
+  });
+
+  it("should sign each message once its consistency level and custom config allow", async function () {
+    this.timeout(120000);
+    const guardian = await createMockGuardian({
+      provider: ethers.provider,
+      wormhole: wormhole.address,
+      keys: [testGuardian],
+      customConsistencyLevel: customConsistencyLevel.address,
+      finality
+    });
+
+    const published = [
+      await (await wormhole.publishMessage(1, "0x01", 200)).wait(),
+      await (await wormhole.publishMessage(2, "0x02", 201)).wait(),
+      await (await wormhole.publishMessage(3, "0x03", 15)).wait(),
+      await (await testCustomConsistencyLevel.publishMessage("custom")).wait()
+    ];
+    const blocks = published.map(receipt => receipt.blockNumber);
+    const expected = [blocks[0], blocks[1] + 2, blocks[2] + 5, blocks[3] + 2 + 3];
+
+    // Sign whatever is due after every block, recording the block it was signed at
+    const signedAt = new Map<string, number>();
+    const last = Math.max(...expected);
+    for (;;) {
+      const block = await ethers.provider.getBlockNumber();
+      for (const vaa of await guardian.poll()) signedAt.set(vaa.transactionHash, block);
+      if (block >= last) break;
+      await mine(1);
+    }
+
+    const observations = guardian.observations.all();
+    expect(observations.map(o => o.message.transactionHash)).to.deep.equal(published.map(r => r.transactionHash));
+    expect(observations.map(o => o.signableAtBlock)).to.deep.equal(expected);
+    expect(observations[3].rule).to.include({ level: "safe", additionalBlocks: 3 });
+    expect(observations[3].rule.custom?.raw).to.equal(encodeAdditionalBlocksConfig(201, 3));
+    expect(guardian.observations.pending()).to.deep.equal([]);
+
+    for (let i = 0; i < published.length; i++) {
+      // Never before the message was signable; the first message is signable in its own block
+      expect(signedAt.get(published[i].transactionHash), `message ${i}`).to.be.at.least(expected[i]);
+      const block = await ethers.provider.getBlock(expected[i]);
+      expect(observations[i].signableAtTimestamp).to.equal(block.timestamp);
+    }
+
+    const custom = parseVM(guardian.store.byTransaction(published[3].transactionHash)[0].vaa);
+    expect(custom.consistencyLevel).to.equal(203);
+    expect(custom.emitterAddress).to.equal(ethers.utils.hexZeroPad(testCustomConsistencyLevel.address, 32).toLowerCase());
+    const [, valid, reason] = await wormhole.parseAndVerifyVM(guardian.store.byTransaction(published[3].transactionHash)[0].vaa);
+    expect(reason).to.equal("");
+    expect(valid).to.equal(true);
+  });
+
+  it("should use the config in effect when the message was published", async function () {
+    this.timeout(120000);
+    const guardian = await createMockGuardian({
+      provider: ethers.provider,
+      wormhole: wormhole.address,
+      keys: [testGuardian],
+      customConsistencyLevel: customConsistencyLevel.address
+    });
+
+    await (await testCustomConsistencyLevel.configure(200, 4)).wait();
+    const receipt = await (await testCustomConsistencyLevel.publishMessage("reconfigured")).wait();
+    await (await testCustomConsistencyLevel.configure(200, 40)).wait();
+
+    expect(await guardian.poll()).to.deep.equal([]);
+    expect(guardian.observations.pending()[0].rule).to.include({ level: "instant", additionalBlocks: 4 });
+
+    await mine(3);
+    const signed = await guardian.poll();
+    expect(signed.map(v => v.transactionHash)).to.deep.equal([receipt.transactionHash]);
+    expect(guardian.observations.all()[0].signableAtBlock).to.equal(receipt.blockNumber + 4);
+  });
+
+  it("should fall back to the current config when the node cannot read past state", async function () {
+    const customMessage: PublishedMessage = {
+      sender: testCustomConsistencyLevel.address,
+      sequence: ethers.BigNumber.from(0),
+      nonce: 0,
+      payload: "0x01",
+      consistencyLevel: 203,
+      transactionHash: ethers.constants.HashZero,
+      blockNumber: 10,
+      logIndex: 0
+    };
+    // Answers getConfiguration at the latest block only, like a node without archive state
+    const prunedNode = (current?: string) => ({
+      _isProvider: true,
+      call: async (_tx: unknown, blockTag?: unknown) => {
+        if (blockTag !== undefined || current === undefined) throw new Error("missing trie node");
+        return current;
+      }
+    }) as unknown as providers.Provider;
+
+    const tracker = createObservationTracker({ provider: prunedNode(encodeAdditionalBlocksConfig(200, 4)), customConsistencyLevel: customConsistencyLevel.address });
+    expect((await tracker.add(customMessage)).rule).to.include({ level: "instant", additionalBlocks: 4 });
+
+    const unreadable = createObservationTracker({ provider: prunedNode(), customConsistencyLevel: customConsistencyLevel.address });
+    const { rule } = await unreadable.add(customMessage);
+    expect(rule).to.include({ level: "finalized", additionalBlocks: 0 });
+    expect(rule.custom?.error).to.include("missing trie node");
+  });
+
+  it("should only keep the latest signed observations", async function () {
+    const chain = { getBlock: async (blockNumber: number) => ({ number: blockNumber, timestamp: 1000 + blockNumber }) } as unknown as providers.Provider;
+    const tracker = createObservationTracker({ provider: chain, history: 2 });
+    const message = (blockNumber: number): PublishedMessage => ({
+      sender: testGuardianPub,
+      sequence: ethers.BigNumber.from(blockNumber),
+      nonce: 0,
+      payload: "0x01",
+      consistencyLevel: 200,
+      transactionHash: ethers.utils.hexZeroPad(ethers.utils.hexlify(blockNumber), 32),
+      blockNumber,
+      logIndex: 0
+    });
+
+    const first = await tracker.add(message(1));
+    for (let block = 2; block <= 5; block++) await tracker.add(message(block));
+    // Re-reading a block that is still in range finds the observation already tracked
+    expect(await tracker.add(message(1))).to.equal(first);
+    tracker.readThrough(6);
+
+    for (const observation of await tracker.due(5)) tracker.signed(observation);
+    await tracker.add(message(6));
+
+    expect(tracker.pending().map(o => o.message.blockNumber)).to.deep.equal([6]);
+    expect(tracker.all().map(o => o.message.blockNumber)).to.deep.equal([4, 5, 6]);
+  });
+});
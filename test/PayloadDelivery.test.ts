@@ -0,0 +1,170 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { BigNumber, Contract, Signer } from "ethers";
+import { VMBody, signAndEncodeVM } from "../scripts/lib/VAA";
+import { TOKEN_BRIDGE_MODULE, encodeRegisterChain } from "../scripts/lib/GovernancePayloads";
+import { encodeAssetMeta, encodeTransfer, encodeTransferWithPayload } from "../scripts/lib/TokenBridgePayloads";
+import { IntegratorRegistry, createIntegratorRegistry, createPayloadDeliveryService } from "../scripts/lib/PayloadDelivery";
+import { deployTokenBridge } from "../scripts/DeployTokenBridge";
+
+describe("Payload delivery", function () {
+  let wormhole: Contract;
+  let tokenBridge: Contract;
+  let integration: Contract;
+  let wrapped: Contract;
+  let owner: Signer;
+  let deliverer: Signer;
+  let receiver: string;
+  let registry: IntegratorRegistry;
+  let sequence = 0;
+
+  const governanceContract = "0x0000000000000000000000000000000000000000000000000000000000000004";
+  const testChainId = 2;
+  const testGuardian = "93941733246223705020089879371323733820373732307041878556247502674739205313440";
+  const testGuardianPub = "0xbeFA429d57cD18b7F8A4d91A2da9AB4AF05d0FBe";
+  const foreignChainId = 1;
+  const foreignBridge = "0x000000000000000000000000000000000000000000000000000000000000beef";
+  const foreignToken = "0x000000000000000000000000b7a2211e8165943192ad04f5dd21bedc29ff003e";
+  const foreignSender = "0x000000000000000000000000000000000000000000000000000000000000cafe";
+
+  function signVAA(emitterChainId: number, emitterAddress: string, payload: string): string {
+    const body: VMBody = { timestamp: 1, nonce: 0, emitterChainId, emitterAddress, sequence: sequence++, consistencyLevel: 15, payload };
+    return signAndEncodeVM(body, [testGuardian], 0);
+  }
+
+  // MockTokenBridgeIntegration expects a 32 byte payload: who to forward the tokens to
+  function transferWithPayloadVAA(amount: number, to: string): string {
+    return signVAA(foreignChainId, foreignBridge, encodeTransferWithPayload({
+      payloadID: 3,
+      amount: BigNumber.from(amount),
+      tokenAddress: foreignToken,
+      tokenChain: foreignChainId,
+      to: ethers.utils.hexZeroPad(to, 32),
+      toChain: testChainId,
+      fromAddress: foreignSender,
+      payload: ethers.utils.hexZeroPad(receiver, 32)
+    }));
+  }
+
+  before(async function () {
+    this.timeout(120000);
+    const signers = await ethers.getSigners();
+    owner = signers[0];
+    deliverer = signers[1];
+    receiver = await signers[2].getAddress();
+
+    const SetupFactory = await ethers.getContractFactory("Setup", owner);
+    const setup = await SetupFactory.deploy();
+    await setup.deployed();
+
+    const ImplementationFactory = await ethers.getContractFactory("Implementation", owner);
+    const impl = await ImplementationFactory.deploy();
+    await impl.deployed();
+
+    const WormholeFactory = await ethers.getContractFactory("Wormhole", owner);
+    const proxy = await WormholeFactory.deploy(setup.address, "0x");
+    await proxy.deployed();
+
+    const network = await ethers.provider.getNetwork();
+    const proxiedSetup = await ethers.getContractAt("Setup", proxy.address, owner);
+    await proxiedSetup.setup(impl.address, [testGuardianPub], testChainId, 1, governanceContract, network.chainId);
+    wormhole = await ethers.getContractAt("Implementation", proxy.address, owner);
+
+    const MockWETH9Factory = await ethers.getContractFactory("MockWETH9", owner);
+    const weth = await MockWETH9Factory.deploy();
+    await weth.deployed();
+
+    const deployed = await deployTokenBridge({
+      chainId: testChainId,
+      governanceChainId: 1,
+      governanceContract,
+      weth: weth.address,
+      finality: 15,
+      evmChainId: network.chainId,
+      wormhole: wormhole.address
+    }, owner);
+    tokenBridge = await ethers.getContractAt("ITokenBridge", deployed.deployedAddress, owner);
+
+    const registration = encodeRegisterChain(TOKEN_BRIDGE_MODULE, { chainId: 0, emitterChainID: foreignChainId, emitterAddress: foreignBridge });
+    await (await tokenBridge.registerChain(signVAA(1, governanceContract, registration))).wait();
+
+    const meta = encodeAssetMeta({
+      payloadID: 2,
+      tokenAddress: foreignToken,
+      tokenChain: foreignChainId,
+      decimals: 8,
+      symbol: ethers.utils.formatBytes32String("FOR"),
+      name: ethers.utils.formatBytes32String("Foreign Token")
+    });
+    await (await tokenBridge.createWrapped(signVAA(foreignChainId, foreignBridge, meta))).wait();
+    wrapped = await ethers.getContractAt("TokenImplementation", await tokenBridge.wrappedAsset(foreignChainId, foreignToken));
+
+    const IntegrationFactory = await ethers.getContractFactory("MockTokenBridgeIntegration", owner);
+    integration = await IntegrationFactory.deploy();
+    await integration.deployed();
+    await (await integration.setup(tokenBridge.address)).wait();
+
+    registry = createIntegratorRegistry([{
+      name: "swap",
+      address: integration.address,
+      entrypoint: "completeTransferAndSwap(bytes)",
+      payload: ["bytes32 receiver"]
+    }]);
+  });
+
+  it("should deliver payload 3 transfers to the integrator and decode the outcome", async function () {
+    this.timeout(60000);
+    const service = await createPayloadDeliveryService({ tokenBridge: tokenBridge.address, signer: deliverer, registry });
+    const vaa = transferWithPayloadVAA(1000, integration.address);
+
+    const record = await service.deliver(vaa);
+    expect(record).to.include({
+      status: "relayed",
+      integrator: "swap",
+      method: "completeTransferAndSwap",
+      recipient: integration.address,
+      amount: "1000",
+      fromAddress: foreignSender,
+      redeemed: true,
+      attempts: 1
+    });
+    expect(record.decodedPayload).to.deep.equal({ receiver: ethers.utils.hexZeroPad(receiver, 32).toLowerCase() });
+    // Minted to the integrator, then forwarded to the receiver in its payload
+    expect(record.tokenMovements).to.deep.equal([
+      { token: wrapped.address, from: ethers.constants.AddressZero, to: integration.address, amount: "1000" },
+      { token: wrapped.address, from: integration.address, to: receiver, amount: "1000" }
+    ]);
+    expect(await wrapped.balanceOf(receiver)).to.equal(1000);
+    expect(await tokenBridge.isTransferCompleted(record.hash)).to.equal(true);
+
+    // Delivered VAAs come back as their record
+    expect(await service.deliver(vaa)).to.deep.equal(record);
+  });
+
+  it("should only deliver to registered integrators", async function () {
+    this.timeout(60000);
+    const service = await createPayloadDeliveryService({ tokenBridge: tokenBridge.address, signer: deliverer, registry });
+
+    // Only the recipient may redeem a payload 3 transfer, so there is nothing to call for this one
+    const unregistered = await service.deliver(transferWithPayloadVAA(1, receiver));
+    // A later registry may list the recipient
+    expect(unregistered).to.include({ status: "deferred", reason: `no integrator registered for ${receiver}` });
+
+    const plain = signVAA(foreignChainId, foreignBridge, encodeTransfer({
+      payloadID: 1,
+      amount: BigNumber.from(1),
+      tokenAddress: foreignToken,
+      tokenChain: foreignChainId,
+      to: ethers.utils.hexZeroPad(integration.address, 32),
+      toChain: testChainId,
+      fee: BigNumber.from(0)
+    }));
+    expect(await service.deliver(plain)).to.include({ status: "skipped", reason: "payload 1 is not a transfer with payload" });
+  });
+
+  it("should reject registries with entrypoints that do not take the VAA", function () {
+    expect(() => createIntegratorRegistry([
+      { name: "bad", address: ethers.constants.AddressZero, entrypoint: "swap(bytes,uint256)" }
+    ])).to.throw("must take the VAA as its only (bytes) argument");
+  });
+});
@@ -0,0 +1,54 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { RelayRecord, createRelayLog } from "../scripts/lib/RelayLog";
+
+describe("RelayLog", function () {
+  let dir: string;
+  let file: string;
+
+  const record = (id: string, status: RelayRecord["status"] = "relayed"): RelayRecord =>
+    ({ id, hash: "0x" + "00".repeat(32), status, attempts: 1, updatedAt: 0 });
+  const line = (r: RelayRecord) => JSON.stringify(r) + "\n";
+
+  beforeEach(function () {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "relay-log-"));
+    file = path.join(dir, "relayer.jsonl");
+  });
+
+  afterEach(function () {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should load the last outcome of every id", function () {
+    fs.writeFileSync(file, line(record("1/a/0", "failed")) + line(record("1/a/1")) + line(record("1/a/0")));
+
+    const log = createRelayLog(file);
+    expect(log.all()).to.have.length(2);
+    expect(log.get("1/a/0")!.status).to.equal("relayed");
+  });
+
+  it("should drop a torn last line and keep appending on a line of its own", function () {
+    fs.writeFileSync(file, line(record("1/a/0")) + line(record("1/a/1")).slice(0, 20));
+
+    const log = createRelayLog(file);
+    expect(log.all().map(r => r.id)).to.deep.equal(["1/a/0"]);
+
+    log.put(record("1/a/1"));
+    expect(createRelayLog(file).all().map(r => r.id)).to.deep.equal(["1/a/0", "1/a/1"]);
+  });
+
+  it("should keep a last line that only misses its newline", function () {
+    fs.writeFileSync(file, line(record("1/a/0")).trimEnd());
+
+    createRelayLog(file).put(record("1/a/1"));
+    expect(createRelayLog(file).all().map(r => r.id)).to.deep.equal(["1/a/0", "1/a/1"]);
+  });
+
+  it("should refuse a corrupt line before the last one", function () {
+    fs.writeFileSync(file, line(record("1/a/0")) + "{\"id\":\n" + line(record("1/a/1")));
+
+    expect(() => createRelayLog(file)).to.throw(`${file}:2:`);
+  });
+});
@@ -0,0 +1,105 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ParamSpecs, loadScriptParams, paramUsage } from "../scripts/lib/ScriptParams";
+
+interface Params {
+  initialSigners: string[];
+  chainId: number;
+  governanceContract: string;
+  finality: number;
+  weth?: string;
+}
+
+describe("Script params", function () {
+  let dir: string;
+
+  const specs: ParamSpecs<Params> = {
+    initialSigners: { type: "addresses", env: "GUARDIANS" },
+    chainId: { type: "chainId" },
+    governanceContract: { type: "bytes32", default: "0x0000000000000000000000000000000000000000000000000000000000000004" },
+    finality: { type: "finality", default: 15 },
+    weth: { type: "address", optional: true }
+  };
+  const guardian = "0xbeFA429d57cD18b7F8A4d91A2da9AB4AF05d0FBe";
+
+  before(function () {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "params-"));
+  });
+
+  after(function () {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should prefer flags over env vars over the config file over defaults", function () {
+    const config = path.join(dir, "deploy.yaml");
+    fs.writeFileSync(config, `chainId: 4\nfinality: 1\ninitialSigners:\n  - "${guardian}"\nunrelated: ignored\n`);
+
+    const params = loadScriptParams(specs, { argv: ["--chain-id", "6", "--config", config], env: { FINALITY: "200" } });
+    expect(params).to.deep.equal({
+      initialSigners: [guardian],
+      chainId: 6,
+      governanceContract: "0x0000000000000000000000000000000000000000000000000000000000000004",
+      finality: 200
+    });
+
+    // CONFIG works like --config; lists from env vars are comma separated
+    const fromEnv = loadScriptParams(specs, { argv: ["--weth=0x000000000000000000000000000000000000dEaD"], env: { CONFIG: config, GUARDIANS: `${guardian}, 0x90F8bf6A479f320ead074411a4B0e7944Ea8c9C1` } });
+    expect(fromEnv).to.include({ chainId: 4, finality: 1, weth: "0x000000000000000000000000000000000000dEaD" });
+    expect(fromEnv.initialSigners).to.have.length(2);
+  });
+
+  it("should report every invalid or missing parameter at once", function () {
+    const env = {
+      GUARDIANS: `${guardian.toLowerCase()},${guardian}`,
+      CHAIN_ID: "70000",
+      GOVERNANCE_CONTRACT: "0x04",
+      FINALITY: "256"
+    };
+    expect(() => loadScriptParams(specs, { argv: [], env })).to.throw(Error)
+      .with.property("message")
+      .that.includes(`initialSigners (from GUARDIANS) ${guardian.toLowerCase()} is not checksummed, did you mean ${guardian}?`)
+      .and.includes("chainId (from CHAIN_ID) must be a Wormhole chain ID between 1 and 65535")
+      .and.includes("governanceContract (from GOVERNANCE_CONTRACT) must be 0x followed by 64 hex digits")
+      .and.includes("finality (from FINALITY) must be a consistency level between 0 and 255");
+
+    expect(() => loadScriptParams(specs, { argv: ["--chain-id", "0", "--finalty", "1"], env: {} })).to.throw(Error)
+      .with.property("message")
+      .that.includes("initialSigners is required: set --initial-signers, GUARDIANS or \"initialSigners\" in a config file")
+      .and.includes("chainId (from --chain-id) must be a Wormhole chain ID between 1 and 65535, got \"0\"")
+      .and.includes("unknown flag --finalty");
+
+    expect(() => loadScriptParams(specs, { argv: [], env: { GUARDIANS: `${guardian},${guardian}`, CHAIN_ID: "2" } }))
+      .to.throw(`lists ${guardian} twice`);
+  });
+
+  it("should read positional arguments for ts-node use", function () {
+    const register: ParamSpecs<{ tokenBridge: string; registrationVaas: string[] }> = {
+      tokenBridge: { type: "address", positional: 0 },
+      registrationVaas: { type: "strings", positional: 1, rest: true }
+    };
+    expect(loadScriptParams(register, { argv: [guardian, "a.vaa", "b.vaa"], env: {} }))
+      .to.deep.equal({ tokenBridge: guardian, registrationVaas: ["a.vaa", "b.vaa"] });
+    expect(loadScriptParams(register, { argv: [], env: { TOKEN_BRIDGE: guardian, REGISTRATION_VAAS: "./vaas,0x01" } }).registrationVaas)
+      .to.deep.equal(["./vaas", "0x01"]);
+  });
+
+  it("should accept zero for uint but not for count", function () {
+    const polling: ParamSpecs<{ fromBlock: number; pollInterval: number }> = {
+      fromBlock: { type: "uint" },
+      pollInterval: { type: "count" }
+    };
+    expect(loadScriptParams(polling, { argv: [], env: { FROM_BLOCK: "0", POLL_INTERVAL: "500" } })).to.deep.equal({ fromBlock: 0, pollInterval: 500 });
+    expect(() => loadScriptParams(polling, { argv: [], env: { FROM_BLOCK: "-1", POLL_INTERVAL: "0" } })).to.throw(Error)
+      .with.property("message")
+      .that.includes("fromBlock (from FROM_BLOCK) must be a non-negative integer, got \"-1\"")
+      .and.includes("pollInterval (from POLL_INTERVAL) must be a positive integer, got \"0\"");
+  });
+
+  it("should describe the environment variables in usage lines", function () {
+    expect(paramUsage(specs)).to.equal(
+      "GUARDIANS=<address>,... CHAIN_ID=<wormhole chain id> [GOVERNANCE_CONTRACT=<bytes32>] [FINALITY=<consistency level>] [WETH=<address>] [CONFIG=<json|yaml file>]"
+    );
+  });
+});
@@ -0,0 +1,101 @@
+import { expect } from "chai";
+import * as http from "http";
+import { AddressInfo } from "net";
+import axios from "axios";
+import { ethers } from "ethers";
+import { parseVM } from "../scripts/lib/VAA";
+import { vaaFixture } from "../scripts/lib/VAAFixtures";
+import { SignedVAA, VAAStore, createVAAStore } from "../scripts/lib/VAAStore";
+import { createSignedVAAServer } from "../scripts/lib/SignedVAAServer";
+
+describe("Signed VAA server", function () {
+  let store: VAAStore;
+  let server: http.Server;
+  let baseURL: string;
+
+  const transactionHash = "0x" + "ab".repeat(32);
+
+  function signedVAA(name: string): SignedVAA {
+    const vaa = vaaFixture(name);
+    const vm = parseVM(vaa);
+    return {
+      emitterChain: vm.emitterChainId,
+      emitterAddress: vm.emitterAddress,
+      sequence: vm.sequence.toString(),
+      transactionHash,
+      blockNumber: 1,
+      vaa
+    };
+  }
+
+  const get = (path: string) => axios.get(baseURL + path, { validateStatus: () => true });
+
+  before(async function () {
+    store = createVAAStore();
+    store.put(signedVAA("foundry-valid-vm"));
+    server = createSignedVAAServer(store, { maxWait: 500 });
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async function () {
+    server.closeAllConnections();
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  it("should serve a VAA by chain, emitter and sequence like the guardian API", async function () {
+    const vaa = vaaFixture("foundry-valid-vm");
+    const vm = parseVM(vaa);
+    const res = await get(`/v1/signed_vaa/${vm.emitterChainId}/${vm.emitterAddress.slice(2)}/${vm.sequence}`);
+
+    expect(res.status).to.equal(200);
+    expect(res.data).to.deep.equal({ vaaBytes: ethers.utils.base64.encode(vaa) });
+  });
+
+  it("should return 404 for unknown VAAs and 400 for malformed requests", async function () {
+    const emitter = "00".repeat(31) + "ee";
+    const missing = await get(`/v1/signed_vaa/11/${emitter}/999`);
+    expect(missing.status).to.equal(404);
+    expect(missing.data).to.deep.equal({ code: 5, message: "requested VAA not found in store", details: [] });
+
+    expect((await get(`/v1/signed_vaa/11/${"00".repeat(33)}/1`)).status).to.equal(400);
+    expect((await get(`/v1/signed_vaa/11/${emitter}/1?wait=soon`)).status).to.equal(400);
+    expect((await get("/api/v1/vaas/?txHash=0x1234")).status).to.equal(400);
+    expect((await get("/v1/nope")).status).to.equal(404);
+  });
+
+  it("should list the VAAs of a transaction like Wormholescan", async function () {
+    const res = await get(`/api/v1/vaas/?txHash=${transactionHash}`);
+
+    expect(res.status).to.equal(200);
+    expect(res.data.data.length).to.equal(1);
+    const entry = res.data.data[0];
+    expect(entry.id).to.equal(`11/${"00".repeat(30)}0eee/1337`);
+    expect(entry.txHash).to.equal(transactionHash.slice(2));
+    expect(entry.vaa).to.equal(ethers.utils.base64.encode(vaaFixture("foundry-valid-vm")));
+    expect(entry.timestamp).to.equal(new Date(1000 * 1000).toISOString());
+
+    expect((await get(`/api/v1/vaas/?txHash=${"cd".repeat(32)}`)).status).to.equal(404);
+  });
+
+  it("should long-poll until the VAA is signed", async function () {
+    const late = signedVAA("token-bridge-transfer");
+    const path = `/v1/signed_vaa/${late.emitterChain}/${late.emitterAddress.slice(2)}/${late.sequence}`;
+
+    const pending = get(path + "?wait=500");
+    setTimeout(() => store.put(late), 100);
+    const res = await pending;
+
+    expect(res.status).to.equal(200);
+    expect(res.data.vaaBytes).to.equal(ethers.utils.base64.encode(late.vaa));
+  });
+
+  it("should give up long-polling after the wait, capped at maxWait", async function () {
+    this.timeout(10000);
+    const started = Date.now();
+    const res = await get(`/v1/signed_vaa/11/${"00".repeat(32)}/1?wait=60000`);
+
+    expect(res.status).to.equal(404);
+    expect(Date.now() - started).to.be.within(450, 5000);
+  });
+});
@@ -0,0 +1,176 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Contract, Signer } from "ethers";
+import {
+  AssetMeta,
+  Transfer,
+  TransferWithPayload,
+  encodeAssetMeta,
+  encodeTransfer,
+  encodeTransferWithPayload,
+  parseAssetMeta,
+  parsePayloadID,
+  parseTransfer,
+  parseTransferCommon,
+  parseTransferWithPayload
+} from "../scripts/lib/TokenBridgePayloads";
+import { randomBytes32, randomUint } from "./helpers/Random";
+import { expectRevert } from "./helpers/Revert";
+
+describe("TokenBridge payload codec", function () {
+  let bridge: Contract;
+  let owner: Signer;
+
+  // Random Transfer, AssetMeta and TransferWithPayload structs per test, each encoded by the
+  // TS codec and ExportedBridge and parsed back by both; DIFFERENTIAL_RUNS=<n> for soak runs
+  const differentialRuns = Number(process.env.DIFFERENTIAL_RUNS ?? 10);
+
+  before(async function () {
+    this.timeout(60000);
+    const signers = await ethers.getSigners();
+    owner = signers[0];
+
+    const ExportedBridgeFactory = await ethers.getContractFactory("contracts/test/ExportedBridge.sol:ExportedBridge", owner);
+    bridge = await ExportedBridgeFactory.deploy();
+    await bridge.deployed();
+  });
+
+  function randomTransfer(): Transfer {
+    return {
+      payloadID: 1,
+      amount: randomUint(32),
+      tokenAddress: randomBytes32(),
+      tokenChain: randomUint(2).toNumber(),
+      to: randomBytes32(),
+      toChain: randomUint(2).toNumber(),
+      fee: randomUint(32)
+    };
+  }
+
+  function randomAssetMeta(): AssetMeta {
+    return {
+      payloadID: 2,
+      tokenAddress: randomBytes32(),
+      tokenChain: randomUint(2).toNumber(),
+      decimals: randomUint(1).toNumber(),
+      symbol: randomBytes32(),
+      name: randomBytes32()
+    };
+  }
+
+  function randomTransferWithPayload(): TransferWithPayload {
+    return {
+      payloadID: 3,
+      amount: randomUint(32),
+      tokenAddress: randomBytes32(),
+      tokenChain: randomUint(2).toNumber(),
+      to: randomBytes32(),
+      toChain: randomUint(2).toNumber(),
+      fromAddress: randomBytes32(),
+      payload: ethers.utils.hexlify(ethers.utils.randomBytes(randomUint(1).toNumber()))
+    };
+  }
+
+  it("should encode and parse transfers like the bridge (payload 1)", async function () {
+    this.timeout(120000);
+
+    for (let i = 0; i < differentialRuns; i++) {
+      const transfer = randomTransfer();
+      const encoded = encodeTransfer(transfer);
+      expect(await bridge.encodeTransfer(transfer)).to.equal(encoded);
+
+      const local = parseTransfer(encoded);
+      const onChain = await bridge.parseTransfer(encoded);
+      expect(local.payloadID).to.equal(onChain.payloadID);
+      expect(local.amount.eq(onChain.amount)).to.equal(true);
+      expect(local.tokenAddress).to.equal(onChain.tokenAddress);
+      expect(local.tokenChain).to.equal(onChain.tokenChain);
+      expect(local.to).to.equal(onChain.to);
+      expect(local.toChain).to.equal(onChain.toChain);
+      expect(local.fee.eq(onChain.fee)).to.equal(true);
+      expect(parsePayloadID(encoded)).to.equal(await bridge.parsePayloadID(encoded));
+
+      await new Promise(resolve => setTimeout(resolve, 50));
+    }
+  });
+
+  it("should encode and parse asset metadata like the bridge (payload 2)", async function () {
+    this.timeout(120000);
+
+    for (let i = 0; i < differentialRuns; i++) {
+      const meta = randomAssetMeta();
+      const encoded = encodeAssetMeta(meta);
+      expect(await bridge.encodeAssetMeta(meta)).to.equal(encoded);
+
+      const local = parseAssetMeta(encoded);
+      const onChain = await bridge.parseAssetMeta(encoded);
+      expect(local.payloadID).to.equal(onChain.payloadID);
+      expect(local.tokenAddress).to.equal(onChain.tokenAddress);
+      expect(local.tokenChain).to.equal(onChain.tokenChain);
+      expect(local.decimals).to.equal(onChain.decimals);
+      expect(local.symbol).to.equal(onChain.symbol);
+      expect(local.name).to.equal(onChain.name);
+      expect(parsePayloadID(encoded)).to.equal(await bridge.parsePayloadID(encoded));
+
+      await new Promise(resolve => setTimeout(resolve, 50));
+    }
+  });
+
+  it("should encode and parse transfers with payload like the bridge (payload 3)", async function () {
+    this.timeout(120000);
+
+    for (let i = 0; i < differentialRuns; i++) {
+      const transfer = randomTransferWithPayload();
+      const encoded = encodeTransferWithPayload(transfer);
+      expect(await bridge.encodeTransferWithPayload(transfer)).to.equal(encoded);
+
+      const local = parseTransferWithPayload(encoded);
+      const onChain = await bridge.parseTransferWithPayload(encoded);
+      expect(local.payloadID).to.equal(onChain.payloadID);
+      expect(local.amount.eq(onChain.amount)).to.equal(true);
+      expect(local.tokenAddress).to.equal(onChain.tokenAddress);
+      expect(local.tokenChain).to.equal(onChain.tokenChain);
+      expect(local.to).to.equal(onChain.to);
+      expect(local.toChain).to.equal(onChain.toChain);
+      expect(local.fromAddress).to.equal(onChain.fromAddress);
+      expect(local.payload).to.equal(onChain.payload);
+      expect(parsePayloadID(encoded)).to.equal(await bridge.parsePayloadID(encoded));
+
+      // _parseTransferCommon drops the payload and zeroes the fee
+      const common = parseTransferCommon(encoded);
+      const onChainCommon = await bridge._parseTransferCommon(encoded);
+      expect(common.payloadID).to.equal(onChainCommon.payloadID);
+      expect(common.amount.eq(onChainCommon.amount)).to.equal(true);
+      expect(common.fee.eq(onChainCommon.fee)).to.equal(true);
+
+      await new Promise(resolve => setTimeout(resolve, 50));
+    }
+  });
+
+  it("should reject the same malformed payloads as the bridge", async function () {
+    const transfer = encodeTransfer(randomTransfer());
+    const meta = encodeAssetMeta(randomAssetMeta());
+    const withPayload = encodeTransferWithPayload(randomTransferWithPayload());
+
+    // Wrong payload id
+    expect(() => parseTransfer(meta)).to.throw("invalid Transfer");
+    await expectRevert(bridge.parseTransfer(meta), "invalid Transfer");
+    expect(() => parseAssetMeta(transfer)).to.throw("invalid AssetMeta");
+    await expectRevert(bridge.parseAssetMeta(transfer), "invalid AssetMeta");
+    expect(() => parseTransferWithPayload(transfer)).to.throw("invalid Transfer");
+    await expectRevert(bridge.parseTransferWithPayload(transfer), "invalid Transfer");
+    expect(() => parseTransferCommon(meta)).to.throw("Invalid payload id");
+    await expectRevert(bridge._parseTransferCommon(meta), "Invalid payload id");
+
+    // Trailing bytes are only allowed on payload 3
+    expect(() => parseTransfer(transfer + "00")).to.throw("invalid Transfer");
+    await expectRevert(bridge.parseTransfer(transfer + "00"), "invalid Transfer");
+    expect(() => parseAssetMeta(meta + "00")).to.throw("invalid AssetMeta");
+    await expectRevert(bridge.parseAssetMeta(meta + "00"), "invalid AssetMeta");
+    expect(parseTransferWithPayload(withPayload + "00").payload.endsWith("00")).to.equal(true);
+
+    // Truncated input
+    expect(() => parseTransfer(transfer.slice(0, -2))).to.throw("toUint256_outOfBounds");
+    await expectRevert(bridge.parseTransfer(transfer.slice(0, -2)), "toUint256_outOfBounds");
+  });
+});
@@ -0,0 +1,227 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ethers } from "hardhat";
+import { BigNumber, Contract, Signer } from "ethers";
+import { VMBody, signAndEncodeVM } from "../scripts/lib/VAA";
+import { TOKEN_BRIDGE_MODULE, encodeRegisterChain } from "../scripts/lib/GovernancePayloads";
+import { encodeAssetMeta, encodeTransfer, encodeTransferWithPayload } from "../scripts/lib/TokenBridgePayloads";
+import { createRelayLog, isSettled } from "../scripts/lib/RelayLog";
+import { createTokenBridgeRelayer } from "../scripts/lib/TokenBridgeRelayer";
+import { deployTokenBridge } from "../scripts/DeployTokenBridge";
+
+describe("Token bridge relayer", function () {
+  let wormhole: Contract;
+  let tokenBridge: Contract;
+  let weth: Contract;
+  let wrapped: Contract;
+  let owner: Signer;
+  let relayerAccount: Signer;
+  let recipient: string;
+  let dir: string;
+  let sequence = 0;
+
+  const governanceContract = "0x0000000000000000000000000000000000000000000000000000000000000004";
+  const testChainId = 2;
+  const testGuardian = "93941733246223705020089879371323733820373732307041878556247502674739205313440";
+  const testGuardianPub = "0xbeFA429d57cD18b7F8A4d91A2da9AB4AF05d0FBe";
+  const foreignChainId = 1;
+  const foreignBridge = "0x000000000000000000000000000000000000000000000000000000000000beef";
+  const foreignToken = "0x000000000000000000000000b7a2211e8165943192ad04f5dd21bedc29ff003e";
+
+  function signVAA(emitterChainId: number, emitterAddress: string, payload: string): string {
+    const body: VMBody = { timestamp: 1, nonce: 0, emitterChainId, emitterAddress, sequence: sequence++, consistencyLevel: 15, payload };
+    return signAndEncodeVM(body, [testGuardian], 0);
+  }
+
+  function transferVAA(fields: { amount: number; fee: number; tokenChain?: number; tokenAddress?: string; to?: string; toChain?: number }): string {
+    return signVAA(foreignChainId, foreignBridge, encodeTransfer({
+      payloadID: 1,
+      amount: BigNumber.from(fields.amount),
+      tokenAddress: fields.tokenAddress ?? foreignToken,
+      tokenChain: fields.tokenChain ?? foreignChainId,
+      to: ethers.utils.hexZeroPad(fields.to ?? recipient, 32),
+      toChain: fields.toChain ?? testChainId,
+      fee: BigNumber.from(fields.fee)
+    }));
+  }
+
+  before(async function () {
+    this.timeout(120000);
+    const signers = await ethers.getSigners();
+    owner = signers[0];
+    relayerAccount = signers[1];
+    recipient = await signers[2].getAddress();
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "relayer-"));
+
+    const SetupFactory = await ethers.getContractFactory("Setup", owner);
+    const setup = await SetupFactory.deploy();
+    await setup.deployed();
+
+    const ImplementationFactory = await ethers.getContractFactory("Implementation", owner);
+    const impl = await ImplementationFactory.deploy();
+    await impl.deployed();
+
+    const WormholeFactory = await ethers.getContractFactory("Wormhole", owner);
+    const proxy = await WormholeFactory.deploy(setup.address, "0x");
+    await proxy.deployed();
+
+    const network = await ethers.provider.getNetwork();
+    const proxiedSetup = await ethers.getContractAt("Setup", proxy.address, owner);
+    await proxiedSetup.setup(impl.address, [testGuardianPub], testChainId, 1, governanceContract, network.chainId);
+    wormhole = await ethers.getContractAt("Implementation", proxy.address, owner);
+
+    const MockWETH9Factory = await ethers.getContractFactory("MockWETH9", owner);
+    weth = await MockWETH9Factory.deploy();
+    await weth.deployed();
+
+    const deployed = await deployTokenBridge({
+      chainId: testChainId,
+      governanceChainId: 1,
+      governanceContract,
+      weth: weth.address,
+      finality: 15,
+      evmChainId: network.chainId,
+      wormhole: wormhole.address
+    }, owner);
+    tokenBridge = await ethers.getContractAt("ITokenBridge", deployed.deployedAddress, owner);
+
+    const registration = encodeRegisterChain(TOKEN_BRIDGE_MODULE, { chainId: 0, emitterChainID: foreignChainId, emitterAddress: foreignBridge });
+    await (await tokenBridge.registerChain(signVAA(1, governanceContract, registration))).wait();
+
+    const meta = encodeAssetMeta({
+      payloadID: 2,
+      tokenAddress: foreignToken,
+      tokenChain: foreignChainId,
+      decimals: 8,
+      symbol: ethers.utils.formatBytes32String("FOR"),
+      name: ethers.utils.formatBytes32String("Foreign Token")
+    });
+    await (await tokenBridge.createWrapped(signVAA(foreignChainId, foreignBridge, meta))).wait();
+    wrapped = await ethers.getContractAt("TokenImplementation", await tokenBridge.wrappedAsset(foreignChainId, foreignToken));
+  });
+
+  after(function () {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should redeem transfers and collect the arbiter fee", async function () {
+    this.timeout(60000);
+    const relayer = await createTokenBridgeRelayer({ tokenBridge: tokenBridge.address, signer: relayerAccount });
+    const vaa = transferVAA({ amount: 1000, fee: 10 });
+
+    const record = await relayer.relay(vaa);
+    expect(record).to.include({ status: "relayed", method: "completeTransfer", recipient, fee: "10", attempts: 1 });
+    expect(await wrapped.balanceOf(recipient)).to.equal(990);
+    expect(await wrapped.balanceOf(relayer.account)).to.equal(10);
+    expect(await tokenBridge.isTransferCompleted(record.hash)).to.equal(true);
+  });
+
+  it("should remember what it relayed across restarts and skip redeemed transfers", async function () {
+    this.timeout(60000);
+    const logFile = path.join(dir, "relayed.jsonl");
+    const vaa = transferVAA({ amount: 500, fee: 0 });
+
+    const first = await createTokenBridgeRelayer({ tokenBridge: tokenBridge.address, signer: relayerAccount, log: createRelayLog(logFile) });
+    const relayed = await first.relay(vaa);
+    expect(relayed.status).to.equal("relayed");
+
+    // The persisted record answers without touching the chain
+    const reported: string[] = [];
+    const restarted = await createTokenBridgeRelayer({
+      tokenBridge: tokenBridge.address,
+      signer: relayerAccount,
+      log: createRelayLog(logFile),
+      onRelayed: record => reported.push(record.id)
+    });
+    expect(await restarted.relay(vaa)).to.deep.equal(relayed);
+    expect(reported).to.deep.equal([]);
+
+    // Without the record, isTransferCompleted says there is nothing to do
+    const forgetful = await createTokenBridgeRelayer({ tokenBridge: tokenBridge.address, signer: relayerAccount });
+    expect(await forgetful.relay(vaa)).to.include({ status: "skipped", reason: "transfer already completed" });
+  });
+
+  it("should unwrap WETH for recipients without code", async function () {
+    this.timeout(60000);
+    // Lock 1 ETH in the bridge as if it had been sent to the foreign chain
+    await (await tokenBridge.wrapAndTransferETH(foreignChainId, foreignBridge, 0, 0, { value: ethers.utils.parseEther("1") })).wait();
+
+    const relayer = await createTokenBridgeRelayer({ tokenBridge: tokenBridge.address, signer: relayerAccount });
+    const before = await ethers.provider.getBalance(recipient);
+    // 8 decimal amounts: 0.5 ETH with a 0.01 ETH fee
+    const record = await relayer.relay(transferVAA({
+      amount: 50000000,
+      fee: 1000000,
+      tokenChain: testChainId,
+      tokenAddress: ethers.utils.hexZeroPad(weth.address, 32)
+    }));
+
+    expect(record).to.include({ status: "relayed", method: "completeTransferAndUnwrapETH" });
+    expect((await ethers.provider.getBalance(recipient)).sub(before)).to.equal(ethers.utils.parseEther("0.49"));
+
+    // Contracts get WETH instead
+    const toContract = await relayer.relay(transferVAA({
+      amount: 10000000,
+      fee: 0,
+      tokenChain: testChainId,
+      tokenAddress: ethers.utils.hexZeroPad(weth.address, 32),
+      to: wormhole.address
+    }));
+    expect(toContract).to.include({ status: "relayed", method: "completeTransfer" });
+    expect(await weth.balanceOf(wormhole.address)).to.equal(ethers.utils.parseEther("0.1"));
+  });
+
+  it("should skip VAAs that are not plain transfers to this chain from a registered bridge", async function () {
+    this.timeout(60000);
+    const relayer = await createTokenBridgeRelayer({ tokenBridge: tokenBridge.address, signer: relayerAccount });
+
+    const withPayload = signVAA(foreignChainId, foreignBridge, encodeTransferWithPayload({
+      payloadID: 3,
+      amount: BigNumber.from(1),
+      tokenAddress: foreignToken,
+      tokenChain: foreignChainId,
+      to: ethers.utils.hexZeroPad(recipient, 32),
+      toChain: testChainId,
+      fromAddress: foreignBridge,
+      payload: "0x01"
+    }));
+    expect(await relayer.relay(withPayload)).to.include({ status: "skipped", reason: "payload 3 is not a transfer" });
+    expect(await relayer.relay(transferVAA({ amount: 1, fee: 0, toChain: 4 }))).to.include({ status: "skipped", reason: "transfer is for chain 4" });
+
+    const unregistered = signVAA(foreignChainId, governanceContract, encodeTransfer({
+      payloadID: 1,
+      amount: BigNumber.from(1),
+      tokenAddress: foreignToken,
+      tokenChain: foreignChainId,
+      to: ethers.utils.hexZeroPad(recipient, 32),
+      toChain: testChainId,
+      fee: BigNumber.from(0)
+    }));
+    // Deferred rather than skipped: once the chain is registered a replayed VAA is relayed
+    const deferred = await relayer.relay(unregistered);
+    expect(deferred).to.include({ status: "deferred", reason: "emitter is not the token bridge registered for chain 1" });
+    expect(isSettled(deferred)).to.equal(false);
+  });
+
+  it("should record reverting transfers as failed without sending or retrying them", async function () {
+    this.timeout(60000);
+    const relayer = await createTokenBridgeRelayer({
+      tokenBridge: tokenBridge.address,
+      signer: relayerAccount,
+      retry: { attempts: 3, initialDelay: 10 }
+    });
+    const nonce = await relayerAccount.getTransactionCount();
+
+    // No wrapper exists for this token, which every retry would run into again
+    const vaa = transferVAA({ amount: 1, fee: 0, tokenAddress: ethers.utils.hexZeroPad("0x1234", 32) });
+    const record = await relayer.relay(vaa);
+    expect(record).to.include({ status: "failed", attempts: 1 });
+    expect(record.reason).to.include("no wrapper for this token created yet");
+    expect(await relayerAccount.getTransactionCount()).to.equal(nonce);
+
+    // Failed VAAs are tried again when they come back
+    expect((await relayer.relay(vaa)).attempts).to.equal(2);
+  });
+});
@@ -0,0 +1,76 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Contract, Signer } from "ethers";
+import { TwoChainEnvironment, deployTwoChainEnvironment } from "../scripts/TwoChainEnvironment";
+
+describe("Two chain environment", function () {
+  let env: TwoChainEnvironment;
+  let token: Contract;
+  let owner: Signer;
+  let alice: string;
+  let bob: string;
+
+  before(async function () {
+    this.timeout(300000);
+    const signers = await ethers.getSigners();
+    owner = signers[0];
+    alice = await owner.getAddress();
+    bob = await signers[1].getAddress();
+
+    env = await deployTwoChainEnvironment({}, owner);
+
+    const ERC20 = await ethers.getContractFactory("ERC20PresetMinterPauser", owner);
+    token = await ERC20.deploy("Chain A Token", "CAT");
+    await token.deployed();
+    await (await token.mint(alice, ethers.utils.parseEther("10"))).wait();
+  });
+
+  it("should deploy two stacks with their own chain IDs and one guardian set", async function () {
+    expect(await env.chainA.wormhole.chainId()).to.equal(2);
+    expect(await env.chainB.wormhole.chainId()).to.equal(4);
+    expect(await env.chainA.tokenBridge.wormhole()).to.equal(env.chainA.wormhole.address);
+    expect(await env.chainB.nftBridge.wormhole()).to.equal(env.chainB.wormhole.address);
+
+    const setA = await env.chainA.wormhole.getGuardianSet(0);
+    const setB = await env.chainB.wormhole.getGuardianSet(0);
+    expect(setA.keys).to.deep.equal(setB.keys);
+  });
+
+  it("should register each bridge with its counterpart", async function () {
+    const pad = (address: string) => ethers.utils.hexZeroPad(address, 32).toLowerCase();
+    expect((await env.chainA.tokenBridge.bridgeContracts(4)).toLowerCase()).to.equal(pad(env.chainB.tokenBridge.address));
+    expect((await env.chainB.tokenBridge.bridgeContracts(2)).toLowerCase()).to.equal(pad(env.chainA.tokenBridge.address));
+    expect((await env.chainA.nftBridge.bridgeContracts(4)).toLowerCase()).to.equal(pad(env.chainB.nftBridge.address));
+    expect((await env.chainB.nftBridge.bridgeContracts(2)).toLowerCase()).to.equal(pad(env.chainA.nftBridge.address));
+  });
+
+  it("should carry tokens from chain A to chain B and back", async function () {
+    this.timeout(120000);
+    const { chainA, chainB } = env;
+    const amount = ethers.utils.parseEther("2");
+
+    const attestation = await (await chainA.tokenBridge.attestToken(token.address, 0)).wait();
+    const [meta] = await env.observe(chainA, attestation);
+    await (await chainB.tokenBridge.createWrapped(meta)).wait();
+    const wrapped = await ethers.getContractAt("TokenImplementation", await chainB.tokenBridge.wrappedAsset(2, ethers.utils.hexZeroPad(token.address, 32)));
+
+    await (await token.approve(chainA.tokenBridge.address, amount)).wait();
+    const outbound = await (await chainA.tokenBridge.transferTokens(token.address, amount, 4, ethers.utils.hexZeroPad(bob, 32), 0, 0)).wait();
+    const [toB] = await env.observe(chainA, outbound);
+    await (await chainB.tokenBridge.completeTransfer(toB)).wait();
+
+    // Wrapped tokens carry at most 8 decimals
+    expect(await wrapped.balanceOf(bob)).to.equal(200000000);
+    expect(await token.balanceOf(chainA.tokenBridge.address)).to.equal(amount);
+
+    const bobSigner = await ethers.getSigner(bob);
+    await (await wrapped.connect(bobSigner).approve(chainB.tokenBridge.address, 200000000)).wait();
+    const inbound = await (await chainB.tokenBridge.connect(bobSigner).transferTokens(wrapped.address, 200000000, 2, ethers.utils.hexZeroPad(alice, 32), 0, 0)).wait();
+    const [toA] = await env.observe(chainB, inbound);
+    await (await chainA.tokenBridge.completeTransfer(toA)).wait();
+
+    expect(await wrapped.balanceOf(bob)).to.equal(0);
+    expect(await token.balanceOf(chainA.tokenBridge.address)).to.equal(0);
+    expect(await token.balanceOf(alice)).to.equal(ethers.utils.parseEther("10"));
+  });
+});
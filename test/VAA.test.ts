@@ -0,0 +1,139 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Contract, Signer } from "ethers";
+import { VMBody, encodeVM, encodeVMBody, hashVMBody, parseVM, signAndEncodeVM } from "../scripts/lib/VAA";
+
+describe("VAA codec", function () {
+  let messages: Contract;
+  let owner: Signer;
+
+  const testGuardian = "93941733246223705020089879371323733820373732307041878556247502674739205313440";
+  const testGuardianPub = "0xbeFA429d57cD18b7F8A4d91A2da9AB4AF05d0FBe";
+  // Same VM as the validVM constant in Messages.test.ts (Foundry testHashMismatchedVMIsNotVerified)
+  const validVM = "0x01000000000100867b55fec41778414f0683e80a430b766b78801b7070f9198ded5e62f48ac7a44b379a6cf9920e42dbd06c5ebf5ec07a934a00a572aefc201e9f91c33ba766d900000003e800000001000b0000000000000000000000000000000000000000000000000000000000000eee00000000000005390faaaa";
+
+  before(async function () {
+    this.timeout(60000);
+    const signers = await ethers.getSigners();
+    owner = signers[0];
+
+    const ExportedMessagesFactory = await ethers.getContractFactory("ExportedMessages", owner);
+    messages = await ExportedMessagesFactory.deploy();
+    await messages.deployed();
+
+    await messages.storeGuardianSetPub({ keys: [testGuardianPub], expirationTime: 0 }, 0);
+  });
+
+  // Compares the TS decode of `encoded` with Messages.parseVM field by field
+  async function expectMatchesOnChain(encoded: string) {
+    const local = parseVM(encoded);
+    const onChain = await messages.parseVM(encoded);
+
+    expect(local.version).to.equal(onChain.version);
+    expect(local.timestamp).to.equal(onChain.timestamp);
+    expect(local.nonce).to.equal(onChain.nonce);
+    expect(local.emitterChainId).to.equal(onChain.emitterChainId);
+    expect(local.emitterAddress).to.equal(onChain.emitterAddress);
+    expect(local.sequence.eq(onChain.sequence)).to.equal(true);
+    expect(local.consistencyLevel).to.equal(onChain.consistencyLevel);
+    expect(local.payload).to.equal(onChain.payload);
+    expect(local.guardianSetIndex).to.equal(onChain.guardianSetIndex);
+    expect(local.hash).to.equal(onChain.hash);
+    expect(local.signatures.length).to.equal(onChain.signatures.length);
+    for (let i = 0; i < local.signatures.length; i++) {
+      expect(local.signatures[i].guardianIndex).to.equal(onChain.signatures[i].guardianIndex);
+      expect(local.signatures[i].r).to.equal(onChain.signatures[i].r);
+      expect(local.signatures[i].s).to.equal(onChain.signatures[i].s);
+      expect(local.signatures[i].v).to.equal(onChain.signatures[i].v);
+    }
+
+    // Re-encoding the decoded struct must reproduce the input byte for byte
+    expect(encodeVM(local)).to.equal(encoded);
+  }
+
+  it("should decode the Foundry validVM exactly like Messages.parseVM", async function () {
+    await expectMatchesOnChain(validVM);
+
+    const [, valid, reason] = await messages.parseAndVerifyVM(validVM);
+    expect(valid).to.equal(true);
+    expect(reason).to.equal("");
+  });
+
+  it("should produce VMs that Messages.parseAndVerifyVM accepts", async function () {
+    const body: VMBody = {
+      timestamp: 1000,
+      nonce: 1001,
+      emitterChainId: 11,
+      emitterAddress: "0x0000000000000000000000000000000000000000000000000000000000000eee",
+      sequence: 1337,
+      consistencyLevel: 15,
+      payload: "0xaaaa"
+    };
+
+    const encoded = signAndEncodeVM(body, [testGuardian], 0);
+    await expectMatchesOnChain(encoded);
+
+    const [parsed, valid, reason] = await messages.parseAndVerifyVM(encoded);
+    expect(valid).to.equal(true);
+    expect(reason).to.equal("");
+    expect(parsed.hash).to.equal(hashVMBody(body));
+  });
+
+  it("should round-trip random VMs through Messages.parseVM (fuzzing)", async function () {
+    this.timeout(120000);
+
+    for (let i = 0; i < 5; i++) {
+      const signerCount = i % 4;
+      const keys = Array.from({ length: signerCount }, () => ethers.Wallet.createRandom().privateKey);
+      const body: VMBody = {
+        timestamp: ethers.BigNumber.from(ethers.utils.randomBytes(4)).toNumber(),
+        nonce: ethers.BigNumber.from(ethers.utils.randomBytes(4)).toNumber(),
+        emitterChainId: ethers.BigNumber.from(ethers.utils.randomBytes(2)).toNumber(),
+        emitterAddress: ethers.utils.hexlify(ethers.utils.randomBytes(32)),
+        sequence: ethers.BigNumber.from(ethers.utils.randomBytes(8)),
+        consistencyLevel: ethers.utils.randomBytes(1)[0],
+        payload: ethers.utils.hexlify(ethers.utils.randomBytes(i * 17))
+      };
+
+      await expectMatchesOnChain(signAndEncodeVM(body, keys, i));
+
+      await new Promise(resolve => setTimeout(resolve, 50));
+    }
+  });
+
+  it("should reject unsupported VM versions like Messages.parseVM", async function () {
+    const encoded = signAndEncodeVM({
+      timestamp: 1,
+      nonce: 1,
+      emitterChainId: 1,
+      emitterAddress: ethers.constants.HashZero,
+      sequence: 0,
+      consistencyLevel: 0,
+      payload: "0x"
+    }, [testGuardian], 0);
+    const wrongVersion = "0x02" + encoded.slice(4);
+
+    expect(() => parseVM(wrongVersion)).to.throw("VM version incompatible");
+    try {
+      await messages.parseVM(wrongVersion);
+      throw new Error("Expected parseVM to revert");
+    } catch (error: any) {
+      expect(error.message).to.include("VM version incompatible");
+    }
+  });
+
+  it("should encode the body with the layout hashed by verifyVM", async function () {
+    const body: VMBody = {
+      timestamp: 1000,
+      nonce: 1,
+      emitterChainId: 11,
+      emitterAddress: "0x0000000000000000000000000000000000000000000000000000000000000eee",
+      sequence: 1337,
+      consistencyLevel: 15,
+      payload: "0xaaaa"
+    };
+
+    expect(encodeVMBody(body)).to.equal("0x" + validVM.slice(2 + 2 * (6 + 66)));
+    expect(hashVMBody(body)).to.equal(parseVM(validVM).hash);
+  });
+});
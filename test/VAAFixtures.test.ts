@@ -0,0 +1,75 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Contract, Signer } from "ethers";
+import { parseVM } from "../scripts/lib/VAA";
+import { detectPayload } from "../scripts/lib/VAAInspector";
+import { FixturePayload, generateVAA, loadVAAFixtures, vaaFixture } from "../scripts/lib/VAAFixtures";
+
+describe("VAA fixtures", function () {
+  let messages: Contract;
+  let owner: Signer;
+
+  const testGuardianPub = "0xbeFA429d57cD18b7F8A4d91A2da9AB4AF05d0FBe";
+  const fixtures = loadVAAFixtures();
+
+  before(async function () {
+    this.timeout(60000);
+    const signers = await ethers.getSigners();
+    owner = signers[0];
+
+    const ExportedMessagesFactory = await ethers.getContractFactory("ExportedMessages", owner);
+    messages = await ExportedMessagesFactory.deploy();
+    await messages.deployed();
+
+    await messages.storeGuardianSetPub({ keys: [testGuardianPub], expirationTime: 0 }, 0);
+  });
+
+  it("should generate the Foundry validVM byte for byte", function () {
+    expect(vaaFixture("foundry-valid-vm")).to.equal(
+      "0x01000000000100867b55fec41778414f0683e80a430b766b78801b7070f9198ded5e62f48ac7a44b379a6cf9920e42dbd06c5ebf5ec07a934a00a572aefc201e9f91c33ba766d900000003e800000001000b0000000000000000000000000000000000000000000000000000000000000eee00000000000005390faaaa"
+    );
+  });
+
+  it("should encode each payload as the type the inspector detects", function () {
+    for (const fixture of fixtures.values()) {
+      if (fixture.payload.type === "Raw") continue;
+      const vm = parseVM(generateVAA(fixture, fixture.keys));
+      const detected = detectPayload(vm.payload);
+      expect(detected.type, fixture.name).to.equal(fixture.payload.type);
+      expect(detected.error, fixture.name).to.equal(undefined);
+    }
+  });
+
+  it("should reject unknown fixture names and key aliases", function () {
+    expect(() => vaaFixture("does-not-exist")).to.throw("unknown VAA fixture does-not-exist");
+
+    const fixture = fixtures.get("foundry-valid-vm")!;
+    expect(() => generateVAA({ ...fixture, signatures: ["nobody"] })).to.throw("unknown guardian key alias nobody");
+    // As a fixture file could have it
+    const unknown = { type: "Nope" } as unknown as FixturePayload;
+    expect(() => generateVAA({ ...fixture, payload: unknown })).to.throw("unknown payload type Nope");
+  });
+
+  for (const fixture of fixtures.values()) {
+    if (!fixture.expect) continue;
+    const expected = fixture.expect;
+
+    it(`should verify fixture ${fixture.name} as described`, async function () {
+      const encoded = vaaFixture(fixture.name);
+
+      if (expected.revert) {
+        try {
+          await messages.parseAndVerifyVM(encoded);
+          throw new Error("Expected parseAndVerifyVM to revert");
+        } catch (error: any) {
+          expect(error.message).to.include(expected.revert);
+        }
+        return;
+      }
+
+      const [, valid, reason] = await messages.parseAndVerifyVM(encoded);
+      expect(valid).to.equal(expected.valid);
+      expect(reason).to.equal(expected.reason ?? "");
+    });
+  }
+});
@@ -0,0 +1,122 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Contract, Signer } from "ethers";
+import { VMBody, signAndEncodeVM } from "../scripts/lib/VAA";
+import { encodeAssetMeta, encodeTransfer, encodeTransferWithPayload } from "../scripts/lib/TokenBridgePayloads";
+import { encodeTransfer as encodeNFTTransfer } from "../scripts/lib/NFTBridgePayloads";
+import {
+  NFT_BRIDGE_MODULE,
+  TOKEN_BRIDGE_MODULE,
+  encodeGuardianSetUpgrade,
+  encodeRegisterChain,
+  encodeUpgradeContract
+} from "../scripts/lib/GovernancePayloads";
+import { decodeVAAInput, detectPayload } from "../scripts/lib/VAAInspector";
+import { inspect } from "../scripts/InspectVAA";
+
+describe("VAA inspector", function () {
+  let messages: Contract;
+  let owner: Signer;
+
+  const testGuardian = "93941733246223705020089879371323733820373732307041878556247502674739205313440";
+  const testGuardianPub = "0xbeFA429d57cD18b7F8A4d91A2da9AB4AF05d0FBe";
+  const otherGuardian = "0x" + "42".repeat(32);
+
+  const body: VMBody = {
+    timestamp: 1000,
+    nonce: 1001,
+    emitterChainId: 1,
+    emitterAddress: "0x0000000000000000000000000000000000000000000000000000000000000004",
+    sequence: 7,
+    consistencyLevel: 15,
+    payload: encodeRegisterChain(TOKEN_BRIDGE_MODULE, {
+      chainId: 0,
+      emitterChainID: 4,
+      emitterAddress: "0x000000000000000000000000000000000000000000000000000000000000ffff"
+    })
+  };
+
+  before(async function () {
+    this.timeout(60000);
+    const signers = await ethers.getSigners();
+    owner = signers[0];
+
+    const ExportedMessagesFactory = await ethers.getContractFactory("ExportedMessages", owner);
+    messages = await ExportedMessagesFactory.deploy();
+    await messages.deployed();
+
+    await messages.storeGuardianSetPub({ keys: [testGuardianPub], expirationTime: 0 }, 0);
+  });
+
+  it("should decode hex and base64 input to the same bytes", async function () {
+    const encoded = signAndEncodeVM(body, [testGuardian], 0);
+    const base64 = ethers.utils.base64.encode(encoded);
+
+    expect(ethers.utils.hexlify(decodeVAAInput(encoded))).to.equal(encoded);
+    expect(ethers.utils.hexlify(decodeVAAInput(encoded.slice(2)))).to.equal(encoded);
+    expect(ethers.utils.hexlify(decodeVAAInput(base64))).to.equal(encoded);
+    expect(() => decodeVAAInput("not a vaa!")).to.throw("VAA must be hex or base64");
+  });
+
+  it("should annotate signatures against the on-chain guardian set", async function () {
+    // Second signature is from a key that is not in the guardian set
+    const encoded = signAndEncodeVM(body, [testGuardian, otherGuardian], 0, [0, 0]);
+    const result = await inspect({ vaa: ethers.utils.base64.encode(encoded), wormhole: messages.address });
+
+    const [, , reason] = await messages.parseAndVerifyVM(encoded);
+    expect(reason).to.not.equal("");
+
+    expect(result.guardianSet).to.deep.equal([testGuardianPub]);
+    expect(result.digest).to.equal((await messages.parseVM(encoded)).hash);
+    expect(result.sequence).to.equal("7");
+    expect(result.signatures[0].recoveredAddress).to.equal(testGuardianPub);
+    expect(result.signatures[0].matchesGuardianSet).to.equal(true);
+    expect(result.signatures[1].recoveredAddress).to.equal(new ethers.Wallet(otherGuardian).address);
+    expect(result.signatures[1].expectedAddress).to.equal(testGuardianPub);
+    expect(result.signatures[1].matchesGuardianSet).to.equal(false);
+
+    expect(result.payload.type).to.equal("TokenBridgeGovernance.RegisterChain");
+    expect(result.payload.decoded).to.include({ emitterChainID: 4 });
+
+    // Without a node the signatures are still recovered but not compared
+    const offline = await inspect({ vaa: encoded });
+    expect(offline.guardianSet).to.equal(null);
+    expect(offline.signatures[0].recoveredAddress).to.equal(testGuardianPub);
+    expect(offline.signatures[0].matchesGuardianSet).to.equal(null);
+  });
+
+  it("should detect every payload type", async function () {
+    const bytes32 = (n: number) => ethers.utils.hexZeroPad(ethers.utils.hexlify(n), 32);
+
+    const cases: [string, string][] = [
+      ["TokenBridge.Transfer", encodeTransfer({
+        payloadID: 1, amount: ethers.BigNumber.from(1), tokenAddress: bytes32(1), tokenChain: 2, to: bytes32(3), toChain: 4, fee: ethers.BigNumber.from(0)
+      })],
+      ["TokenBridge.AssetMeta", encodeAssetMeta({
+        payloadID: 2, tokenAddress: bytes32(1), tokenChain: 2, decimals: 18, symbol: ethers.utils.formatBytes32String("TST"), name: ethers.utils.formatBytes32String("Test")
+      })],
+      ["TokenBridge.TransferWithPayload", encodeTransferWithPayload({
+        payloadID: 3, amount: ethers.BigNumber.from(1), tokenAddress: bytes32(1), tokenChain: 2, to: bytes32(3), toChain: 4, fromAddress: bytes32(5), payload: "0xabcd"
+      })],
+      ["NFTBridge.Transfer", encodeNFTTransfer({
+        tokenAddress: bytes32(1), tokenChain: 2, symbol: bytes32(0), name: bytes32(0), tokenID: ethers.BigNumber.from(9), uri: "ipfs://x", to: bytes32(3), toChain: 4
+      })],
+      ["CoreGovernance.GuardianSetUpgrade", encodeGuardianSetUpgrade({ chain: 0, newGuardianSetIndex: 1, keys: [testGuardianPub] })],
+      ["NFTBridgeGovernance.UpgradeContract", encodeUpgradeContract(NFT_BRIDGE_MODULE, { chainId: 2, newContract: testGuardianPub })],
+      ["Raw", "0xdeadbeef"]
+    ];
+
+    for (const [type, payload] of cases) {
+      const detected = detectPayload(payload);
+      expect(detected.type).to.equal(type);
+      expect(detected.error).to.equal(undefined);
+    }
+
+    expect(detectPayload(cases[1][1]).decoded).to.include({ symbolString: "TST" });
+
+    // Recognised but malformed payloads keep their type and report why they failed to decode
+    const malformed = detectPayload(encodeUpgradeContract(TOKEN_BRIDGE_MODULE, { chainId: 2, newContract: testGuardianPub }) + "00");
+    expect(malformed.type).to.equal("TokenBridgeGovernance.UpgradeContract");
+    expect(malformed.error).to.equal("wrong length");
+  });
+});
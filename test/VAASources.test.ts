@@ -0,0 +1,68 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ethers } from "ethers";
+import { NFT_BRIDGE_MODULE, TOKEN_BRIDGE_MODULE } from "../scripts/lib/GovernancePayloads";
+import { vaaFixture } from "../scripts/lib/VAAFixtures";
+import { checkRegisterChainVAA, readVAASources, vaaSourcesFromEnv } from "../scripts/lib/VAASources";
+
+describe("VAA sources", function () {
+  let dir: string;
+
+  const registerChain = vaaFixture("token-bridge-register-chain");
+  const transfer = vaaFixture("token-bridge-transfer");
+
+  before(function () {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "vaas-"));
+    fs.mkdirSync(path.join(dir, "batch"));
+    // Base64 with a trailing newline, as guardian tooling writes it
+    fs.writeFileSync(path.join(dir, "batch", "01-register.b64"), ethers.utils.base64.encode(registerChain) + "\n");
+    // Two hex VAAs in one file, the second without 0x
+    fs.writeFileSync(path.join(dir, "batch", "02-more.hex"), `${registerChain}\n${transfer.slice(2)}\n`);
+    fs.writeFileSync(path.join(dir, "batch", ".hidden"), "not a vaa");
+  });
+
+  after(function () {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should read literal hex and base64 VAAs", function () {
+    expect(readVAASources([registerChain, ethers.utils.base64.encode(transfer)])).to.deep.equal([registerChain, transfer]);
+  });
+
+  it("should read files and directories in name order, skipping hidden files", function () {
+    expect(readVAASources([path.join(dir, "batch")])).to.deep.equal([registerChain, registerChain, transfer]);
+    expect(readVAASources([path.join(dir, "batch", "02-more.hex"), registerChain])).to.deep.equal([registerChain, transfer, registerChain]);
+  });
+
+  it("should name the source of undecodable input", function () {
+    const bad = path.join(dir, "bad.txt");
+    fs.writeFileSync(bad, "not*a*vaa");
+    expect(() => readVAASources([bad])).to.throw(`${bad}: VAA must be hex or base64`);
+  });
+
+  it("should report missing files instead of decoding their paths", function () {
+    for (const missing of [path.join(dir, "missing"), "./vaas", "register.json", "vaas/batch-1"]) {
+      expect(() => readVAASources([missing])).to.throw(`${missing}: no such file or directory`);
+    }
+  });
+
+  it("should split env var sources on commas and whitespace", function () {
+    process.env.TEST_REGISTRATION_VAAS = `${path.join(dir, "batch")}, ${registerChain}\n`;
+    try {
+      expect(vaaSourcesFromEnv("TEST_REGISTRATION_VAAS")).to.deep.equal([path.join(dir, "batch"), registerChain]);
+      expect(vaaSourcesFromEnv("TEST_REGISTRATION_VAAS_UNSET")).to.deep.equal([]);
+    } finally {
+      delete process.env.TEST_REGISTRATION_VAAS;
+    }
+  });
+
+  it("should only accept RegisterChain VAAs for the requested module", function () {
+    const registration = checkRegisterChainVAA(registerChain, TOKEN_BRIDGE_MODULE);
+    expect(registration.emitterChainID).to.equal(4);
+
+    expect(() => checkRegisterChainVAA(registerChain, NFT_BRIDGE_MODULE)).to.throw("invalid RegisterChain: wrong module");
+    expect(() => checkRegisterChainVAA(transfer, TOKEN_BRIDGE_MODULE)).to.throw("not a RegisterChain VAA");
+  });
+});
@@ -0,0 +1,122 @@
+import { expect } from "chai";
+import * as http from "http";
+import { AddressInfo } from "net";
+import { ethers } from "ethers";
+import { VMBody, signAndEncodeVM } from "../scripts/lib/VAA";
+import { DEFAULT_GUARDIAN_KEYS } from "../scripts/lib/VAAFixtures";
+import { SignedVAA, VAAStore, createVAAStore } from "../scripts/lib/VAAStore";
+import { createSignedVAAServer } from "../scripts/lib/SignedVAAServer";
+import { EmitterFilter, parseEmitterFilter, subscribeSignedVAAs } from "../scripts/lib/VAAStream";
+
+describe("VAA stream", function () {
+  let store: VAAStore;
+  let server: http.Server;
+  let baseURL: string;
+
+  const emitterA = ethers.utils.hexZeroPad("0xaaaa", 32);
+  const emitterB = ethers.utils.hexZeroPad("0xbbbb", 32);
+
+  function signedVAA(emitterChainId: number, emitterAddress: string, sequence: number): SignedVAA {
+    const body: VMBody = {
+      timestamp: 1000,
+      nonce: 0,
+      emitterChainId,
+      emitterAddress,
+      sequence,
+      consistencyLevel: 1,
+      payload: "0x01"
+    };
+    return {
+      emitterChain: emitterChainId,
+      emitterAddress,
+      sequence: sequence.toString(),
+      transactionHash: ethers.utils.hexZeroPad(ethers.utils.hexlify(sequence), 32),
+      blockNumber: sequence,
+      vaa: signAndEncodeVM(body, [DEFAULT_GUARDIAN_KEYS.test], 0)
+    };
+  }
+
+  // Collects streamed VAAs until `count` arrived
+  async function collect(filters: EmitterFilter[], count: number, during: () => void = () => {}): Promise<string[]> {
+    const received: string[] = [];
+    let arrived: () => void;
+    const done = new Promise<void>(resolve => (arrived = resolve));
+
+    const close = await subscribeSignedVAAs(baseURL, filters, vaa => {
+      received.push(vaa);
+      if (received.length === count) arrived();
+    });
+    during();
+    await done;
+    close();
+    return received;
+  }
+
+  before(async function () {
+    store = createVAAStore();
+    for (let sequence = 0; sequence < 3; sequence++) {
+      store.put(signedVAA(2, emitterA, sequence));
+      store.put(signedVAA(2, emitterB, sequence));
+    }
+    server = createSignedVAAServer(store);
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async function () {
+    server.closeAllConnections();
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  it("should parse filters with and without a replay sequence", function () {
+    expect(parseEmitterFilter("2/aaaa")).to.deep.equal({ chainId: 2, emitterAddress: emitterA, fromSequence: undefined });
+    expect(parseEmitterFilter(`4/${emitterB}/7`).fromSequence!.toNumber()).to.equal(7);
+    expect(() => parseEmitterFilter("2")).to.throw("invalid filter 2");
+  });
+
+  it("should replay stored VAAs from the requested sequence, then stream new ones", async function () {
+    const live = signedVAA(2, emitterA, 3);
+    const received = await collect([parseEmitterFilter("2/aaaa/1")], 3, () => {
+      // Not matching the filter, so never streamed
+      store.put(signedVAA(2, emitterB, 3));
+      store.put(live);
+    });
+
+    expect(received).to.deep.equal([
+      store.get(2, emitterA, 1)!.vaa,
+      store.get(2, emitterA, 2)!.vaa,
+      live.vaa
+    ]);
+  });
+
+  it("should stream every new VAA without filters", async function () {
+    const next = [signedVAA(4, emitterA, 0), signedVAA(2, emitterB, 4)];
+    const received = await collect([], 2, () => next.forEach(v => store.put(v)));
+    expect(received).to.deep.equal(next.map(v => v.vaa));
+  });
+
+  it("should report when the server ends the stream, but not after closing it", async function () {
+    const other = createSignedVAAServer(createVAAStore());
+    await new Promise<void>(resolve => other.listen(0, "127.0.0.1", resolve));
+    const otherURL = `http://127.0.0.1:${(other.address() as AddressInfo).port}`;
+
+    const ends: (Error | undefined)[] = [];
+    const close = await subscribeSignedVAAs(baseURL, [], () => {}, { onEnd: error => ends.push(error) });
+    let ended: () => void;
+    const lost = new Promise<void>(resolve => (ended = resolve));
+    await subscribeSignedVAAs(otherURL, [], () => {}, { onEnd: error => { ends.push(error); ended(); } });
+
+    close();
+    other.closeAllConnections();
+    await new Promise<void>(resolve => other.close(() => resolve()));
+    await lost;
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(ends).to.have.length(1);
+  });
+
+  it("should reject malformed filters", async function () {
+    const res = await new Promise<http.IncomingMessage>(resolve => http.get(`${baseURL}/v1/subscribe_signed_vaa?filter=nope`, resolve));
+    res.resume();
+    expect(res.statusCode).to.equal(400);
+  });
+});
@@ -0,0 +1,60 @@
+import { expect } from "chai";
+import { ethers, run } from "hardhat";
+import { signAndEncodeVM } from "../scripts/lib/VAA";
+import { DEFAULT_GUARDIAN_KEYS } from "../scripts/lib/VAAFixtures";
+
+describe("Wormhole tasks", function () {
+  const guardian = "0xbeFA429d57cD18b7F8A4d91A2da9AB4AF05d0FBe";
+  const governanceContract = "0x0000000000000000000000000000000000000000000000000000000000000004";
+  let core: string;
+
+  const signGovernance = (payload: string) => signAndEncodeVM({
+    timestamp: 0,
+    nonce: 0,
+    emitterChainId: 1,
+    emitterAddress: governanceContract,
+    sequence: 0,
+    consistencyLevel: 32,
+    payload
+  }, [DEFAULT_GUARDIAN_KEYS.test], 0);
+
+  before(async function () {
+    this.timeout(300000);
+    const result = await run("wormhole:deploy-core", { initialSigners: guardian, chainId: "2" });
+    core = result.deployedAddress;
+  });
+
+  it("should deploy core with the given guardian set", async function () {
+    const wormhole = await ethers.getContractAt("IWormhole", core);
+    expect(await wormhole.chainId()).to.equal(2);
+    expect((await wormhole.getGuardianSet(0)).keys).to.deep.equal([guardian]);
+  });
+
+  it("should upgrade core to an implementation deployed by wormhole:deploy-implementation", async function () {
+    this.timeout(300000);
+    const implementation = await run("wormhole:deploy-implementation", { module: "core", chainId: "2" });
+    expect(implementation.upgradePayload).to.be.a("string");
+
+    const result = await run("wormhole:upgrade", { contract: core, vaa: signGovernance(implementation.upgradePayload) });
+    expect(result).to.include({ module: "core", contract: core, newContract: implementation.deployedAddress });
+    expect(result.implementation).to.equal(implementation.deployedAddress);
+  });
+
+  it("should validate parameters before sending anything", async function () {
+    try {
+      await run("wormhole:deploy-core", { initialSigners: guardian.toLowerCase(), chainId: "70000" });
+      expect.fail("should have thrown");
+    } catch (error: any) {
+      expect(error.message).to.include("invalid parameters");
+      expect(error.message).to.include(`initialSigners (from --initial-signers) ${guardian.toLowerCase()} is not checksummed`);
+      expect(error.message).to.include("chainId (from --chain-id) must be a Wormhole chain ID between 1 and 65535");
+    }
+
+    try {
+      await run("wormhole:shutdown", { module: "governance" });
+      expect.fail("should have thrown");
+    } catch (error: any) {
+      expect(error.message).to.include("--module must be one of core, token-bridge, nft-bridge");
+    }
+  });
+});
@@ -0,0 +1,19 @@
+import { BigNumber, ethers } from "ethers";
+
+// Random inputs for the differential codec tests, which check the TS codecs against the
+// deployed contracts on values neither side was written around
+
+function randomBytes32(): string {
+  return ethers.utils.hexlify(ethers.utils.randomBytes(32));
+}
+
+// Unsigned integer of `bytes` random bytes, e.g. 2 for a chain ID
+function randomUint(bytes: number): BigNumber {
+  return BigNumber.from(ethers.utils.randomBytes(bytes));
+}
+
+function randomAddress(): string {
+  return ethers.Wallet.createRandom().address;
+}
+
+export { randomBytes32, randomUint, randomAddress };
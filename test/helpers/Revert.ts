@@ -0,0 +1,16 @@
+import { expect } from "chai";
+
+// Awaits `call` and checks it rejected with `reason` in its message. A call that resolves
+// fails the test rather than slipping past the reason check.
+async function expectRevert(call: Promise<unknown>, reason: string) {
+  let error: Error | undefined;
+  try {
+    await call;
+  } catch (e: any) {
+    error = e;
+  }
+  if (error === undefined) expect.fail(`expected the call to revert with "${reason}", but it succeeded`);
+  expect(error.message).to.include(reason);
+}
+
+export { expectRevert };